@@ -1,30 +1,76 @@
 // App.tsx
 
-import React from 'react';
-import { HashRouter, Routes, Route } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { HashRouter, Routes, Route, useLocation } from 'react-router-dom';
+import ErrorBoundary from './components/ErrorBoundary';
 import Header from './components/Header';
 import NavBar from './components/NavBar';
+import VaultLockScreen from './components/VaultLockScreen';
 import HomePage from './pages/HomePage';
 import ScanPage from './pages/ScanPage';
 import ResultsPage from './pages/ResultsPage';
 import AnalyticsPage from './pages/AnalyticsPage';
+import ComparePage from './pages/ComparePage';
 import SettingsPage from './pages/SettingsPage';
+import { applyPhotoRetention } from './services/dataRetention';
+import { VaultStatus, getVaultStatus, startVaultAutoLock, subscribeToVault } from './services/vault';
+
+// Pages are wrapped in an error boundary that resets when the user navigates elsewhere.
+const AppRoutes: React.FC = () => {
+  const location = useLocation();
+  return (
+    <ErrorBoundary resetKey={location.pathname}>
+      <Routes>
+        <Route path="/" element={<HomePage />} />
+        <Route path="/scan" element={<ScanPage />} />
+        <Route path="/results" element={<ResultsPage />} />
+        <Route path="/results/:scanId" element={<ResultsPage />} />
+        <Route path="/compare" element={<ComparePage />} />
+        <Route path="/analytics" element={<AnalyticsPage />} />
+        <Route path="/settings" element={<SettingsPage />} />
+      </Routes>
+    </ErrorBoundary>
+  );
+};
 
 const App: React.FC = () => {
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null); // null while loading
+  const locked = vaultStatus === null || vaultStatus === 'locked';
+
+  useEffect(() => {
+    const refresh = () =>
+      getVaultStatus()
+        .then(setVaultStatus)
+        .catch((error) => {
+          // Without a database there is nothing to protect; pages report the storage error themselves.
+          console.warn('Could not read the app lock status:', error);
+          setVaultStatus('disabled');
+        });
+    refresh();
+    return subscribeToVault(refresh);
+  }, []);
+
+  // Photos past the retention period in settings are deleted on every start, once they can be read.
+  useEffect(() => {
+    if (!locked) {
+      applyPhotoRetention().catch((error) => console.warn('Could not apply the photo retention setting:', error));
+    }
+  }, [locked]);
+
+  useEffect(() => (vaultStatus === 'unlocked' ? startVaultAutoLock() : undefined), [vaultStatus]);
+
   return (
     <HashRouter>
       <div className="relative flex flex-col min-h-screen bg-black text-white">
         <Header />
-        <main className="flex-grow">
-          <Routes>
-            <Route path="/" element={<HomePage />} />
-            <Route path="/scan" element={<ScanPage />} />
-            <Route path="/results" element={<ResultsPage />} />
-            <Route path="/analytics" element={<AnalyticsPage />} />
-            <Route path="/settings" element={<SettingsPage />} />
-          </Routes>
-        </main>
-        <NavBar />
+        {vaultStatus === 'locked' ? (
+          <VaultLockScreen />
+        ) : (
+          <>
+            <main className="flex-grow">{vaultStatus && <AppRoutes />}</main>
+            <NavBar />
+          </>
+        )}
       </div>
     </HashRouter>
   );
@@ -0,0 +1,121 @@
+// components/ApiKeyPanel.tsx
+
+import React, { useEffect, useState } from 'react';
+import Button from './ui/Button';
+import { ApiKeyInfo, getApiKeyInfo, loadApiKey, removeApiKey, saveApiKey } from '../services/apiKeyStore';
+import { ApiKeyTestResult, testApiKey } from '../services/geminiService';
+import { formatRelativeTime } from '../utils/dateUtils';
+
+const TEST_RESULT_CLASSES: Record<ApiKeyTestResult['status'], string> = {
+  valid: 'text-emerald-400',
+  invalid: 'text-red-400',
+  quota_exceeded: 'text-amber-300',
+  unreachable: 'text-amber-300',
+};
+
+/**
+ * Lets the user enter, test, replace and remove the Gemini API key stored (encrypted) on this device.
+ */
+const ApiKeyPanel: React.FC = () => {
+  const [info, setInfo] = useState<ApiKeyInfo | null | undefined>(undefined); // undefined while loading
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [testResult, setTestResult] = useState<ApiKeyTestResult | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    getApiKeyInfo()
+      .then(setInfo)
+      .catch((error) => {
+        console.error('Failed to read the stored API key:', error);
+        setInfo(null);
+      });
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error('API key action failed:', error);
+      setStatus(error.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTest = () =>
+    run(async () => {
+      setTestResult(null);
+      const key = draft.trim() || (await loadApiKey());
+      if (!key) {
+        setStatus('Enter a key to test.');
+        return;
+      }
+      setTestResult(await testApiKey(key));
+    });
+
+  const handleSave = () =>
+    run(async () => {
+      setInfo(await saveApiKey(draft));
+      setDraft('');
+      setStatus(info ? 'Key replaced. New scans will use it.' : 'Key saved. New scans will use it.');
+    });
+
+  const handleRemove = () =>
+    run(async () => {
+      await removeApiKey();
+      setInfo(null);
+      setTestResult(null);
+      setStatus('Key removed from this device.');
+    });
+
+  return (
+    <div className="flex flex-col gap-3">
+      {info === undefined ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : info ? (
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-gray-300">
+            Saved key <span className="font-mono text-gray-400">••••{info.hint}</span>
+            <span className="block text-xs text-gray-500">Added {formatRelativeTime(info.savedAt)}</span>
+          </span>
+          <Button size="sm" variant="ghost" onClick={handleRemove} disabled={busy}>
+            Remove
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No key saved. Scans use the key provided by the environment, if any.</p>
+      )}
+
+      <label htmlFor="api-key" className="sr-only">Gemini API key</label>
+      <input
+        id="api-key"
+        type="password"
+        autoComplete="off"
+        spellCheck={false}
+        placeholder={info ? 'Paste a new key to replace it' : 'Paste your Gemini API key'}
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        className="bg-gray-800 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+      />
+      <div className="flex gap-2">
+        <Button size="sm" variant="secondary" className="flex-1" onClick={handleTest} disabled={busy || (!draft.trim() && !info)}>
+          Test Connection
+        </Button>
+        <Button size="sm" variant="primary" className="flex-1" onClick={handleSave} disabled={busy || !draft.trim()}>
+          {info ? 'Replace Key' : 'Save Key'}
+        </Button>
+      </div>
+
+      {testResult && <p role="status" className={`text-sm ${TEST_RESULT_CLASSES[testResult.status]}`}>{testResult.message}</p>}
+      {status && <p role="status" className="text-sm text-gray-400">{status}</p>}
+      <p className="text-xs text-gray-500">
+        The key is encrypted with a key that never leaves this browser and is only sent to Google's API.
+      </p>
+    </div>
+  );
+};
+
+export default ApiKeyPanel;
@@ -0,0 +1,31 @@
+// components/ConfirmPanel.tsx
+
+import React from 'react';
+import Button from './ui/Button';
+
+interface ConfirmPanelProps {
+  children: React.ReactNode; // What will happen, shown above the buttons
+  confirmLabel: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+  busy?: boolean; // Disables both buttons while the action runs
+}
+
+/**
+ * Inline confirmation step for destructive actions.
+ */
+const ConfirmPanel: React.FC<ConfirmPanelProps> = ({ children, confirmLabel, onConfirm, onCancel, busy = false }) => (
+  <div role="alert" className="bg-red-900 bg-opacity-30 border border-red-700 text-red-200 px-4 py-3 rounded-lg text-sm">
+    {children}
+    <div className="flex gap-2 mt-3">
+      <Button size="sm" variant="primary" className="flex-1 bg-red-600 hover:bg-red-700 focus:ring-red-600" onClick={onConfirm} disabled={busy}>
+        {confirmLabel}
+      </Button>
+      <Button size="sm" variant="secondary" className="flex-1" onClick={onCancel} disabled={busy}>
+        Cancel
+      </Button>
+    </div>
+  </div>
+);
+
+export default ConfirmPanel;
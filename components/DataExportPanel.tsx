@@ -0,0 +1,125 @@
+// components/DataExportPanel.tsx
+
+import React, { useRef, useState } from 'react';
+import Button from './ui/Button';
+import {
+  ImportSummary,
+  exportDataArchive,
+  exportDataAsJson,
+  exportScansAsCsv,
+  importDataArchive,
+} from '../services/dataExport';
+
+type ExportFormat = 'json' | 'csv' | 'zip';
+
+const EXPORTERS: Record<ExportFormat, () => Promise<Blob>> = {
+  json: exportDataAsJson,
+  csv: exportScansAsCsv,
+  zip: exportDataArchive,
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking in the same task can cancel the download in Safari and Firefox.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const describeImport = (summary: ImportSummary): string => {
+  const parts = [`Imported ${summary.scansImported} scan${summary.scansImported === 1 ? '' : 's'} and ${summary.goalsImported} goal${summary.goalsImported === 1 ? '' : 's'}.`];
+  if (summary.scansSkipped || summary.goalsSkipped) {
+    parts.push(`Skipped ${summary.scansSkipped + summary.goalsSkipped} already on this device.`);
+  }
+  if (summary.scansInvalid) {
+    parts.push(`${summary.scansInvalid} scan${summary.scansInvalid === 1 ? ' was' : 's were'} incomplete and left out.`);
+  }
+  if (summary.goalsInvalid) {
+    parts.push(`${summary.goalsInvalid} goal${summary.goalsInvalid === 1 ? ' was' : 's were'} incomplete and left out.`);
+  }
+  if (summary.settingsInvalid) {
+    parts.push(`${summary.settingsInvalid} setting${summary.settingsInvalid === 1 ? ' was' : 's were'} not recognized and left out.`);
+  }
+  if (summary.settingsRestored) {
+    parts.push('Settings not yet changed on this device were restored.');
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Exports the user's data as JSON, CSV or a ZIP archive with photos, and restores archives.
+ */
+const DataExportPanel: React.FC = () => {
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(await EXPORTERS[format](), `skin-health-export-${date}.${format}`);
+    } catch (error: any) {
+      console.error('Export failed:', error);
+      setStatus(`Could not export your data: ${error.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Lets the same file be chosen again
+    if (!file) {
+      return;
+    }
+    setBusy(true);
+    setStatus(null);
+    try {
+      setStatus(describeImport(await importDataArchive(file)));
+    } catch (error: any) {
+      console.error('Import failed:', error);
+      setStatus(`Could not import the archive: ${error.message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <span className="text-gray-300">Export My Data</span>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" className="flex-1" onClick={() => handleExport('json')} disabled={busy}>
+          JSON
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1" onClick={() => handleExport('csv')} disabled={busy}>
+          CSV
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1" onClick={() => handleExport('zip')} disabled={busy}>
+          Archive (ZIP)
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        JSON has every result, goal and setting; CSV has one row per scan for spreadsheets; the archive also contains
+        your original photos and can be restored on another device. API keys are never exported.
+      </p>
+      <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()} disabled={busy}>
+        Import Archive
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        aria-label="Archive to import"
+        className="hidden"
+        onChange={handleImport}
+      />
+      {status && <p role="status" className="text-sm text-gray-400">{status}</p>}
+    </div>
+  );
+};
+
+export default DataExportPanel;
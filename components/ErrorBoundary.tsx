@@ -0,0 +1,82 @@
+// components/ErrorBoundary.tsx
+
+import React from 'react';
+import ErrorNotice, { RecoveryHandlers } from './ErrorNotice';
+import { AppError, toAppError } from '../services/appErrors';
+
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+  resetKey?: string; // Changing this (e.g. on navigation) clears a caught error
+}
+
+interface ErrorBoundaryState {
+  error: AppError | null;
+}
+
+/**
+ * Catches errors thrown while rendering a page and shows the error's message and recovery action instead of a
+ * blank screen.
+ */
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  // The project has no React type declarations, so the inherited members used here are declared explicitly.
+  declare readonly props: Readonly<ErrorBoundaryProps>;
+  declare setState: (state: ErrorBoundaryState) => void;
+
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: unknown): ErrorBoundaryState {
+    return { error: toAppError(error) };
+  }
+
+  componentDidCatch(error: unknown, info: React.ErrorInfo) {
+    console.error('Unhandled error while rendering:', error, info.componentStack);
+  }
+
+  componentDidUpdate(previous: ErrorBoundaryProps) {
+    if (this.state.error && previous.resetKey !== this.props.resetKey) {
+      this.setState({ error: null });
+    }
+  }
+
+  private reset = () => this.setState({ error: null });
+
+  private goToScan = () => {
+    window.location.hash = '#/scan';
+    this.reset();
+  };
+
+  private recoveryHandlers: RecoveryHandlers = {
+    retry: this.reset,
+    reload: () => window.location.reload(),
+    select_api_key: () => {
+      if (typeof window.aistudio?.openSelectKey !== 'function') {
+        window.location.hash = '#/settings'; // Keys are entered under Settings outside AI Studio
+        this.reset();
+        return;
+      }
+      window.aistudio.openSelectKey()
+        .then(this.reset)
+        .catch((error) => console.error('Error opening API key selection dialog:', error));
+    },
+    upload_photo: this.goToScan,
+    retake_photo: this.goToScan,
+  };
+
+  render() {
+    const { error } = this.state;
+    if (!error) {
+      return this.props.children;
+    }
+    return (
+      <div className="flex flex-col items-center justify-center p-4 pt-8 gap-4">
+        <h2 className="text-2xl font-bold text-white">Something went wrong</h2>
+        <ErrorNotice error={error} onRecover={this.recoveryHandlers} className="max-w-sm" />
+        <a href="#/" onClick={this.reset} className="text-sm text-gray-400 underline">
+          Back to Home
+        </a>
+      </div>
+    );
+  }
+}
+
+export default ErrorBoundary;
@@ -0,0 +1,45 @@
+// components/ErrorNotice.tsx
+
+import React from 'react';
+import Button from './ui/Button';
+import { AppError, RecoveryAction } from '../services/appErrors';
+
+// Button labels for each recovery action; 'none' has no button.
+const RECOVERY_LABELS: Record<Exclude<RecoveryAction, 'none'>, string> = {
+  retry: 'Try Again',
+  select_api_key: 'Select API Key',
+  upload_photo: 'Upload a Photo',
+  retake_photo: 'Retake Photo',
+  reload: 'Reload App',
+};
+
+export type RecoveryHandlers = Partial<Record<RecoveryAction, () => void>>;
+
+interface ErrorNoticeProps {
+  error: AppError | string; // Plain strings are shown as-is, without an action
+  onRecover?: RecoveryHandlers; // Handlers for the actions this screen supports; others get no button
+  className?: string;
+}
+
+/**
+ * Shows an error's user-facing message with a button for its recovery action, so errors look and behave the same
+ * on every page.
+ */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRecover = {}, className = '' }) => {
+  const message = typeof error === 'string' ? error : error.userMessage;
+  const action = typeof error === 'string' || error.recovery === 'none' ? null : error.recovery;
+  const handler = action ? onRecover[action] : undefined;
+
+  return (
+    <div role="alert" className={`bg-red-900 bg-opacity-30 border border-red-700 text-red-300 px-4 py-3 rounded-lg w-full text-center ${className}`}>
+      {message}
+      {action && handler && (
+        <Button size="sm" variant="secondary" className="block mx-auto mt-3" onClick={handler}>
+          {RECOVERY_LABELS[action]}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,66 @@
+// components/FaceAlignmentOverlay.tsx
+
+import React from 'react';
+import { FACE_GUIDE } from '../utils/faceAlignment';
+
+interface FaceAlignmentOverlayProps {
+  message: string;
+  aligned: boolean;
+  holdProgress: number; // 0-1 progress towards auto-capture while aligned
+}
+
+const FaceAlignmentOverlay: React.FC<FaceAlignmentOverlayProps> = ({ message, aligned, holdProgress }) => {
+  const cx = FACE_GUIDE.centerX * 100;
+  const cy = FACE_GUIDE.centerY * 100;
+  const rx = (FACE_GUIDE.width / 2) * 100;
+  const ry = (FACE_GUIDE.height / 2) * 100;
+  // Ramanujan's approximation of the ellipse perimeter, for the hold progress stroke.
+  const perimeter = Math.PI * (3 * (rx + ry) - Math.sqrt((3 * rx + ry) * (rx + 3 * ry)));
+  // The oval as two arcs starting at the top, so progress fills clockwise from 12 o'clock.
+  const outlineFromTop = `M ${cx} ${cy - ry} A ${rx} ${ry} 0 1 1 ${cx} ${cy + ry} A ${rx} ${ry} 0 1 1 ${cx} ${cy - ry}`;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="w-full h-full" aria-hidden="true">
+        <defs>
+          <mask id="face-guide-mask">
+            <rect width="100" height="100" fill="white" />
+            <ellipse cx={cx} cy={cy} rx={rx} ry={ry} fill="black" />
+          </mask>
+        </defs>
+        <rect width="100" height="100" fill="black" fillOpacity="0.45" mask="url(#face-guide-mask)" />
+        <ellipse
+          cx={cx}
+          cy={cy}
+          rx={rx}
+          ry={ry}
+          fill="none"
+          stroke={aligned ? '#10B981' : '#F9FAFB'}
+          strokeOpacity={aligned ? 1 : 0.7}
+          strokeWidth="0.8"
+          strokeDasharray={aligned ? undefined : '2 1.5'}
+        />
+        {holdProgress > 0 && (
+          <path
+            d={outlineFromTop}
+            fill="none"
+            stroke="#34D399"
+            strokeWidth="1.6"
+            strokeDasharray={`${perimeter * holdProgress} ${perimeter}`}
+          />
+        )}
+      </svg>
+      <p
+        role="status"
+        aria-live="polite"
+        className={`absolute bottom-4 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full text-sm font-semibold whitespace-nowrap ${
+          aligned ? 'bg-emerald-600 text-white' : 'bg-black bg-opacity-60 text-gray-100'
+        }`}
+      >
+        {message}
+      </p>
+    </div>
+  );
+};
+
+export default FaceAlignmentOverlay;
@@ -0,0 +1,118 @@
+// components/FaceMap.tsx
+
+import React, { useState } from 'react';
+import { FaceRegion, getRegionLabel } from '../utils/faceRegions';
+import { RegionFinding } from '../utils/regionFindings';
+import { getIssueLabel } from '../utils/metricUtils';
+import { SEVERITY_BANDS, getSeverityBand } from '../utils/metricMetadata';
+
+interface FaceMapProps {
+  findings: Map<FaceRegion, RegionFinding>;
+}
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number) =>
+  `M ${cx - rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx + rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z`;
+
+// Region outlines on a 200x260 front-facing diagram. The subject's left side is on the viewer's right.
+const REGION_PATHS: Record<FaceRegion, string> = {
+  forehead: 'M 50 78 L 50 60 C 62 28 138 28 150 60 L 150 78 Z',
+  glabella: 'M 88 80 L 112 80 L 112 98 L 88 98 Z',
+  rightTemple: 'M 48 62 L 28 80 L 28 110 L 46 104 Z',
+  leftTemple: 'M 152 62 L 172 80 L 172 110 L 154 104 Z',
+  rightPeriorbital: ellipse(68, 112, 20, 11),
+  leftPeriorbital: ellipse(132, 112, 20, 11),
+  nose: 'M 92 100 L 108 100 L 116 160 L 84 160 Z',
+  rightCheek: ellipse(58, 154, 22, 25),
+  leftCheek: ellipse(142, 154, 22, 25),
+  upperLip: 'M 80 170 L 120 170 L 122 186 L 78 186 Z',
+  chin: ellipse(100, 222, 28, 17),
+  rightJawline: 'M 30 150 C 36 190 60 225 76 236 L 82 226 C 66 214 46 186 40 150 Z',
+  leftJawline: 'M 170 150 C 164 190 140 225 124 236 L 118 226 C 134 214 154 186 160 150 Z',
+};
+
+// Fill for regions where nothing was reported.
+const EMPTY_FILL = '#374151';
+
+const FaceMap: React.FC<FaceMapProps> = ({ findings }) => {
+  const [selected, setSelected] = useState<FaceRegion | null>(null);
+  const selectedFinding = selected ? findings.get(selected) : undefined;
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-4 shadow-md">
+      <h4 className="font-semibold text-gray-200 mb-2">Face Map</h4>
+      <svg viewBox="0 0 200 260" className="w-full max-w-[220px] mx-auto block" role="group" aria-label="Facial regions">
+        <path
+          d="M 100 12 C 150 12 175 50 175 110 C 175 175 145 240 100 248 C 55 240 25 175 25 110 C 25 50 50 12 100 12 Z"
+          fill="#1F2937"
+          stroke="#4B5563"
+          strokeWidth="1.5"
+        />
+        {(Object.entries(REGION_PATHS) as [FaceRegion, string][]).map(([region, d]) => {
+          const finding = findings.get(region);
+          const band = finding ? getSeverityBand(finding.health) : null;
+          const isSelected = region === selected;
+          return (
+            <path
+              key={region}
+              d={d}
+              fill={band?.color ?? EMPTY_FILL}
+              fillOpacity={band ? 0.85 : 0.6}
+              stroke={isSelected ? '#F9FAFB' : '#111827'}
+              strokeWidth={isSelected ? 2 : 1}
+              role="button"
+              tabIndex={0}
+              aria-label={`${getRegionLabel(region)}: ${band?.label ?? 'Nothing found'}`}
+              aria-pressed={isSelected}
+              className="cursor-pointer focus:outline-none"
+              onClick={() => setSelected(isSelected ? null : region)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter' || event.key === ' ') {
+                  event.preventDefault();
+                  setSelected(isSelected ? null : region);
+                }
+              }}
+            />
+          );
+        })}
+        <text x="8" y="254" fill="#6B7280" fontSize="9">R</text>
+        <text x="186" y="254" fill="#6B7280" fontSize="9">L</text>
+      </svg>
+
+      <div className="flex justify-center gap-3 mt-2 text-xs text-gray-400">
+        {SEVERITY_BANDS.map((band) => (
+          <span key={band.id} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: band.color }} />
+            {band.label}
+          </span>
+        ))}
+      </div>
+
+      <div role="status" className="mt-3 text-sm">
+        {!selected ? (
+          <p className="text-gray-500 text-center">Tap a region to see what was found there.</p>
+        ) : (
+          <>
+            <p className="text-gray-200 font-semibold">{getRegionLabel(selected)}</p>
+            {selectedFinding ? (
+              <ul className="mt-1 space-y-1">
+                {selectedFinding.issues.map((issue) => {
+                  const issueBand = getSeverityBand(issue.health);
+                  return (
+                    <li key={issue.key} className="flex justify-between text-gray-300">
+                      <span>{getIssueLabel(issue.key)} <span className={issueBand.textClass}>({issueBand.label})</span></span>
+                      <span className="text-gray-400">{issue.health}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <p className="text-gray-500">Nothing notable was found here.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FaceMap;
@@ -0,0 +1,152 @@
+// components/GoalForm.tsx
+
+import React, { useMemo, useState } from 'react';
+import Button from './ui/Button';
+import { IssueKey, SkinGoal, StoredScan } from '../types';
+import { GoalInput } from '../services/goalRepository';
+import { DAY_MS } from '../utils/dateUtils';
+import { toHealthScore } from '../utils/metricMetadata';
+import { ISSUE_KEYS, getIssueLabel } from '../utils/metricUtils';
+
+interface GoalFormProps {
+  scans: StoredScan[]; // Candidate baseline scans, newest first
+  goal?: SkinGoal; // Goal being edited; omitted when creating
+  onSubmit: (input: GoalInput) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+// Default deadline offered for new goals
+const DEFAULT_GOAL_DAYS = 30;
+
+const toDateInputValue = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parses a yyyy-mm-dd value as the end of that local day.
+const fromDateInputValue = (value: string): number => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day, 23, 59, 59, 999).getTime();
+};
+
+const inputClassName =
+  'w-full bg-gray-900 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const GoalForm: React.FC<GoalFormProps> = ({ scans, goal, onSubmit, onCancel }) => {
+  const [metric, setMetric] = useState<IssueKey>(goal?.metric ?? 'acne');
+  const [baselineScanId, setBaselineScanId] = useState<string>(goal?.baselineScanId ?? scans[0]?.id ?? '');
+  const [amount, setAmount] = useState<string>(goal ? String(goal.targetDelta) : '10');
+  const [deadline, setDeadline] = useState<string>(toDateInputValue(goal?.deadline ?? Date.now() + DEFAULT_GOAL_DAYS * DAY_MS));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baselineOptions = useMemo(
+    () => scans.filter((scan) => typeof scan.result.issues?.[metric]?.score === 'number'),
+    [scans, metric],
+  );
+  // Fall back to the newest eligible scan when the chosen one lacks the selected metric.
+  const baselineScan = baselineOptions.find((scan) => scan.id === baselineScanId) ?? baselineOptions[0];
+  const baselineHealth = baselineScan ? toHealthScore(metric, baselineScan.result.issues[metric].score) : null;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    const parsedAmount = Number(amount);
+    if (!baselineScan) {
+      setError('Choose a baseline scan that includes this metric.');
+      return;
+    }
+    // Health tops out at 100, so the target cannot ask for more than the baseline leaves.
+    const maxGain = 100 - baselineHealth!;
+    if (maxGain < 1) {
+      setError('This metric is already at full health in the baseline scan. Choose another metric or baseline.');
+      return;
+    }
+    if (!Number.isInteger(parsedAmount) || parsedAmount < 1 || parsedAmount > maxGain) {
+      setError(`Target improvement must be between 1 and ${maxGain} points.`);
+      return;
+    }
+    const deadlineAt = deadline ? fromDateInputValue(deadline) : NaN;
+    if (!Number.isFinite(deadlineAt) || deadlineAt <= baselineScan.createdAt) {
+      setError('Deadline must be after the baseline scan.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit({
+        metric,
+        baselineScanId: baselineScan.id,
+        baselineScore: baselineHealth!,
+        baselineAt: baselineScan.createdAt,
+        targetDelta: parsedAmount,
+        deadline: deadlineAt,
+      });
+    } catch (err: any) {
+      console.error('Failed to save goal:', err);
+      setError(`Could not save goal: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3 bg-gray-800 rounded-lg p-4">
+      <label className="flex flex-col gap-1 text-sm text-gray-300">
+        Metric
+        <select value={metric} onChange={(event) => setMetric(event.target.value as IssueKey)} className={inputClassName}>
+          {ISSUE_KEYS.map((key) => (
+            <option key={key} value={key}>
+              {getIssueLabel(key)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1 text-sm text-gray-300">
+        Baseline scan
+        <select value={baselineScan?.id ?? ''} onChange={(event) => setBaselineScanId(event.target.value)} className={inputClassName}>
+          {baselineOptions.length === 0 && <option value="">No scans available</option>}
+          {baselineOptions.map((scan) => (
+            <option key={scan.id} value={scan.id}>
+              {new Date(scan.createdAt).toLocaleDateString()} — {getIssueLabel(metric)} health {toHealthScore(metric, scan.result.issues[metric].score)}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1 text-sm text-gray-300">
+        Improve health by (points)
+        <input
+          type="number"
+          min={1}
+          max={baselineHealth === null ? 100 : Math.max(1, 100 - baselineHealth)}
+          value={amount}
+          onChange={(event) => setAmount(event.target.value)}
+          className={inputClassName}
+        />
+        <span className="text-xs text-gray-500">Health scores run from 0 to 100; higher is better for every metric.</span>
+      </label>
+
+      <label className="flex flex-col gap-1 text-sm text-gray-300">
+        Deadline
+        <input type="date" value={deadline} onChange={(event) => setDeadline(event.target.value)} className={inputClassName} />
+      </label>
+
+      {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-2 mt-2">
+        <Button type="submit" size="sm" className="flex-1" disabled={saving}>
+          {goal ? 'Save Goal' : 'Add Goal'}
+        </Button>
+        <Button type="button" size="sm" variant="ghost" className="flex-1" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default GoalForm;
@@ -0,0 +1,54 @@
+// components/QualityReportPanel.tsx
+
+import React from 'react';
+import { ImageQualityReport } from '../types';
+
+interface QualityReportPanelProps {
+  report: ImageQualityReport | null;
+  checking: boolean;
+}
+
+const QualityReportPanel: React.FC<QualityReportPanelProps> = ({ report, checking }) => {
+  if (checking) {
+    return (
+      <div className="flex items-center gap-2 w-full bg-gray-900 rounded-lg px-4 py-3 mb-4 text-sm text-gray-400">
+        <div className="animate-spin rounded-full h-4 w-4 border-2 border-emerald-500 border-t-transparent"></div>
+        Checking photo quality...
+      </div>
+    );
+  }
+  if (!report) {
+    return null;
+  }
+  if (report.verdict === 'ok') {
+    return (
+      <div role="status" className="w-full bg-emerald-900 bg-opacity-30 border border-emerald-700 text-emerald-300 rounded-lg px-4 py-3 mb-4 text-sm">
+        Photo quality looks good.
+        {report.metrics.faceCount === null && (
+          <span className="block text-xs text-emerald-400 mt-1">Face framing was not checked for this photo.</span>
+        )}
+      </div>
+    );
+  }
+
+  const blocked = report.verdict === 'block';
+  return (
+    <div
+      role={blocked ? 'alert' : 'status'}
+      className={`w-full rounded-lg px-4 py-3 mb-4 text-sm border bg-opacity-30 ${
+        blocked ? 'bg-red-900 border-red-700 text-red-300' : 'bg-amber-900 border-amber-700 text-amber-200'
+      }`}
+    >
+      <p className="font-semibold mb-1">
+        {blocked ? 'Please retake this photo' : 'This photo may give less reliable results'}
+      </p>
+      <ul className="list-disc list-inside space-y-1">
+        {report.findings.map((finding) => (
+          <li key={finding.check}>{finding.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QualityReportPanel;
@@ -0,0 +1,152 @@
+// components/ScanCompareViewer.tsx
+
+import React, { useRef, useState } from 'react';
+import Button from './ui/Button';
+
+interface ScanCompareViewerProps {
+  beforeSrc: string;
+  afterSrc: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.5;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Shows two scan photos either side by side or stacked with a before/after slider.
+ * Zoom and pan are shared, so both photos always show the same part of the face.
+ */
+const ScanCompareViewer: React.FC<ScanCompareViewerProps> = ({ beforeSrc, afterSrc, beforeLabel, afterLabel }) => {
+  const [mode, setMode] = useState<'side' | 'slider'>('side');
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 }); // Percent of the image size, applied before scaling
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const dragRef = useRef<{ x: number; y: number; width: number; height: number } | null>(null);
+
+  // Keeps the zoomed image covering its frame.
+  const clampPan = (next: { x: number; y: number }, atZoom: number) => {
+    const limit = (50 * (atZoom - 1)) / atZoom;
+    return { x: clamp(next.x, -limit, limit), y: clamp(next.y, -limit, limit) };
+  };
+
+  const changeZoom = (next: number) => {
+    const clamped = clamp(next, MIN_ZOOM, MAX_ZOOM);
+    setZoom(clamped);
+    setPan((current) => clampPan(current, clamped));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (zoom <= 1) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    dragRef.current = { x: event.clientX, y: event.clientY, width: rect.width, height: rect.height };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = ((event.clientX - drag.x) / drag.width) * 100;
+    const dy = ((event.clientY - drag.y) / drag.height) * 100;
+    dragRef.current = { ...drag, x: event.clientX, y: event.clientY };
+    setPan((current) => clampPan({ x: current.x + dx / zoom, y: current.y + dy / zoom }, zoom));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const imageStyle: React.CSSProperties = {
+    transform: `scale(${zoom}) translate(${pan.x}%, ${pan.y}%)`,
+    transformOrigin: 'center',
+  };
+  const frameProps = {
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    className: `relative aspect-square overflow-hidden rounded-lg bg-gray-800 touch-none ${zoom > 1 ? 'cursor-grab' : ''}`,
+  };
+  const caption = (text: string, side: 'left' | 'right') => (
+    <span className={`absolute top-2 ${side === 'left' ? 'left-2' : 'right-2'} bg-black bg-opacity-60 text-xs text-gray-200 px-2 py-0.5 rounded`}>
+      {text}
+    </span>
+  );
+
+  return (
+    <div className="bg-gray-900 rounded-xl p-3 shadow-md">
+      <div className="flex bg-gray-800 rounded-lg p-1 mb-3">
+        <Button size="sm" variant={mode === 'side' ? 'primary' : 'ghost'} className="flex-1" onClick={() => setMode('side')}>
+          Side by side
+        </Button>
+        <Button size="sm" variant={mode === 'slider' ? 'primary' : 'ghost'} className="flex-1" onClick={() => setMode('slider')}>
+          Slider
+        </Button>
+      </div>
+
+      {mode === 'side' ? (
+        <div className="grid grid-cols-2 gap-2">
+          <div {...frameProps}>
+            <img src={beforeSrc} alt={beforeLabel} className="w-full h-full object-cover select-none" style={imageStyle} draggable={false} />
+            {caption(beforeLabel, 'left')}
+          </div>
+          <div {...frameProps}>
+            <img src={afterSrc} alt={afterLabel} className="w-full h-full object-cover select-none" style={imageStyle} draggable={false} />
+            {caption(afterLabel, 'left')}
+          </div>
+        </div>
+      ) : (
+        <>
+          <div {...frameProps}>
+            <img src={beforeSrc} alt={beforeLabel} className="absolute inset-0 w-full h-full object-cover select-none" style={imageStyle} draggable={false} />
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${sliderPosition}%)` }}>
+              <img src={afterSrc} alt={afterLabel} className="w-full h-full object-cover select-none" style={imageStyle} draggable={false} />
+            </div>
+            <div className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: `${sliderPosition}%` }} />
+            {caption(beforeLabel, 'left')}
+            {caption(afterLabel, 'right')}
+          </div>
+          <label className="flex items-center gap-2 mt-3 text-xs text-gray-400">
+            Before
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={sliderPosition}
+              onChange={(event) => setSliderPosition(Number(event.target.value))}
+              className="flex-1 accent-emerald-500"
+              aria-label="Before/after position"
+            />
+            After
+          </label>
+        </>
+      )}
+
+      <div className="flex items-center gap-2 mt-3">
+        <Button size="sm" variant="secondary" onClick={() => changeZoom(zoom - ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} aria-label="Zoom out">
+          −
+        </Button>
+        <input
+          type="range"
+          min={MIN_ZOOM}
+          max={MAX_ZOOM}
+          step={0.1}
+          value={zoom}
+          onChange={(event) => changeZoom(Number(event.target.value))}
+          className="flex-1 accent-emerald-500"
+          aria-label="Zoom"
+        />
+        <Button size="sm" variant="secondary" onClick={() => changeZoom(zoom + ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} aria-label="Zoom in">
+          +
+        </Button>
+        <span className="text-xs text-gray-400 w-10 text-right">{zoom.toFixed(1)}×</span>
+      </div>
+      {zoom > 1 && <p className="text-xs text-gray-500 mt-1 text-center">Drag either photo to move both.</p>}
+    </div>
+  );
+};
+
+export default ScanCompareViewer;
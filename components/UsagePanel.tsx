@@ -0,0 +1,156 @@
+// components/UsagePanel.tsx
+
+import React, { useEffect, useState } from 'react';
+import Button from './ui/Button';
+import { listApiCalls } from '../services/usageRepository';
+import { AppSettings, ApiCallRecord, ModelPrice } from '../types';
+import { DEFAULT_MODEL_PRICES, formatCost, getModelPrice, startOfMonth, summarizeUsage, UsageTotals } from '../utils/usageUtils';
+
+interface UsagePanelProps {
+  settings: AppSettings;
+  onChange: (changes: Partial<AppSettings>) => void;
+}
+
+const inputClassName =
+  'w-20 bg-gray-800 text-gray-200 text-sm rounded-lg px-2 py-1 border border-gray-700 text-right focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const TotalsRow: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <tr className="border-t border-gray-800">
+    <td className="py-2 text-gray-300">{label}</td>
+    <td className="py-2 text-right text-gray-400">
+      {totals.calls}
+      {totals.failedCalls > 0 && <span className="text-xs text-red-400"> ({totals.failedCalls} failed)</span>}
+    </td>
+    <td className="py-2 text-right text-gray-400">{(totals.inputTokens + totals.outputTokens).toLocaleString()}</td>
+    <td className="py-2 text-right text-gray-200 font-semibold">{formatCost(totals.cost)}</td>
+  </tr>
+);
+
+/**
+ * Shows API calls, tokens and estimated cost for today and this month, with the editable price table
+ * and the monthly budget.
+ */
+const UsagePanel: React.FC<UsagePanelProps> = ({ settings, onChange }) => {
+  const [calls, setCalls] = useState<ApiCallRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listApiCalls(startOfMonth(Date.now()))
+      .then((loaded) => {
+        if (!cancelled) setCalls(loaded);
+      })
+      .catch((err: any) => {
+        console.error('Failed to load API usage:', err);
+        if (!cancelled) setError(`Could not load usage: ${err.message}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const prices = settings.modelPrices ?? {};
+  const models = [...new Set([...Object.keys(DEFAULT_MODEL_PRICES), ...Object.keys(prices), ...(calls ?? []).map((call) => call.model)])];
+  const usage = calls ? summarizeUsage(calls, prices) : null;
+
+  const changePrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const current = getModelPrice(model, prices) ?? { inputPerMillion: 0, outputPerMillion: 0 };
+    const amount = Number(value);
+    if (value === '' || !Number.isFinite(amount) || amount < 0) {
+      return;
+    }
+    onChange({ modelPrices: { ...prices, [model]: { ...current, [field]: amount } } });
+  };
+
+  const changeBudget = (value: string) => {
+    const amount = Number(value);
+    onChange({ monthlyBudget: value !== '' && Number.isFinite(amount) && amount > 0 ? amount : undefined });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {error ? (
+        <p role="alert" className="text-sm text-red-400">{error}</p>
+      ) : !usage ? (
+        <p className="text-sm text-gray-500">Loading usage...</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500">
+              <th className="text-left font-normal pb-1">Period</th>
+              <th className="text-right font-normal pb-1">Calls</th>
+              <th className="text-right font-normal pb-1">Tokens</th>
+              <th className="text-right font-normal pb-1">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            <TotalsRow label="Today" totals={usage.today} />
+            <TotalsRow label="This month" totals={usage.month} />
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="monthly-budget" className="text-gray-300">Monthly budget (USD)</label>
+        <input
+          id="monthly-budget"
+          type="number"
+          min={0}
+          step={0.5}
+          placeholder="None"
+          defaultValue={settings.monthlyBudget ?? ''}
+          onBlur={(event) => changeBudget(event.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <p className="text-sm text-gray-500 -mt-2">You'll be asked to confirm before a scan that would go over this budget.</p>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="text-sm font-semibold text-gray-300">Prices (USD per 1M tokens)</h4>
+          {settings.modelPrices && (
+            <Button size="sm" variant="ghost" onClick={() => onChange({ modelPrices: undefined })}>
+              Reset
+            </Button>
+          )}
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500">
+              <th className="text-left font-normal pb-1">Model</th>
+              <th className="text-right font-normal pb-1">Input</th>
+              <th className="text-right font-normal pb-1">Output</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map((model) => {
+              const price = getModelPrice(model, prices);
+              return (
+                <tr key={model} className="border-t border-gray-800">
+                  <td className="py-1 text-gray-400 break-all">{model}</td>
+                  {(['inputPerMillion', 'outputPerMillion'] as const).map((field) => (
+                    <td key={field} className="py-1 text-right">
+                      <input
+                        key={`${model}-${field}-${price?.[field] ?? ''}`}
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        aria-label={`${model} ${field === 'inputPerMillion' ? 'input' : 'output'} price`}
+                        defaultValue={price?.[field] ?? ''}
+                        onBlur={(event) => changePrice(model, field, event.target.value)}
+                        className={inputClassName}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mt-2">Costs are estimates from these prices and may differ from your bill.</p>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
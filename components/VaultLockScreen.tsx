@@ -0,0 +1,85 @@
+// components/VaultLockScreen.tsx
+
+import React, { useState } from 'react';
+import Button from './ui/Button';
+import ConfirmPanel from './ConfirmPanel';
+import { VaultError } from '../services/appErrors';
+import { deleteAllData } from '../services/dataRetention';
+import { unlockVault } from '../services/vault';
+
+/**
+ * Shown instead of the app while the app lock is on and locked. A forgotten passphrase cannot be recovered, so the
+ * only way past it without one is deleting all data.
+ */
+const VaultLockScreen: React.FC = () => {
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmingReset, setConfirmingReset] = useState(false);
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+    } catch (unlockError: any) {
+      if (!(unlockError instanceof VaultError)) {
+        console.error('Failed to unlock the app:', unlockError);
+      }
+      setError(unlockError instanceof VaultError ? unlockError.userMessage : unlockError.message);
+      setPassphrase('');
+      setBusy(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setBusy(true);
+    try {
+      await deleteAllData();
+    } catch (resetError: any) {
+      console.error('Failed to delete local data:', resetError);
+      setError(`Could not delete your data: ${resetError.message}`);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center flex-grow p-6 bg-black">
+      <div className="w-full max-w-sm bg-gray-900 rounded-xl p-6 shadow-lg flex flex-col gap-3">
+        <form onSubmit={handleUnlock} className="flex flex-col gap-3">
+          <h2 className="text-xl font-semibold text-gray-200">App Locked</h2>
+          <p className="text-sm text-gray-400">Your photos and results are encrypted. Enter your passphrase to continue.</p>
+          <label htmlFor="vault-unlock" className="sr-only">Passphrase</label>
+          <input
+            id="vault-unlock"
+            type="password"
+            autoComplete="current-password"
+            autoFocus
+            value={passphrase}
+            onChange={(event) => setPassphrase(event.target.value)}
+            className="bg-gray-800 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          <Button type="submit" variant="primary" disabled={busy || !passphrase}>
+            {busy ? 'Unlocking...' : 'Unlock'}
+          </Button>
+          {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+        </form>
+        {confirmingReset ? (
+          <ConfirmPanel confirmLabel="Delete Everything" onConfirm={handleReset} onCancel={() => setConfirmingReset(false)} busy={busy}>
+            <p>
+              Without the passphrase your data cannot be decrypted. This permanently deletes all scans, photos, goals and
+              settings from this device so you can start over.
+            </p>
+          </ConfirmPanel>
+        ) : (
+          <Button size="sm" variant="ghost" onClick={() => setConfirmingReset(true)} disabled={busy}>
+            Forgot passphrase?
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultLockScreen;
@@ -0,0 +1,185 @@
+// components/VaultPanel.tsx
+
+import React, { useEffect, useState } from 'react';
+import Button from './ui/Button';
+import { VaultError } from '../services/appErrors';
+import {
+  DEFAULT_VAULT_AUTO_LOCK_MINUTES,
+  MIN_PASSPHRASE_LENGTH,
+  VAULT_AUTO_LOCK_OPTIONS,
+  VaultStatus,
+  changeVaultPassphrase,
+  disableVault,
+  enableVault,
+  getVaultStatus,
+  lockVault,
+  subscribeToVault,
+} from '../services/vault';
+import { AppSettings } from '../types';
+
+interface VaultPanelProps {
+  settings: AppSettings;
+  onChange: (changes: Partial<AppSettings>) => void;
+}
+
+// Which passphrase form is open while the lock is on.
+type VaultForm = 'change' | 'disable' | null;
+
+const inputClassName =
+  'bg-gray-800 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+/**
+ * Lets the user turn the passphrase app lock on or off, change the passphrase, lock the app and choose when it
+ * locks itself.
+ */
+const VaultPanel: React.FC<VaultPanelProps> = ({ settings, onChange }) => {
+  const [status, setStatus] = useState<VaultStatus | null>(null); // null while loading
+  const [form, setForm] = useState<VaultForm>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () =>
+      getVaultStatus()
+        .then(setStatus)
+        .catch((error) => {
+          console.error('Failed to read the app lock status:', error);
+          setStatus('disabled');
+        });
+    refresh();
+    return subscribeToVault(refresh);
+  }, []);
+
+  const resetForm = (nextForm: VaultForm = null) => {
+    setForm(nextForm);
+    setCurrent('');
+    setNext('');
+    setConfirmation('');
+  };
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    if (next !== confirmation) {
+      setMessage('The new passphrases do not match.');
+      return;
+    }
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      resetForm();
+      setMessage(done);
+    } catch (error: any) {
+      if (!(error instanceof VaultError)) {
+        console.error('App lock action failed:', error);
+      }
+      setMessage(error instanceof VaultError ? error.userMessage : error.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = () => run(() => enableVault(next), 'App lock turned on. Your photos and results are now encrypted.');
+  const handleChange = () => run(() => changeVaultPassphrase(current, next), 'Passphrase changed. All data was encrypted again.');
+  const handleDisable = () => run(() => disableVault(current), 'App lock turned off. Your data is no longer encrypted.');
+
+  const passphraseInput = (id: string, label: string, value: string, onValue: (value: string) => void, autoComplete: string) => (
+    <>
+      <label htmlFor={id} className="sr-only">{label}</label>
+      <input
+        id={id}
+        type="password"
+        autoComplete={autoComplete}
+        placeholder={label}
+        value={value}
+        onChange={(event) => onValue(event.target.value)}
+        className={inputClassName}
+      />
+    </>
+  );
+
+  if (status === null) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {status === 'disabled' ? (
+        <>
+          <p className="text-sm text-gray-500">
+            Encrypts your photos and results with a passphrase or PIN of at least {MIN_PASSPHRASE_LENGTH} characters.
+            The app asks for it when opened and after a period of inactivity.
+          </p>
+          {passphraseInput('vault-new', 'New passphrase', next, setNext, 'new-password')}
+          {passphraseInput('vault-confirm', 'Repeat passphrase', confirmation, setConfirmation, 'new-password')}
+          <Button size="sm" variant="primary" onClick={handleEnable} disabled={busy || !next}>
+            {busy ? 'Encrypting...' : 'Turn On App Lock'}
+          </Button>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="vault-auto-lock" className="text-gray-300">Lock after</label>
+            <select
+              id="vault-auto-lock"
+              value={settings.vaultAutoLockMinutes ?? DEFAULT_VAULT_AUTO_LOCK_MINUTES}
+              onChange={(event) => {
+                const minutes = Number(event.target.value);
+                onChange({ vaultAutoLockMinutes: minutes === DEFAULT_VAULT_AUTO_LOCK_MINUTES ? undefined : minutes });
+              }}
+              className={inputClassName}
+            >
+              {VAULT_AUTO_LOCK_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 60 ? '1 hour' : `${minutes} minute${minutes === 1 ? '' : 's'}`} of inactivity
+                </option>
+              ))}
+            </select>
+          </div>
+          {form === null && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="secondary" className="flex-1" onClick={lockVault}>
+                Lock Now
+              </Button>
+              <Button size="sm" variant="secondary" className="flex-1" onClick={() => resetForm('change')}>
+                Change Passphrase
+              </Button>
+              <Button size="sm" variant="ghost" className="flex-1" onClick={() => resetForm('disable')}>
+                Turn Off
+              </Button>
+            </div>
+          )}
+          {form && (
+            <>
+              {passphraseInput('vault-current', 'Current passphrase', current, setCurrent, 'current-password')}
+              {form === 'change' && passphraseInput('vault-new', 'New passphrase', next, setNext, 'new-password')}
+              {form === 'change' && passphraseInput('vault-confirm', 'Repeat new passphrase', confirmation, setConfirmation, 'new-password')}
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="primary"
+                  className="flex-1"
+                  onClick={form === 'change' ? handleChange : handleDisable}
+                  disabled={busy || !current || (form === 'change' && !next)}
+                >
+                  {busy ? 'Encrypting...' : form === 'change' ? 'Change Passphrase' : 'Turn Off App Lock'}
+                </Button>
+                <Button size="sm" variant="secondary" className="flex-1" onClick={() => resetForm()} disabled={busy}>
+                  Cancel
+                </Button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+      {message && <p role="status" className="text-sm text-gray-400">{message}</p>}
+      <p className="text-xs text-gray-500">
+        The passphrase cannot be recovered. If you forget it, the only way back into the app is deleting all data.
+      </p>
+    </div>
+  );
+};
+
+export default VaultPanel;
@@ -1,88 +1,289 @@
 // pages/AnalyticsPage.tsx
 
-import React from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Legend } from 'recharts';
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Cell, ErrorBar } from 'recharts';
 import ProgressBar from '../components/ui/ProgressBar';
+import Button from '../components/ui/Button';
+import GoalForm from '../components/GoalForm';
+import { listScans } from '../services/scanRepository';
+import { GoalInput, createGoal, listGoals, setGoalArchived, updateGoal } from '../services/goalRepository';
+import { GoalStatus, IssueKey, SkinGoal, StoredScan } from '../types';
+import { ISSUE_KEYS, getIssueLabel } from '../utils/metricUtils';
+import { getSeverityBand } from '../utils/metricMetadata';
+import {
+  TIME_RANGES,
+  TimeRangeId,
+  buildTrendSeries,
+  computeDelta,
+  filterScansByRange,
+  isLowQualityScan,
+  summarizeMetricDelta,
+  summarizeOverallDelta,
+} from '../utils/analyticsUtils';
+import { computeGoalProgress, getGoalTitle } from '../utils/goalUtils';
 
-const data = [
-  { name: 'Mon', score: 70, acne: 10, wrinkles: 5, hyperpigmentation: 3 },
-  { name: 'Tue', score: 72, acne: 9, wrinkles: 4, hyperpigmentation: 2 },
-  { name: 'Wed', score: 75, acne: 8, wrinkles: 4, hyperpigmentation: 2 },
-  { name: 'Thu', score: 78, acne: 7, wrinkles: 3, hyperpigmentation: 1 },
-  { name: 'Fri', score: 80, acne: 6, wrinkles: 3, hyperpigmentation: 1 },
-  { name: 'Sat', score: 82, acne: 5, wrinkles: 2, hyperpigmentation: 1 },
-  { name: 'Sun', score: 85, acne: 4, wrinkles: 2, hyperpigmentation: 0 },
-];
+const goalStatusStyles: Record<GoalStatus, { label: string; ring: string; badge: string }> = {
+  achieved: { label: 'Achieved', ring: 'text-emerald-400', badge: 'bg-emerald-900 text-emerald-300' },
+  on_track: { label: 'On track', ring: 'text-sky-400', badge: 'bg-sky-900 text-sky-300' },
+  behind: { label: 'Behind', ring: 'text-amber-400', badge: 'bg-amber-900 text-amber-300' },
+};
 
 const AnalyticsPage: React.FC = () => {
+  const [scans, setScans] = useState<StoredScan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rangeId, setRangeId] = useState<TimeRangeId>('90d');
+  const [metric, setMetric] = useState<IssueKey>('acne');
+  const [goals, setGoals] = useState<SkinGoal[]>([]);
+  const [editingGoalId, setEditingGoalId] = useState<string | null>(null); // 'new' while creating
+  const [showArchived, setShowArchived] = useState(false);
+  const [excludeLowQuality, setExcludeLowQuality] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listScans(), listGoals(true)])
+      .then(([loadedScans, loadedGoals]) => {
+        if (cancelled) return;
+        setScans(loadedScans);
+        setGoals(loadedGoals);
+      })
+      .catch((err: any) => {
+        console.error('Failed to load scan history:', err);
+        if (!cancelled) setError(`Could not load your scan history: ${err.message}`);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const series = useMemo(
+    () => buildTrendSeries(filterScansByRange(scans, rangeId, Date.now(), excludeLowQuality), metric),
+    [scans, rangeId, metric, excludeLowQuality],
+  );
+  const overallDelta = useMemo(() => computeDelta(series, (point) => point.overallScore), [series]);
+  const metricDelta = useMemo(() => computeDelta(series, (point) => point.metricScore), [series]);
+
+  const lowQualityCount = scans.filter(isLowQualityScan).length;
+
+  const activeGoals = goals.filter((goal) => !goal.archivedAt);
+  const archivedGoals = goals.filter((goal) => goal.archivedAt);
+
+  const replaceGoal = (saved: SkinGoal) => {
+    setGoals((current) =>
+      current.some((goal) => goal.id === saved.id)
+        ? current.map((goal) => (goal.id === saved.id ? saved : goal))
+        : [...current, saved],
+    );
+  };
+
+  const handleGoalSubmit = async (input: GoalInput) => {
+    const existing = goals.find((goal) => goal.id === editingGoalId);
+    const saved = existing ? await updateGoal({ ...existing, ...input }) : await createGoal(input);
+    replaceGoal(saved);
+    setEditingGoalId(null);
+  };
+
+  const handleArchiveToggle = async (goal: SkinGoal) => {
+    try {
+      replaceGoal(await setGoalArchived(goal, !goal.archivedAt));
+    } catch (err: any) {
+      console.error('Failed to update goal:', err);
+      setError(`Could not update goal: ${err.message}`);
+    }
+  };
+
   return (
     <div className="flex flex-col flex-grow p-4 pt-0 pb-20 bg-black overflow-y-auto">
       <h2 className="text-2xl font-bold text-white mb-6">Your Progress</h2>
 
-      <div className="flex justify-around bg-gray-900 rounded-xl p-2 mb-6 shadow-md text-sm text-gray-400">
-        <span className="px-3 py-1 bg-emerald-700 rounded-lg text-white font-semibold">90 Days</span>
-        <span className="px-3 py-1">6 Months</span>
-        <span className="px-3 py-1">1 Year</span>
-        <span className="px-3 py-1">All time</span>
+      <div role="tablist" className="flex justify-around bg-gray-900 rounded-xl p-2 mb-6 shadow-md text-sm text-gray-400">
+        {TIME_RANGES.map((range) => (
+          <button
+            key={range.id}
+            type="button"
+            role="tab"
+            aria-selected={rangeId === range.id}
+            onClick={() => setRangeId(range.id)}
+            className={`px-3 py-1 rounded-lg transition-colors duration-200 ${
+              rangeId === range.id ? 'bg-emerald-700 text-white font-semibold' : 'hover:text-gray-200'
+            }`}
+          >
+            {range.label}
+          </button>
+        ))}
       </div>
 
-      <div className="bg-gray-900 rounded-xl p-6 mb-6 shadow-lg text-center">
-        <h3 className="text-xl font-semibold mb-4 text-gray-200">Overall Score Trend</h3>
-        <ResponsiveContainer width="100%" height={200}>
-          <LineChart data={data} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#333" />
-            <XAxis dataKey="name" stroke="#6b7280" />
-            <YAxis stroke="#6b7280" />
-            <Tooltip
-              contentStyle={{ backgroundColor: '#1f2937', border: 'none', borderRadius: '8px' }}
-              labelStyle={{ color: '#fff' }}
-              itemStyle={{ color: '#fff' }}
-            />
-            <Line type="monotone" dataKey="score" stroke="#10b981" strokeWidth={2} dot={false} />
-          </LineChart>
-        </ResponsiveContainer>
-        <p className="text-sm text-gray-400 mt-4">Your skin health has improved by 5% this week!</p>
-      </div>
+      {lowQualityCount > 0 && (
+        <label className="flex items-center gap-2 text-sm text-gray-400 mb-6">
+          <input
+            type="checkbox"
+            checked={excludeLowQuality}
+            onChange={(event) => setExcludeLowQuality(event.target.checked)}
+            className="accent-emerald-500"
+          />
+          Exclude {lowQualityCount} low-quality capture{lowQualityCount === 1 ? '' : 's'} from trends
+        </label>
+      )}
 
-      <div className="bg-gray-900 rounded-xl p-6 mb-6 shadow-lg text-center">
-        <h3 className="text-xl font-semibold mb-4 text-gray-200">Key Issue Tracking</h3>
-        <ResponsiveContainer width="100%" height={250}>
-          <BarChart data={data} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#333" />
-            <XAxis dataKey="name" stroke="#6b7280" />
-            <YAxis stroke="#6b7280" />
-            <Tooltip
-              contentStyle={{ backgroundColor: '#1f2937', border: 'none', borderRadius: '8px' }}
-              labelStyle={{ color: '#fff' }}
-              itemStyle={{ color: '#fff' }}
-            />
-            <Legend wrapperStyle={{ color: '#fff' }} />
-            <Bar dataKey="acne" fill="#ef4444" name="Acne" />
-            <Bar dataKey="wrinkles" fill="#f97316" name="Wrinkles" />
-            <Bar dataKey="hyperpigmentation" fill="#eab308" name="Hyperpigmentation" />
-          </BarChart>
-        </ResponsiveContainer>
-        <p className="text-sm text-gray-400 mt-4">Acne severity has decreased significantly.</p>
-      </div>
+      {error && (
+        <div role="alert" className="bg-red-900 bg-opacity-30 border border-red-700 text-red-300 px-4 py-3 rounded-lg mb-6 text-center text-sm">
+          {error}
+        </div>
+      )}
 
-      <div className="bg-gray-900 rounded-xl p-6 mb-6 shadow-lg">
-        <h3 className="text-xl font-semibold mb-4 text-gray-200">Current Goals</h3>
-        <div className="space-y-4">
-          <div className="flex items-center gap-4">
-            <ProgressBar progress={70} size={60} strokeWidth={8} label="" color="text-sky-400" />
-            <div className="flex-grow">
-              <p className="font-semibold text-gray-200">Reduce Redness</p>
-              <p className="text-sm text-gray-400">Target: 20% reduction</p>
-            </div>
+      {loading ? (
+        <div className="flex flex-col items-center justify-center p-8">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-emerald-500 border-t-transparent mb-4"></div>
+          <p className="text-gray-300">Loading your history...</p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-gray-900 rounded-xl p-6 mb-6 shadow-lg text-center">
+            <h3 className="text-xl font-semibold mb-4 text-gray-200">Overall Score Trend</h3>
+            {series.length > 0 ? (
+              <ResponsiveContainer width="100%" height={200}>
+                <LineChart data={series} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+                  <XAxis dataKey="label" stroke="#6b7280" />
+                  <YAxis stroke="#6b7280" domain={[0, 100]} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1f2937', border: 'none', borderRadius: '8px' }}
+                    labelStyle={{ color: '#fff' }}
+                    itemStyle={{ color: '#fff' }}
+                  />
+                  <Line type="monotone" dataKey="overallScore" name="Overall" stroke="#10b981" strokeWidth={2} dot={series.length < 2}>
+                    <ErrorBar dataKey="overallError" width={4} stroke="#6b7280" direction="y" />
+                  </Line>
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-gray-500 py-8">No scans in this period.</p>
+            )}
+            <p className="text-sm text-gray-400 mt-4">{summarizeOverallDelta(overallDelta, rangeId)}</p>
           </div>
-          <div className="flex items-center gap-4">
-            <ProgressBar progress={55} size={60} strokeWidth={8} label="" color="text-fuchsia-400" />
-            <div className="flex-grow">
-              <p className="font-semibold text-gray-200">Improve Hydration</p>
-              <p className="text-sm text-gray-400">Target: 15% increase</p>
+
+          <div className="bg-gray-900 rounded-xl p-6 mb-6 shadow-lg text-center">
+            <div className="flex items-center justify-between mb-4 gap-2">
+              <h3 className="text-xl font-semibold text-gray-200">Key Issue Tracking</h3>
+              <select
+                aria-label="Metric"
+                value={metric}
+                onChange={(event) => setMetric(event.target.value as IssueKey)}
+                className="bg-gray-800 text-gray-200 text-sm rounded-lg px-2 py-1 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {ISSUE_KEYS.map((key) => (
+                  <option key={key} value={key}>
+                    {getIssueLabel(key)}
+                  </option>
+                ))}
+              </select>
             </div>
+            {series.length > 0 ? (
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={series} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+                  <XAxis dataKey="label" stroke="#6b7280" />
+                  <YAxis stroke="#6b7280" domain={[0, 100]} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1f2937', border: 'none', borderRadius: '8px' }}
+                    labelStyle={{ color: '#fff' }}
+                    itemStyle={{ color: '#fff' }}
+                  />
+                  <Bar dataKey="metricScore" name={`${getIssueLabel(metric)} health`}>
+                    {series.map((point) => (
+                      <Cell key={point.scanId} fill={point.metricScore === null ? '#374151' : getSeverityBand(point.metricScore).color} />
+                    ))}
+                    <ErrorBar dataKey="metricError" width={4} stroke="#9ca3af" direction="y" />
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-gray-500 py-8">No scans in this period.</p>
+            )}
+            <p className="text-sm text-gray-400 mt-4">{summarizeMetricDelta(metric, metricDelta, rangeId)}</p>
+            <p className="text-xs text-gray-500 mt-1">Shown as a health score: higher is better for every metric.</p>
           </div>
+        </>
+      )}
+
+      <div className="bg-gray-900 rounded-xl p-6 mb-6 shadow-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold text-gray-200">Current Goals</h3>
+          {editingGoalId === null && (
+            <Button size="sm" variant="outline" onClick={() => setEditingGoalId('new')} disabled={scans.length === 0}>
+              Add Goal
+            </Button>
+          )}
         </div>
+        <div className="space-y-4">
+          {editingGoalId === 'new' && (
+            <GoalForm scans={scans} onSubmit={handleGoalSubmit} onCancel={() => setEditingGoalId(null)} />
+          )}
+          {!loading && activeGoals.length === 0 && editingGoalId === null && (
+            <p className="text-sm text-gray-400">
+              {scans.length === 0
+                ? 'Take a scan first, then set a goal against any metric.'
+                : 'No active goals. Add one to track how your routine is working.'}
+            </p>
+          )}
+          {activeGoals.map((goal) => {
+            if (editingGoalId === goal.id) {
+              return (
+                <GoalForm key={goal.id} scans={scans} goal={goal} onSubmit={handleGoalSubmit} onCancel={() => setEditingGoalId(null)} />
+              );
+            }
+            const progress = computeGoalProgress(goal, scans);
+            const style = goalStatusStyles[progress.status];
+            return (
+              <div key={goal.id} className="flex items-center gap-4">
+                <ProgressBar progress={progress.percent} size={60} strokeWidth={8} label="" color={style.ring} />
+                <div className="flex-grow">
+                  <div className="flex items-center gap-2">
+                    <p className="font-semibold text-gray-200">{getGoalTitle(goal)}</p>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${style.badge}`}>{style.label}</span>
+                  </div>
+                  <p className="text-sm text-gray-400">
+                    {progress.currentScore === null
+                      ? `Baseline health ${goal.baselineScore} · no scans since`
+                      : `Health ${goal.baselineScore} → ${progress.currentScore}`}
+                    {' · by '}
+                    {new Date(goal.deadline).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  </p>
+                  <div className="flex gap-3 mt-1 text-xs">
+                    <button type="button" className="text-gray-400 hover:text-white" onClick={() => setEditingGoalId(goal.id)}>
+                      Edit
+                    </button>
+                    <button type="button" className="text-gray-400 hover:text-white" onClick={() => handleArchiveToggle(goal)}>
+                      Archive
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {archivedGoals.length > 0 && (
+          <div className="mt-6">
+            <button type="button" className="text-sm text-gray-400 hover:text-white" onClick={() => setShowArchived((value) => !value)}>
+              {showArchived ? 'Hide' : 'Show'} archived goals ({archivedGoals.length})
+            </button>
+            {showArchived && (
+              <ul className="mt-3 space-y-2">
+                {archivedGoals.map((goal) => (
+                  <li key={goal.id} className="flex items-center justify-between text-sm text-gray-500">
+                    <span>{getGoalTitle(goal)}</span>
+                    <button type="button" className="text-gray-400 hover:text-white" onClick={() => handleArchiveToggle(goal)}>
+                      Restore
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,207 @@
+// pages/ComparePage.tsx
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import Button from '../components/ui/Button';
+import ScanCompareViewer from '../components/ScanCompareViewer';
+import { listScans } from '../services/scanRepository';
+import { StoredScan } from '../types';
+import { ChangeTrend, MetricComparison, ROUTINE_SECTIONS, compareScans } from '../utils/compareUtils';
+import { formatRelativeTime, getScanDisplayName } from '../utils/dateUtils';
+import { toDataUrl } from '../utils/imageUtils';
+import { getIssueLabel } from '../utils/metricUtils';
+
+const trendStyles: Record<ChangeTrend, { row: string; text: string; label: string }> = {
+  improved: { row: 'bg-emerald-900 bg-opacity-20', text: 'text-emerald-400', label: 'Improved' },
+  regressed: { row: 'bg-red-900 bg-opacity-20', text: 'text-red-400', label: 'Worse' },
+  unchanged: { row: '', text: 'text-gray-400', label: 'No change' },
+  unavailable: { row: '', text: 'text-gray-500', label: 'Not available' },
+};
+
+const describeScan = (scan: StoredScan): string =>
+  `${getScanDisplayName(scan.createdAt)} · ${formatRelativeTime(scan.createdAt)} · ${scan.result.overallScore}%`;
+
+const formatChange = (change: number | null): string => {
+  if (change === null) return '—';
+  const rounded = Math.round(change);
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+};
+
+const MetricRow: React.FC<{ comparison: MetricComparison }> = ({ comparison }) => {
+  const style = trendStyles[comparison.trend];
+  const bandChanged = comparison.beforeBand && comparison.afterBand && comparison.beforeBand.id !== comparison.afterBand.id;
+  return (
+    <tr className={`border-t border-gray-800 ${style.row}`}>
+      <td className="py-2 pr-2">
+        <span className="text-gray-200">{comparison.key === 'overall' ? 'Overall' : getIssueLabel(comparison.key)}</span>
+        {bandChanged && (
+          <span className="block text-xs">
+            <span className={comparison.beforeBand.textClass}>{comparison.beforeBand.label}</span>
+            <span className="text-gray-500"> → </span>
+            <span className={comparison.afterBand.textClass}>{comparison.afterBand.label}</span>
+          </span>
+        )}
+      </td>
+      <td className="py-2 text-right text-gray-400">{comparison.before ?? '—'}</td>
+      <td className="py-2 text-right text-gray-400">{comparison.after ?? '—'}</td>
+      <td className={`py-2 pl-2 text-right font-semibold ${style.text}`} title={style.label}>
+        {formatChange(comparison.change)}
+      </td>
+    </tr>
+  );
+};
+
+const ComparePage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [scans, setScans] = useState<StoredScan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listScans()
+      .then((loaded) => {
+        if (!cancelled) setScans(loaded);
+      })
+      .catch((err: any) => {
+        console.error('Failed to load scan history:', err);
+        if (!cancelled) setError(`Could not load your scan history: ${err.message}`);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Defaults to the two most recent scans (scans are listed newest first), e.g. /compare?b=<id> from a result.
+  const secondId = searchParams.get('b') ?? scans[0]?.id ?? '';
+  const firstId = searchParams.get('a') ?? scans.find((scan) => scan.id !== secondId)?.id ?? '';
+  const first = scans.find((scan) => scan.id === firstId);
+  const second = scans.find((scan) => scan.id === secondId);
+
+  const comparison = useMemo(
+    () => (first && second && first.id !== second.id ? compareScans(first, second) : null),
+    [first, second],
+  );
+
+  const selectScan = (param: 'a' | 'b', id: string) => {
+    setSearchParams({ a: firstId, b: secondId, [param]: id }, { replace: true });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col flex-grow items-center justify-center p-4 bg-black">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-emerald-500 border-t-transparent mb-4"></div>
+        <p className="text-gray-300 text-lg">Loading scans...</p>
+      </div>
+    );
+  }
+
+  if (error || scans.length < 2) {
+    return (
+      <div className="flex flex-col flex-grow items-center justify-center p-4 bg-black text-center">
+        <p className="text-gray-300 text-lg">{error ?? 'You need at least two scans to compare.'}</p>
+        <Button onClick={() => navigate('/scan')} className="mt-4">
+          Take a Scan
+        </Button>
+      </div>
+    );
+  }
+
+  const changedRecommendations = comparison?.recommendations.filter((change) => change.added.length > 0 || change.dropped.length > 0) ?? [];
+
+  return (
+    <div className="flex flex-col flex-grow p-4 pt-0 pb-20 bg-black overflow-y-auto">
+      <h2 className="text-2xl font-bold text-white mb-6">Compare Scans</h2>
+
+      <div className="grid grid-cols-1 gap-3 mb-6">
+        {(['a', 'b'] as const).map((param) => (
+          <label key={param} className="flex flex-col text-sm text-gray-400">
+            {param === 'a' ? 'First scan' : 'Second scan'}
+            <select
+              value={param === 'a' ? firstId : secondId}
+              onChange={(event) => selectScan(param, event.target.value)}
+              className="mt-1 bg-gray-800 text-gray-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            >
+              {scans.map((scan) => (
+                <option key={scan.id} value={scan.id}>
+                  {describeScan(scan)}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {!comparison ? (
+        <p className="text-gray-400 text-center">Pick two different scans to compare them.</p>
+      ) : (
+        <div className="space-y-6">
+          {comparison.before.imageBase64 && comparison.after.imageBase64 ? (
+            <ScanCompareViewer
+              beforeSrc={toDataUrl(comparison.before.imageBase64, comparison.before.mimeType)}
+              afterSrc={toDataUrl(comparison.after.imageBase64, comparison.after.mimeType)}
+              beforeLabel={`Before · ${formatRelativeTime(comparison.before.createdAt)}`}
+              afterLabel={`After · ${formatRelativeTime(comparison.after.createdAt)}`}
+            />
+          ) : (
+            <p className="text-sm text-gray-500 text-center">The photo of one of these scans was deleted; its scores can still be compared.</p>
+          )}
+
+          <div className="bg-gray-900 rounded-xl p-4 shadow-md">
+            <h3 className="font-semibold text-gray-200 mb-1">Score Changes</h3>
+            <p className="text-xs text-gray-500 mb-2">Health scores: higher is better for every metric.</p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500">
+                  <th className="text-left font-normal pb-1">Metric</th>
+                  <th className="text-right font-normal pb-1">Before</th>
+                  <th className="text-right font-normal pb-1">After</th>
+                  <th className="text-right font-normal pb-1">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                <MetricRow comparison={comparison.overall} />
+                {comparison.metrics.map((metric) => (
+                  <MetricRow key={metric.key} comparison={metric} />
+                ))}
+              </tbody>
+            </table>
+            <div className="flex justify-center gap-4 mt-3 text-xs">
+              <span className={trendStyles.improved.text}>■ {trendStyles.improved.label}</span>
+              <span className={trendStyles.regressed.text}>■ {trendStyles.regressed.label}</span>
+            </div>
+          </div>
+
+          <div className="bg-gray-900 rounded-xl p-4 shadow-md">
+            <h3 className="font-semibold text-gray-200 mb-2">Recommendation Changes</h3>
+            {changedRecommendations.length === 0 ? (
+              <p className="text-sm text-gray-400">Your recommendations are the same in both scans.</p>
+            ) : (
+              changedRecommendations.map((change) => (
+                <div key={change.section} className="mb-3 last:mb-0">
+                  <h4 className="text-sm font-semibold text-gray-300">
+                    {ROUTINE_SECTIONS.find((section) => section.key === change.section)?.label}
+                  </h4>
+                  <ul className="text-sm space-y-1 mt-1">
+                    {change.added.map((step) => (
+                      <li key={`added-${step}`} className="text-emerald-300">+ {step}</li>
+                    ))}
+                    {change.dropped.map((step) => (
+                      <li key={`dropped-${step}`} className="text-gray-500 line-through">− {step}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparePage;
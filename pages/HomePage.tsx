@@ -1,37 +1,43 @@
 // pages/HomePage.tsx
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import ProgressBar from '../components/ui/ProgressBar';
 import Button from '../components/ui/Button';
+import { listScans } from '../services/scanRepository';
+import { StoredScan } from '../types';
+import { toDataUrl } from '../utils/imageUtils';
+import { formatRelativeTime, getScanDisplayName } from '../utils/dateUtils';
+import { getScoreLabel } from '../utils/scoreUtils';
 
-// Dummy data for recently uploaded items
-const recentlyUploaded = [
-  {
-    id: 1,
-    name: 'Morning Selfie',
-    time: 'Yesterday',
-    image: 'https://picsum.photos/100/100?random=1',
-    score: 85,
-  },
-  {
-    id: 2,
-    name: 'Evening Scan',
-    time: '2 days ago',
-    image: 'https://picsum.photos/100/100?random=2',
-    score: 78,
-  },
-  {
-    id: 3,
-    name: 'Weekly Check',
-    time: 'Last week',
-    image: 'https://picsum.photos/100/100?random=3',
-    score: 82,
-  },
-];
+// Number of scans listed under "Recently Scanned"
+const RECENT_SCAN_LIMIT = 10;
 
 const HomePage: React.FC = () => {
   const navigate = useNavigate();
+  const [scans, setScans] = useState<StoredScan[]>([]);
+  const [loadingScans, setLoadingScans] = useState(true);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listScans(RECENT_SCAN_LIMIT)
+      .then((loaded) => {
+        if (!cancelled) setScans(loaded);
+      })
+      .catch((err: any) => {
+        console.error('Failed to load scan history:', err);
+        if (!cancelled) setHistoryError(`Could not load your scan history: ${err.message}`);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingScans(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const latestScan = scans[0];
 
   const handleScanNowClick = () => {
     navigate('/scan');
@@ -46,33 +52,69 @@ const HomePage: React.FC = () => {
 
       <div className="bg-gray-900 rounded-xl p-6 mb-8 shadow-lg flex flex-col items-center text-center">
         <h2 className="text-xl font-semibold mb-4 text-gray-200">Your Skin Health</h2>
-        <ProgressBar progress={82} size={150} strokeWidth={12} label="" />
-        <p className="mt-4 text-lg text-emerald-400 font-bold">82% Excellent</p>
-        <p className="text-sm text-gray-400 mt-2">Maintain your routine!</p>
+        {latestScan ? (
+          <>
+            <ProgressBar progress={latestScan.result.overallScore} size={150} strokeWidth={12} label="" />
+            <p className="mt-4 text-lg text-emerald-400 font-bold">
+              {latestScan.result.overallScore}% {getScoreLabel(latestScan.result.overallScore)}
+            </p>
+            <p className="text-sm text-gray-400 mt-2">Last scan: {formatRelativeTime(latestScan.createdAt)}</p>
+          </>
+        ) : (
+          <>
+            <ProgressBar progress={0} size={150} strokeWidth={12} label="" />
+            <p className="text-sm text-gray-400 mt-4">
+              {loadingScans ? 'Loading your history...' : 'No scans yet. Take your first scan to see your score.'}
+            </p>
+          </>
+        )}
 
         <Button onClick={handleScanNowClick} className="mt-6 w-full max-w-xs" size="lg">
           Scan Your Skin Now
         </Button>
       </div>
 
-      <h3 className="text-lg font-semibold mb-4 text-gray-200">Recently Scanned</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-200">Recently Scanned</h3>
+        {scans.length >= 2 && (
+          <button type="button" onClick={() => navigate('/compare')} className="text-sm text-emerald-400 hover:text-emerald-300">
+            Compare
+          </button>
+        )}
+      </div>
+      {historyError && (
+        <div role="alert" className="bg-red-900 bg-opacity-30 border border-red-700 text-red-300 px-4 py-3 rounded-lg mb-4 text-center text-sm">
+          {historyError}
+        </div>
+      )}
+      {!loadingScans && !historyError && scans.length === 0 && (
+        <p className="text-gray-400 text-center text-sm">Your scans will appear here.</p>
+      )}
       <div className="space-y-4">
-        {recentlyUploaded.map((item) => (
-          <div
-            key={item.id}
-            className="flex items-center bg-gray-900 rounded-lg p-3 shadow-md"
+        {scans.map((scan) => (
+          <button
+            key={scan.id}
+            type="button"
+            onClick={() => navigate(`/results/${scan.id}`)}
+            className="w-full flex items-center bg-gray-900 rounded-lg p-3 shadow-md text-left hover:bg-gray-800 transition-colors duration-200"
           >
-            <img
-              src={item.image}
-              alt={item.name}
-              className="w-16 h-16 rounded-md object-cover mr-4"
-            />
+            {scan.imageBase64 ? (
+              <img
+                src={toDataUrl(scan.imageBase64, scan.mimeType)}
+                alt={getScanDisplayName(scan.createdAt)}
+                className="w-16 h-16 rounded-md object-cover mr-4"
+              />
+            ) : (
+              <div className="w-16 h-16 rounded-md bg-gray-800 mr-4 flex items-center justify-center text-xs text-gray-500 text-center">
+                Photo deleted
+              </div>
+            )}
             <div className="flex-grow">
-              <p className="font-semibold text-gray-200">{item.name}</p>
-              <p className="text-sm text-gray-400">{item.time}</p>
+              <p className="font-semibold text-gray-200">{getScanDisplayName(scan.createdAt)}</p>
+              <p className="text-sm text-gray-400">{formatRelativeTime(scan.createdAt)}</p>
             </div>
             <div className="flex items-center gap-2">
-              <span className="text-emerald-400 font-bold">{item.score}%</span>
+              <span className="text-emerald-400 font-bold">{scan.result.overallScore}%</span>
               <svg
                 xmlns="http://www.w3.org/2000/svg"
                 fill="none"
@@ -88,7 +130,7 @@ const HomePage: React.FC = () => {
                 />
               </svg>
             </div>
-          </div>
+          </button>
         ))}
       </div>
     </div>
@@ -1,31 +1,77 @@
 // pages/ResultsPage.tsx
 
-import React, { useState } from 'react';
-import { useLocation, useNavigate } from 'react-router-dom';
-import { SkinAnalysisResult } from '../types';
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { IssueKey, ScanView, ScoreInterval, SkinAnalysisResult, StoredScan, StoredScanView } from '../types';
 import ProgressBar from '../components/ui/ProgressBar';
 import Button from '../components/ui/Button';
+import ConfirmPanel from '../components/ConfirmPanel';
+import FaceMap from '../components/FaceMap';
+import { removeScan, removeScanPhoto } from '../services/dataRetention';
+import { getScan } from '../services/scanRepository';
+import { formatRelativeTime } from '../utils/dateUtils';
+import { toDataUrl } from '../utils/imageUtils';
+import { getRegionLabel, resolveFaceRegions } from '../utils/faceRegions';
+import { buildRegionFindings } from '../utils/regionFindings';
+import { ISSUE_KEYS, getIssueLabel } from '../utils/metricUtils';
+import { formatHealthyRange, getSeverityBand, toHealthInterval, toHealthScore } from '../utils/metricMetadata';
+import { getViewLabel } from '../utils/scanViews';
 
-// Helper component for displaying an individual issue score
+// Error bar on a 0-100 health track: the shaded span is the confidence interval, the tick is the combined score.
+const ConfidenceBar: React.FC<{ value: number; low: number; high: number; color: string }> = ({ value, low, high, color }) => (
+  <div className="relative w-24 h-1.5 bg-gray-700 rounded-full mt-1" title={`95% confidence: ${low}–${high}`}>
+    <div className="absolute h-full rounded-full opacity-50" style={{ left: `${low}%`, width: `${Math.max(high - low, 1)}%`, backgroundColor: color }} />
+    <div className="absolute -top-0.5 w-0.5 h-2.5 bg-white" style={{ left: `${value}%` }} />
+  </div>
+);
+
+// Helper component for displaying an individual issue on the health axis
 interface IssueCardProps {
-  name: string;
-  score: number;
-  severity: string;
+  metric: IssueKey;
+  score: number; // Raw model score
+  description?: string;
   areas?: string[];
+  observations?: SkinAnalysisResult['issues']['acne']['observations'];
+  interval?: ScoreInterval; // Present for high-confidence results
 }
 
-const IssueCard: React.FC<IssueCardProps> = ({ name, score, severity, areas }) => (
-  <div className="flex items-center justify-between p-3 bg-gray-800 rounded-lg shadow-sm">
-    <div className="flex flex-col">
-      <span className="text-gray-200 font-semibold">{name}</span>
-      <span className="text-sm text-gray-400">Severity: {severity}</span>
-      {areas && areas.length > 0 && (
-        <span className="text-xs text-gray-500">Areas: {areas.join(', ')}</span>
-      )}
+const IssueCard: React.FC<IssueCardProps> = ({ metric, score, description, areas, observations, interval }) => {
+  const health = toHealthScore(metric, score);
+  const band = getSeverityBand(health);
+  const healthRange = interval ? toHealthInterval(metric, interval) : null;
+  return (
+    <div className="flex items-center justify-between p-3 bg-gray-800 rounded-lg shadow-sm">
+      <div className="flex flex-col">
+        <span className="text-gray-200 font-semibold">{getIssueLabel(metric)}</span>
+        <span className={`text-sm ${band.textClass}`}>{band.label}</span>
+        {description && <span className="text-xs text-gray-400">{description}</span>}
+        {observations && observations.length > 0 ? (
+          <span className="text-xs text-gray-500">
+            Seen in: {observations.map((observation) => `${getRegionLabel(observation.area)} (${getViewLabel(observation.view)})`).join(', ')}
+          </span>
+        ) : resolveFaceRegions(areas).length > 0 && (
+          <span className="text-xs text-gray-500">Areas: {resolveFaceRegions(areas).map(getRegionLabel).join(', ')}</span>
+        )}
+      </div>
+      <div className="flex flex-col items-end">
+        <span className={`font-bold ${band.textClass}`}>
+          {health}
+          {healthRange && healthRange[0] !== healthRange[1] && (
+            <span className="text-xs font-normal text-gray-400"> ({healthRange[0]}–{healthRange[1]})</span>
+          )}
+        </span>
+        {healthRange && <ConfidenceBar value={health} low={healthRange[0]} high={healthRange[1]} color={band.color} />}
+        <span className="text-xs text-gray-500" title="Raw score from the analysis and the range considered healthy">
+          Raw {score} · healthy {formatHealthyRange(metric)}
+        </span>
+      </div>
     </div>
-    <span className="text-emerald-400 font-bold">{score}%</span>
-  </div>
-);
+  );
+};
+
+// Notes how many runs voted for a value, when they did not all agree.
+const describeAgreement = (agreement: number, samples: number): string =>
+  agreement < 1 ? ` (${Math.round(agreement * samples)} of ${samples} runs)` : '';
 
 // Helper function to get a description for skin type
 const getSkinTypeDescription = (type: string): string => {
@@ -67,9 +113,96 @@ const getFitzpatrickDescription = (scale: string): string => {
 const ResultsPage: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { analysisResult, image } = location.state as { analysisResult: SkinAnalysisResult; image: string } || {};
+  const { scanId } = useParams<{ scanId: string }>();
+  const navigationState = (location.state || {}) as { analysisResult?: SkinAnalysisResult; image?: string };
 
+  const [analysisResult, setAnalysisResult] = useState<SkinAnalysisResult | undefined>(navigationState.analysisResult);
+  const [image, setImage] = useState<string | undefined>(navigationState.image);
+  const [capturedAt, setCapturedAt] = useState<number | undefined>();
+  const [sideViews, setSideViews] = useState<StoredScanView[]>([]);
+  const [loadingScan, setLoadingScan] = useState(Boolean(scanId));
   const [activeTab, setActiveTab] = useState<'issues' | 'recommendations' | 'explanation'>('issues');
+  const [pendingDeletion, setPendingDeletion] = useState<'scan' | ScanView | null>(null); // Awaiting confirmation
+  const [deleting, setDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const showPhotos = (scan: StoredScan | undefined) => {
+    setImage(scan?.imageBase64 ? toDataUrl(scan.imageBase64, scan.mimeType) : undefined);
+    setSideViews(scan?.sideViews?.filter((sideView) => sideView.imageBase64) ?? []);
+  };
+
+  // Reload the scan from history when opened via /results/:scanId (e.g. after a refresh).
+  useEffect(() => {
+    if (!scanId) {
+      return;
+    }
+    let cancelled = false;
+    setLoadingScan(true);
+    getScan(scanId)
+      .then((scan) => {
+        if (cancelled) return;
+        setAnalysisResult(scan?.result);
+        setCapturedAt(scan?.capturedAt);
+        showPhotos(scan);
+      })
+      .catch((err) => {
+        console.error('Failed to load scan:', err);
+        if (!cancelled) setAnalysisResult(undefined);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingScan(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [scanId]);
+
+  const handleConfirmDeletion = async () => {
+    if (!scanId || !pendingDeletion) {
+      return;
+    }
+    setDeleting(true);
+    setDeleteError(null);
+    try {
+      if (pendingDeletion === 'scan') {
+        await removeScan(scanId);
+        navigate('/');
+        return;
+      }
+      showPhotos(await removeScanPhoto(scanId, pendingDeletion));
+      setPendingDeletion(null);
+    } catch (err: any) {
+      console.error('Failed to delete from history:', err);
+      setDeleteError(`Could not delete: ${err.message}`);
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const deletionConfirm = pendingDeletion && (
+    <ConfirmPanel
+      confirmLabel={pendingDeletion === 'scan' ? 'Delete Scan' : 'Delete Photo'}
+      onConfirm={handleConfirmDeletion}
+      onCancel={() => setPendingDeletion(null)}
+      busy={deleting}
+    >
+      <p>
+        {pendingDeletion === 'scan'
+          ? 'Delete this scan, its photos and its results? Goals based on it keep their baseline.'
+          : `Delete the ${getViewLabel(pendingDeletion).toLowerCase()} photo? The analysis results are kept.`}
+      </p>
+      {deleteError && <p className="mt-1 text-red-300">{deleteError}</p>}
+    </ConfirmPanel>
+  );
+
+  if (loadingScan) {
+    return (
+      <div className="flex flex-col items-center justify-center flex-grow p-4 text-center bg-black">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-emerald-500 border-t-transparent mb-4"></div>
+        <p className="text-gray-300 text-lg">Loading scan...</p>
+      </div>
+    );
+  }
 
   if (!analysisResult) {
     return (
@@ -82,34 +215,115 @@ const ResultsPage: React.FC = () => {
     );
   }
 
-  const issues = Object.entries(analysisResult.issues).filter(
-    ([key, value]) => value && typeof value.score === 'number'
-  ) as [string, { score: number; severity: string; areas?: string[]; description?: string }][];
+  // Registry order; metrics the scan predates, or that were disabled when it was taken, are simply absent.
+  const issues = ISSUE_KEYS.filter((key) => typeof analysisResult.issues[key]?.score === 'number').map(
+    (key) => [key, analysisResult.issues[key] as { score: number; areas?: string[]; description?: string; observations?: IssueCardProps['observations'] }] as const,
+  );
+
+  const uncertainty = analysisResult.uncertainty;
+  // The overall score is already on the health axis, so its color and label come from the same severity band.
+  const overallBand = getSeverityBand(analysisResult.overallScore);
+  const missingMetrics = analysisResult.validationReport?.missingMetrics ?? [];
+  const repairedCount = analysisResult.validationReport?.violations.filter((violation) => violation.level === 'repaired').length ?? 0;
 
   return (
     <div className="flex flex-col flex-grow p-4 pt-0 pb-20 bg-black overflow-y-auto">
-      <h2 className="text-2xl font-bold text-white mb-6">Your Skin Analysis</h2>
+      <h2 className={`text-2xl font-bold text-white ${capturedAt ? 'mb-1' : 'mb-6'}`}>Your Skin Analysis</h2>
+      {capturedAt && <p className="text-sm text-gray-400 mb-6">Photo taken: {formatRelativeTime(capturedAt)}</p>}
+
+      {analysisResult.cachedAt && (
+        <div role="status" className="bg-gray-900 border border-gray-700 text-gray-300 px-4 py-3 rounded-lg mb-6 text-sm">
+          Cached result: these photos were already analyzed {formatRelativeTime(analysisResult.cachedAt)}, so no new
+          request was made. To analyze them again, retake the scan with “Re-analyze” checked.
+        </div>
+      )}
+
+      {(missingMetrics.length > 0 || repairedCount > 0) && (
+        <div role="status" className="bg-amber-900 bg-opacity-30 border border-amber-700 text-amber-200 px-4 py-3 rounded-lg mb-6 text-sm">
+          {missingMetrics.length > 0 && (
+            <p>Partial result: {missingMetrics.map(getIssueLabel).join(', ')} could not be measured in this scan.</p>
+          )}
+          {repairedCount > 0 && (
+            <p className={missingMetrics.length > 0 ? 'mt-1 text-amber-300' : ''}>
+              {repairedCount} value{repairedCount === 1 ? ' was' : 's were'} out of range or malformed and have been adjusted.
+            </p>
+          )}
+        </div>
+      )}
 
       {image && (
-        <div className="w-full h-48 rounded-xl overflow-hidden mb-6 shadow-lg bg-gray-900 flex items-center justify-center">
+        <div className="relative w-full h-48 rounded-xl overflow-hidden mb-6 shadow-lg bg-gray-900 flex items-center justify-center">
           <img src={image} alt="Scanned Face" className="w-full h-full object-cover" />
+          {scanId && (
+            <button
+              type="button"
+              onClick={() => setPendingDeletion('front')}
+              className="absolute top-2 right-2 bg-black bg-opacity-60 text-xs text-gray-200 rounded-md px-2 py-1 hover:bg-opacity-80"
+            >
+              Delete Photo
+            </button>
+          )}
+        </div>
+      )}
+
+      {sideViews.length > 0 && (
+        <div className="flex gap-3 -mt-3 mb-6">
+          {sideViews.map((sideView) => (
+            <figure key={sideView.view} className="flex-1 bg-gray-900 rounded-lg overflow-hidden">
+              <img
+                src={toDataUrl(sideView.imageBase64, sideView.mimeType)}
+                alt={getViewLabel(sideView.view)}
+                className="w-full h-24 object-cover"
+              />
+              <figcaption className="flex items-center justify-center gap-2 text-xs text-gray-400 py-1">
+                {getViewLabel(sideView.view)}
+                {scanId && (
+                  <button
+                    type="button"
+                    onClick={() => setPendingDeletion(sideView.view)}
+                    aria-label={`Delete ${getViewLabel(sideView.view).toLowerCase()} photo`}
+                    className="text-gray-500 hover:text-red-400"
+                  >
+                    Delete
+                  </button>
+                )}
+              </figcaption>
+            </figure>
+          ))}
         </div>
       )}
 
+      {pendingDeletion && pendingDeletion !== 'scan' && <div className="mb-6">{deletionConfirm}</div>}
+
       <div className="bg-gray-900 rounded-xl p-6 mb-8 shadow-lg flex flex-col items-center text-center">
         <h3 className="text-xl font-semibold mb-4 text-gray-200">Overall Skin Health</h3>
         <ProgressBar progress={analysisResult.overallScore} size={150} strokeWidth={12} label="" />
-        <p className="mt-4 text-lg text-emerald-400 font-bold">
-          {analysisResult.overallScore}% Excellent
+        <p className={`mt-4 text-lg font-bold ${overallBand.textClass}`}>
+          {analysisResult.overallScore}% {overallBand.label}
         </p>
+        {uncertainty && (
+          <div className="flex flex-col items-center mt-1">
+            <ConfidenceBar
+              value={analysisResult.overallScore}
+              low={uncertainty.overallScore.low}
+              high={uncertainty.overallScore.high}
+              color={overallBand.color}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Combined from {uncertainty.samples} runs · 95% range {uncertainty.overallScore.low}–{uncertainty.overallScore.high}
+            </p>
+          </div>
+        )}
         <p className="text-sm text-gray-400 mt-2">
           Skin Type: {analysisResult.skinType.charAt(0).toUpperCase() + analysisResult.skinType.slice(1)}
+          {uncertainty && describeAgreement(uncertainty.agreement.skinType, uncertainty.samples)}
         </p>
         <p className="text-xs text-gray-500 mt-1 px-4">
           {getSkinTypeDescription(analysisResult.skinType)}
         </p>
         <p className="text-sm text-gray-400 mt-2">
           Fitzpatrick Scale: {analysisResult.fitzpatrickScale}
+          {uncertainty && describeAgreement(uncertainty.agreement.fitzpatrickScale, uncertainty.samples)}
         </p>
         <p className="text-xs text-gray-500 mt-1 px-4">
           {getFitzpatrickDescription(analysisResult.fitzpatrickScale)}
@@ -145,20 +359,32 @@ const ResultsPage: React.FC = () => {
 
       {activeTab === 'issues' && (
         <div className="space-y-4">
+          <FaceMap findings={buildRegionFindings(analysisResult.issues)} />
           <h3 className="text-lg font-semibold text-gray-200">Identified Issues</h3>
           {issues.length > 0 ? (
             issues.map(([key, issue]) => (
               <IssueCard
                 key={key}
-                name={key.replace(/([A-Z])/g, ' $1').replace(/^./, (str) => str.toUpperCase())}
+                metric={key}
                 score={issue.score}
-                severity={issue.severity}
+                description={issue.description}
                 areas={issue.areas}
+                observations={issue.observations}
+                interval={uncertainty?.issues[key]}
               />
             ))
           ) : (
             <p className="text-gray-400 text-center">No specific issues identified. Keep up the great work!</p>
           )}
+          {missingMetrics.map((key) => (
+            <div key={key} className="flex items-center justify-between p-3 bg-gray-800 rounded-lg shadow-sm border border-dashed border-amber-700">
+              <div className="flex flex-col">
+                <span className="text-gray-200 font-semibold">{getIssueLabel(key)}</span>
+                <span className="text-sm text-amber-300">Not available in this scan</span>
+              </div>
+              <span className="text-gray-500 font-bold">—</span>
+            </div>
+          ))}
         </div>
       )}
 
@@ -203,13 +429,33 @@ const ResultsPage: React.FC = () => {
       {activeTab === 'explanation' && (
         <div className="bg-gray-800 rounded-xl p-4 shadow-md">
           <h3 className="text-lg font-semibold text-gray-200 mb-2">Analysis Summary</h3>
-          <p className="text-gray-300 leading-relaxed text-sm">
+          <p className="text-gray-300 leading-relaxed text-sm" lang={analysisResult.prompt?.language}>
             {analysisResult.explainability}
           </p>
+          <p className="text-xs text-gray-500 mt-3">
+            {analysisResult.prompt
+              ? `Prompt: ${analysisResult.prompt.template} v${analysisResult.prompt.version} · language: ${analysisResult.prompt.language}`
+              : 'Prompt version not recorded for this scan.'}
+          </p>
         </div>
       )}
 
-      <Button onClick={() => navigate('/')} className="mt-8 w-full max-w-xs mx-auto" variant="secondary">
+      {scanId && (
+        <Button onClick={() => navigate(`/compare?b=${scanId}`)} className="mt-8 w-full max-w-xs mx-auto" variant="outline">
+          Compare with Another Scan
+        </Button>
+      )}
+      {scanId && (
+        <Button
+          onClick={() => setPendingDeletion('scan')}
+          className="mt-3 w-full max-w-xs mx-auto text-red-400 border-red-400 hover:bg-red-900"
+          variant="outline"
+        >
+          Delete Scan
+        </Button>
+      )}
+      {pendingDeletion === 'scan' && <div className="mt-3 w-full max-w-xs mx-auto">{deletionConfirm}</div>}
+      <Button onClick={() => navigate('/')} className={`${scanId ? 'mt-3' : 'mt-8'} w-full max-w-xs mx-auto`} variant="secondary">
         Back to Home
       </Button>
     </div>
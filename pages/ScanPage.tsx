@@ -3,28 +3,74 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Button from '../components/ui/Button';
-import { analyzeSkinImage, checkAndPromptApiKey, handleApiKeyError, API_KEY_BILLING_LINK } from '../services/geminiService';
-import { fileToBase64 } from '../utils/imageUtils';
-import { SkinAnalysisResult } from '../types';
+import QualityReportPanel from '../components/QualityReportPanel';
+import FaceAlignmentOverlay from '../components/FaceAlignmentOverlay';
+import ErrorNotice from '../components/ErrorNotice';
+import { API_KEY_BILLING_LINK } from '../services/geminiService';
+import { getAnalysisProvider } from '../services/analysisProvider';
+import { AppError, AuthError, CancelledError, ImageProcessingError, classifyCameraError, toAppError } from '../services/appErrors';
+import { saveScan } from '../services/scanRepository';
+import { BudgetCheck, checkScanBudget } from '../services/usageRepository';
+import { normalizeImage, toDataUrl } from '../utils/imageUtils';
+import { assessImageQuality } from '../utils/imageQuality';
+import { detectFaces, prepareFaceDetection } from '../utils/faceDetection';
+import { AlignmentState, evaluateAlignment, locateFaceLandmarks } from '../utils/faceAlignment';
+import { SCAN_VIEWS, getViewInstruction, getViewLabel } from '../utils/scanViews';
+import { formatCost } from '../utils/usageUtils';
+import { AnalysisImage, FaceLandmarks, ImageQualityReport, NormalizedPoint, ScanView, SkinAnalysisResult } from '../types';
+
+// How often the live camera frame is checked against the face guide.
+const ALIGNMENT_SAMPLE_MS = 250;
+// How long the face must stay aligned and still before the photo is taken automatically.
+const AUTO_CAPTURE_HOLD_MS = 1500;
+
+// A photo accepted for one view of a multi-angle session.
+interface SessionPhoto {
+  view: ScanView;
+  image: string; // Data URL
+  mimeType: string;
+  capturedAt: number | null;
+  landmarks: FaceLandmarks | null;
+  quality: ImageQualityReport | null;
+}
 
 const ScanPage: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null); // Corrected type to HTMLCanvasElement
   const fileInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
+  const [provider] = useState(getAnalysisProvider); // Resolved once per visit from settings/env
 
   const [loading, setLoading] = useState(false); // For image analysis API call
   const [isInitializing, setIsInitializing] = useState(true); // For initial page setup (API key, camera)
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AppError | string | null>(null); // Plain strings for validation messages
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null); // base64 image data
   const [imageMimeType, setImageMimeType] = useState<string | null>(null); // mime type of the captured image
+  const [capturedAt, setCapturedAt] = useState<number | null>(null); // when the photo was taken, if known
+  const [landmarks, setLandmarks] = useState<FaceLandmarks | null>(null); // face position in the captured image
+  const [alignment, setAlignment] = useState<AlignmentState | null>(null);
+  const [holdProgress, setHoldProgress] = useState(0);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [faceDetectionReady, setFaceDetectionReady] = useState(false); // The face guide and auto-capture need it
+  const [forceRefresh, setForceRefresh] = useState(false); // Ignore a cached result for these photos
+  const [budgetWarning, setBudgetWarning] = useState<BudgetCheck | null>(null); // Set when a scan would exceed the budget
+  const [sessionMode, setSessionMode] = useState(false); // Capture front, left and right views for one analysis
+  const [sessionPhotos, setSessionPhotos] = useState<SessionPhoto[]>([]); // Views accepted so far in this session
+  const [qualityReport, setQualityReport] = useState<ImageQualityReport | null>(null);
+  const [checkingQuality, setCheckingQuality] = useState(false);
+  const analysisControllerRef = useRef<AbortController | null>(null); // Set while an analysis request is running
+  const [pendingRetry, setPendingRetry] = useState<{ attempt: number; maxAttempts: number; retryAt: number } | null>(null);
+  const [now, setNow] = useState(Date.now());
 
   // New states for explicit control over UI feedback
   const [apiKeyRequired, setApiKeyRequired] = useState(false);
   const [cameraEnabled, setCameraEnabled] = useState(false);
   const [cameraUnavailable, setCameraUnavailable] = useState(false);
 
+  const currentView: ScanView = sessionMode ? SCAN_VIEWS[sessionPhotos.length] : 'front';
+  const isLastView = !sessionMode || sessionPhotos.length === SCAN_VIEWS.length - 1;
+
   // Initialize camera and check API key
   useEffect(() => {
     const init = async () => {
@@ -35,19 +81,19 @@ const ScanPage: React.FC = () => {
       setCameraUnavailable(false);
 
       try {
-        // 1. Check and prompt for API key first
-        await checkAndPromptApiKey();
+        // 1. Let the provider check and prompt for an API key first (no-op for offline providers)
+        await provider.prepare();
         setApiKeyRequired(false); // Key is available
       } catch (keyError: any) {
-        if (keyError.message === 'API_KEY_REQUIRED_NO_AISTUDIO' || keyError.message === 'API_KEY_SELECTION_FAILED') {
+        if (keyError instanceof AuthError) {
           console.log('API Key selection required or failed. Not proceeding with camera setup.');
           setApiKeyRequired(true);
           setIsInitializing(false);
-          setError("An API key is required to use this application. Please select one to proceed.");
+          setError(keyError);
           return;
         }
         console.error('Unexpected error during API key check:', keyError);
-        setError(`Failed to check API key: ${keyError.message}. Please try again.`);
+        setError(toAppError(keyError));
         setIsInitializing(false);
         return;
       }
@@ -70,13 +116,7 @@ const ScanPage: React.FC = () => {
       } catch (err: any) {
         console.error('Camera access error:', err);
         setCameraUnavailable(true);
-        if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-          setError('Camera access denied. Please grant permission in your browser settings or upload an image.');
-        } else if (err.name === 'NotFoundError') {
-          setError('No camera found on your device. Please upload an image manually.');
-        } else {
-          setError(`Failed to access camera: ${err.message}. Please upload an image manually.`);
-        }
+        setError(classifyCameraError(err));
       } finally {
         setIsInitializing(false);
       }
@@ -92,7 +132,49 @@ const ScanPage: React.FC = () => {
     };
   }, [stream]); // Re-run effect only if stream changes
 
+  // Run the local quality gate whenever a new photo is captured or uploaded.
+  useEffect(() => {
+    setQualityReport(null);
+    if (!capturedImage) {
+      return;
+    }
+    let cancelled = false;
+    setCheckingQuality(true);
+    assessImageQuality(capturedImage, { checkFace: currentView === 'front' })
+      .then((report) => {
+        if (!cancelled) setQualityReport(report);
+      })
+      .catch((qualityError) => {
+        // The gate is advisory; if it cannot run, analysis is still allowed.
+        console.warn('Image quality check failed:', qualityError);
+      })
+      .finally(() => {
+        if (!cancelled) setCheckingQuality(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [capturedImage, currentView]);
+
+  // Cancel any in-flight analysis when leaving the page.
+  useEffect(() => () => analysisControllerRef.current?.abort(), []);
+
+  // Tick once per second while waiting to retry so the countdown stays current.
+  useEffect(() => {
+    if (!pendingRetry) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [pendingRetry]);
+
   const handleSelectApiKey = async () => {
+    // Outside AI Studio there is no key picker; keys are entered under Settings.
+    if (typeof window.aistudio?.openSelectKey !== 'function') {
+      navigate('/settings');
+      return;
+    }
     setError(null);
     setLoading(true); // Indicate that we are trying to select a key
     try {
@@ -112,13 +194,33 @@ const ScanPage: React.FC = () => {
       }
     } catch (keyError: any) {
       console.error('Error selecting API key:', keyError);
-      setError(`Failed to select API key: ${keyError.message}. Please try again.`);
+      setError(new AuthError('api_key_selection_failed', `Failed to select API key: ${keyError.message}`, { cause: keyError }));
       setApiKeyRequired(true); // Keep the prompt visible
     } finally {
       setLoading(false);
     }
   };
 
+  const stopCamera = useCallback(() => {
+    if (stream) {
+      stream.getTracks().forEach(track => track.stop());
+      setStream(null);
+      setCameraEnabled(false);
+    }
+  }, [stream]);
+
+  /**
+   * Runs a photo through the normalization pipeline and makes it the current image.
+   */
+  const applyNormalizedImage = useCallback(async (source: Blob) => {
+    const normalized = await normalizeImage(source);
+    setCapturedImage(toDataUrl(normalized.base64, normalized.mimeType)); // Include data URL prefix for img src
+    setImageMimeType(normalized.mimeType);
+    setCapturedAt(normalized.capturedAt ?? null);
+    // Landmarks are optional metadata; a detection failure should not block the photo.
+    setLandmarks(await locateFaceLandmarks(toDataUrl(normalized.base64, normalized.mimeType)).catch(() => null));
+  }, []);
+
   const captureImage = useCallback(() => {
     setError(null);
     if (videoRef.current && canvasRef.current) {
@@ -132,19 +234,92 @@ const ScanPage: React.FC = () => {
 
       if (context) {
         context.drawImage(video, 0, 0, canvas.width, canvas.height);
-        const imageData = canvas.toDataURL('image/jpeg', 0.9); // Use JPEG for smaller size
-        setCapturedImage(imageData);
-        setImageMimeType('image/jpeg');
-
-        // Stop camera stream after capturing
-        if (stream) {
-          stream.getTracks().forEach(track => track.stop());
-          setStream(null);
-          setCameraEnabled(false);
-        }
+        setLoading(true);
+        // Lossless intermediate; normalizeImage does the final resize and encode.
+        canvas.toBlob(async (blob) => {
+          try {
+            if (!blob) {
+              throw new Error('Could not read the camera frame.');
+            }
+            await applyNormalizedImage(blob);
+            setCapturedAt(Date.now());
+            stopCamera(); // Stop camera stream after capturing
+          } catch (captureError: any) {
+            console.error('Error capturing photo:', captureError);
+            setError(new ImageProcessingError(`Failed to capture photo: ${captureError.message}`, { cause: captureError }));
+          } finally {
+            setLoading(false);
+          }
+        }, 'image/png');
       }
     }
-  }, [stream]);
+  }, [stopCamera, applyNormalizedImage]);
+
+  // Keep the latest captureImage available to the alignment loop without restarting it.
+  const captureImageRef = useRef(captureImage);
+  captureImageRef.current = captureImage;
+
+  // The face landmark model is downloaded once the camera is on; until then and where it cannot load, photos are
+  // taken manually.
+  useEffect(() => {
+    if (!cameraEnabled) {
+      return;
+    }
+    let cancelled = false;
+    prepareFaceDetection().then((ready) => {
+      if (!cancelled) {
+        setFaceDetectionReady(ready);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraEnabled]);
+
+  // Check the live camera frame against the face guide and take the photo once the face is aligned and still.
+  useEffect(() => {
+    // The guide is built for a frontal face, so profile views are captured manually.
+    if (!cameraEnabled || capturedImage || currentView !== 'front' || !faceDetectionReady) {
+      setAlignment(null);
+      setHoldProgress(0);
+      return;
+    }
+    let cancelled = false;
+    let busy = false;
+    let previousCenter: NormalizedPoint | null = null;
+    let holdStart: number | null = null;
+
+    const interval = setInterval(async () => {
+      const video = videoRef.current;
+      if (busy || !video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+        return;
+      }
+      busy = true;
+      try {
+        const faces = await detectFaces(video);
+        if (cancelled || !faces) {
+          return;
+        }
+        const state = evaluateAlignment(faces, video.videoWidth, video.videoHeight, previousCenter);
+        previousCenter = state.center;
+        holdStart = state.aligned ? holdStart ?? Date.now() : null;
+        const progress = holdStart === null ? 0 : Math.min(1, (Date.now() - holdStart) / AUTO_CAPTURE_HOLD_MS);
+        setAlignment(state);
+        setHoldProgress(autoCapture ? progress : 0);
+        if (autoCapture && progress >= 1) {
+          cancelled = true;
+          captureImageRef.current();
+        }
+      } finally {
+        busy = false;
+      }
+    }, ALIGNMENT_SAMPLE_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [cameraEnabled, capturedImage, currentView, autoCapture, faceDetectionReady]);
 
   const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     setError(null);
@@ -152,62 +327,117 @@ const ScanPage: React.FC = () => {
     if (file) {
       setLoading(true);
       try {
-        const base64 = await fileToBase64(file);
-        setCapturedImage(`data:${file.type};base64,${base64}`); // Include data URL prefix for img src
-        setImageMimeType(file.type);
-
-        // Stop camera stream if it was active
-        if (stream) {
-          stream.getTracks().forEach(track => track.stop());
-          setStream(null);
-          setCameraEnabled(false);
-        }
+        await applyNormalizedImage(file);
+        stopCamera(); // Stop camera stream if it was active
       } catch (fileError: any) {
-        console.error('Error converting file to base64:', fileError);
-        setError(`Failed to process image: ${fileError.message}`);
+        console.error('Error processing image file:', fileError);
+        setError(new ImageProcessingError(`Failed to process image: ${fileError.message}`, { cause: fileError }));
       } finally {
         setLoading(false);
       }
     }
-  }, [stream]);
+  }, [stopCamera, applyNormalizedImage]);
 
-  const handleAnalyze = async () => {
+  const getCurrentPhoto = (): SessionPhoto => ({
+    view: currentView,
+    image: capturedImage,
+    mimeType: imageMimeType,
+    capturedAt,
+    landmarks,
+    quality: qualityReport,
+  });
+
+  const handleAnalyze = async (confirmedOverBudget = false) => {
     if (!capturedImage || !imageMimeType) {
       setError('No image to analyze. Please take a photo or upload one.');
       return;
     }
+    if (qualityReport?.verdict === 'block') {
+      setError('This photo did not pass the quality check. Please retake it following the tips shown.');
+      return;
+    }
+    if (!confirmedOverBudget) {
+      const budgetCheck = await checkScanBudget(provider.getModel(), provider.samples ?? 1).catch((budgetError) => {
+        console.warn('Could not check the usage budget:', budgetError);
+        return null;
+      });
+      if (budgetCheck?.exceeds) {
+        setBudgetWarning(budgetCheck);
+        return;
+      }
+    }
+    setBudgetWarning(null);
     setError(null);
     setLoading(true);
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
     try {
-      const base64Data = capturedImage.split(',')[1]; // Remove prefix for API
-      const result: SkinAnalysisResult = await analyzeSkinImage(base64Data, imageMimeType);
-      navigate('/results', { state: { analysisResult: result, image: capturedImage } });
+      const photos = sessionMode ? [...sessionPhotos, getCurrentPhoto()] : [getCurrentPhoto()];
+      const images: AnalysisImage[] = photos.map((photo) => ({
+        view: photo.view,
+        base64: photo.image.split(',')[1], // Remove prefix for API
+        mimeType: photo.mimeType,
+      }));
+      const result: SkinAnalysisResult = await provider.analyze(images, {
+        signal: controller.signal,
+        forceRefresh,
+        onRetry: ({ attempt, maxAttempts, delayMs }) => setPendingRetry({ attempt, maxAttempts, retryAt: Date.now() + delayMs }),
+      });
+      // The session is stored as one scan: the front photo is its main image, the profiles are side views.
+      const [front, ...profiles] = photos;
+      try {
+        const scan = await saveScan({
+          result,
+          imageBase64: images[0].base64,
+          mimeType: front.mimeType,
+          quality: front.quality ?? undefined,
+          capturedAt: front.capturedAt ?? undefined,
+          landmarks: front.landmarks ?? undefined,
+          sideViews: profiles.length > 0
+            ? profiles.map((photo, index) => ({
+              view: photo.view,
+              mimeType: photo.mimeType,
+              imageBase64: images[index + 1].base64,
+              capturedAt: photo.capturedAt ?? undefined,
+              quality: photo.quality ?? undefined,
+              landmarks: photo.landmarks ?? undefined,
+            }))
+            : undefined,
+        });
+        navigate(`/results/${scan.id}`);
+      } catch (storageError) {
+        // Still show the result even if it could not be added to history.
+        console.error('Failed to save scan to history:', storageError);
+        navigate('/results', { state: { analysisResult: result, image: front.image } });
+      }
     } catch (err: any) {
+      // Provider errors are already typed; API key rejections were handled (and re-prompted) by the provider.
+      const analysisError = toAppError(err);
+      if (analysisError instanceof CancelledError) {
+        return;
+      }
       console.error('Analysis failed:', err);
-      // handleApiKeyError attempts to re-prompt for key if specific API error occurs
-      try {
-        await handleApiKeyError(err);
-      } catch (handledError: any) {
-        // If handleApiKeyError re-throws (e.g., key invalid or user cancelled), update UI
-        if (handledError.message === 'API_KEY_INVALID_OR_UNSELECTED' || handledError.message === 'API_KEY_RESELECTION_FAILED') {
-          setApiKeyRequired(true);
-          setError("The API key is invalid or selection was cancelled. Please select a valid API key.");
-        } else if (handledError.message === 'API_KEY_REQUIRED_NO_AISTUDIO') {
-          setApiKeyRequired(true);
-          setError("An API key is required and cannot be automatically configured. Please select one.");
-        } else {
-          setError(`Analysis failed: ${handledError.message || 'Unknown error'}.`);
-        }
+      if (analysisError instanceof AuthError) {
+        setApiKeyRequired(true);
       }
+      setError(analysisError);
     } finally {
+      analysisControllerRef.current = null;
+      setPendingRetry(null);
       setLoading(false);
     }
   };
 
+  const cancelAnalysis = () => {
+    analysisControllerRef.current?.abort();
+  };
+
   const retakePhoto = useCallback(async () => {
     setError(null);
     setCapturedImage(null);
     setImageMimeType(null);
+    setCapturedAt(null);
+    setLandmarks(null);
     setLoading(true); // Indicate activity while re-enabling camera
 
     // Attempt to re-enable camera
@@ -237,12 +467,34 @@ const ScanPage: React.FC = () => {
     } catch (err: any) {
       console.error('Failed to re-enable camera:', err);
       setCameraUnavailable(true); // Camera still unavailable
-      setError('Failed to re-enable camera. Please upload an image manually.');
+      setError(classifyCameraError(err));
     } finally {
       setLoading(false);
     }
   }, [stream]);
 
+  // Accepts the current photo for this view of the session and moves on to the next one.
+  const continueSession = () => {
+    if (qualityReport?.verdict === 'block') {
+      setError('This photo did not pass the quality check. Please retake it following the tips shown.');
+      return;
+    }
+    setSessionPhotos((photos) => [...photos, getCurrentPhoto()]);
+    retakePhoto();
+  };
+
+  const toggleSessionMode = (enabled: boolean) => {
+    setSessionMode(enabled);
+    setSessionPhotos([]);
+  };
+
+  const restartSession = () => {
+    setSessionPhotos([]);
+    if (capturedImage) {
+      retakePhoto();
+    }
+  };
+
   const triggerFileUpload = () => {
     setError(null);
     fileInputRef.current?.click();
@@ -253,11 +505,25 @@ const ScanPage: React.FC = () => {
     <div className="flex flex-col flex-grow p-4 pt-0 pb-20 bg-black overflow-y-auto items-center justify-center relative">
       <h2 className="text-2xl font-bold text-white mb-6">Scan Your Skin</h2>
 
+      {provider.id === 'mock' && (
+        <p className="text-xs text-amber-300 bg-amber-900 bg-opacity-30 rounded-full px-3 py-1 mb-4">
+          {provider.label} mode: results are sample data
+        </p>
+      )}
+
       {/* General Error Display */}
       {error && (
-        <div role="alert" className="bg-red-900 bg-opacity-30 border border-red-700 text-red-300 px-4 py-3 rounded-lg relative mb-4 w-full text-center">
-          {error}
-        </div>
+        <ErrorNotice
+          error={error}
+          className="relative mb-4"
+          onRecover={{
+            // API key errors are handled by the prompt below, which already has a Select API Key button.
+            retry: capturedImage ? () => handleAnalyze() : undefined,
+            upload_photo: triggerFileUpload,
+            retake_photo: retakePhoto,
+            reload: () => window.location.reload(),
+          }}
+        />
       )}
 
       {/* Initialization Loader */}
@@ -283,7 +549,7 @@ const ScanPage: React.FC = () => {
             </a>.
           </p>
           <Button onClick={handleSelectApiKey} className="w-full mt-4" variant="primary">
-            Select API Key
+            {typeof window.aistudio?.openSelectKey === 'function' ? 'Select API Key' : 'Add API Key in Settings'}
           </Button>
         </div>
       )}
@@ -292,8 +558,70 @@ const ScanPage: React.FC = () => {
       {!isInitializing && !apiKeyRequired && loading && (
         <div className="flex flex-col items-center justify-center p-8 bg-gray-900 rounded-xl shadow-lg w-full max-w-sm">
           <div className="animate-spin rounded-full h-12 w-12 border-4 border-emerald-500 border-t-transparent mb-4"></div>
-          <p className="text-lg text-gray-300 font-semibold">Analyzing skin...</p>
-          <p className="text-sm text-gray-500 mt-2 text-center">This may take a few moments. Please do not close the app.</p>
+          <p className="text-lg text-gray-300 font-semibold">
+            {provider.samples ? `Analyzing skin ${provider.samples} times...` : 'Analyzing skin...'}
+          </p>
+          {pendingRetry ? (
+            <p role="status" className="text-sm text-amber-300 mt-2 text-center">
+              {pendingRetry.retryAt > now
+                ? `The AI service is busy. Retrying in ${Math.ceil((pendingRetry.retryAt - now) / 1000)}s`
+                : 'Retrying now'}
+              {' '}(attempt {pendingRetry.attempt + 1} of {pendingRetry.maxAttempts})...
+            </p>
+          ) : (
+            <p className="text-sm text-gray-500 mt-2 text-center">This may take a few moments. Please do not close the app.</p>
+          )}
+          {analysisControllerRef.current && (
+            <Button onClick={cancelAnalysis} className="w-full mt-6" variant="secondary">
+              Cancel
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Multi-angle session controls and progress */}
+      {!isInitializing && !apiKeyRequired && !loading && (
+        <div className="w-full mb-4">
+          {sessionPhotos.length === 0 && !capturedImage && (
+            <label className="flex items-center justify-center gap-2 text-sm text-gray-300 mb-3">
+              <input
+                type="checkbox"
+                checked={sessionMode}
+                onChange={(event) => toggleSessionMode(event.target.checked)}
+                className="accent-emerald-500"
+              />
+              Multi-angle scan (front, left and right)
+            </label>
+          )}
+          {sessionMode && (
+            <div className="bg-gray-900 rounded-xl p-3">
+              <div className="flex gap-2 mb-2">
+                {SCAN_VIEWS.map((view, index) => (
+                  <div
+                    key={view}
+                    className={`flex-1 flex items-center gap-2 rounded-lg px-2 py-1 text-xs ${
+                      view === currentView ? 'bg-emerald-900 bg-opacity-50 text-emerald-300' : 'bg-gray-800 text-gray-400'
+                    }`}
+                  >
+                    {sessionPhotos[index] ? (
+                      <img src={sessionPhotos[index].image} alt={getViewLabel(view)} className="w-6 h-6 rounded object-cover" />
+                    ) : (
+                      <span className="w-6 h-6 rounded bg-gray-700 flex items-center justify-center">{index + 1}</span>
+                    )}
+                    {getViewLabel(view)}
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-gray-300">
+                Step {sessionPhotos.length + 1} of {SCAN_VIEWS.length}: {getViewInstruction(currentView)}
+              </p>
+              {sessionPhotos.length > 0 && (
+                <button type="button" onClick={restartSession} className="text-xs text-gray-500 underline mt-1">
+                  Start over
+                </button>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -303,13 +631,20 @@ const ScanPage: React.FC = () => {
           {(cameraEnabled || cameraUnavailable) && ( // Show video or placeholder if camera was enabled/unavailable
             <div className="relative w-full aspect-square rounded-xl overflow-hidden bg-gray-800 flex items-center justify-center mb-6 shadow-lg">
               {cameraEnabled ? (
-                <video
-                  ref={videoRef}
-                  className="w-full h-full object-cover transform scaleX(-1)" // Flip horizontally for selfie view
-                  autoPlay
-                  playsInline
-                  muted
-                />
+                <>
+                  <video
+                    ref={videoRef}
+                    className="w-full h-full object-cover -scale-x-100" // Flip horizontally for selfie view
+                    autoPlay
+                    playsInline
+                    muted
+                  />
+                  <FaceAlignmentOverlay
+                    message={alignment?.message ?? 'Center your face in the oval'}
+                    aligned={alignment?.aligned ?? false}
+                    holdProgress={holdProgress}
+                  />
+                </>
               ) : (
                 <div className="text-gray-500 text-center p-4">
                   <p className="text-lg mb-2">Camera unavailable</p>
@@ -327,6 +662,17 @@ const ScanPage: React.FC = () => {
                 Take Photo
               </Button>
             )}
+            {cameraEnabled && faceDetectionReady && (
+              <label className="flex items-center justify-center gap-2 text-sm text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={autoCapture}
+                  onChange={(event) => setAutoCapture(event.target.checked)}
+                  className="accent-emerald-500"
+                />
+                Take the photo automatically when aligned
+              </label>
+            )}
             <Button onClick={triggerFileUpload} className="w-full" variant="secondary">
               Upload Image
             </Button>
@@ -347,10 +693,45 @@ const ScanPage: React.FC = () => {
           <div className="relative w-full aspect-square rounded-xl overflow-hidden mb-6 shadow-lg bg-gray-800 flex items-center justify-center">
             <img src={capturedImage} alt="Captured" className="w-full h-full object-cover" />
           </div>
+          <QualityReportPanel report={qualityReport} checking={checkingQuality} />
           <div className="flex flex-col gap-4 w-full max-w-xs">
-            <Button onClick={handleAnalyze} className="w-full" variant="primary">
-              Analyze Skin
+            <Button
+              onClick={isLastView ? () => handleAnalyze() : continueSession}
+              className="w-full disabled:opacity-50 disabled:cursor-not-allowed"
+              variant="primary"
+              disabled={checkingQuality || qualityReport?.verdict === 'block'}
+            >
+              {isLastView
+                ? sessionMode ? 'Analyze All Views' : 'Analyze Skin'
+                : `Next: ${getViewLabel(SCAN_VIEWS[sessionPhotos.length + 1])}`}
             </Button>
+            {budgetWarning && (
+              <div role="alert" className="bg-amber-900 bg-opacity-30 border border-amber-700 text-amber-200 px-4 py-3 rounded-lg text-sm">
+                <p>
+                  This scan (about {formatCost(budgetWarning.estimate)}) would take this month's estimated spend of{' '}
+                  {formatCost(budgetWarning.spent)} over your {formatCost(budgetWarning.budget)} budget.
+                </p>
+                <div className="flex gap-2 mt-3">
+                  <Button size="sm" variant="primary" className="flex-1" onClick={() => handleAnalyze(true)}>
+                    Analyze Anyway
+                  </Button>
+                  <Button size="sm" variant="secondary" className="flex-1" onClick={() => setBudgetWarning(null)}>
+                    Not Now
+                  </Button>
+                </div>
+              </div>
+            )}
+            {isLastView && (
+              <label className="flex items-center justify-center gap-2 text-sm text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={forceRefresh}
+                  onChange={(event) => setForceRefresh(event.target.checked)}
+                  className="accent-emerald-500"
+                />
+                Re-analyze even if these photos were analyzed before
+              </label>
+            )}
             <Button onClick={retakePhoto} className="w-full" variant="secondary">
               Retake Photo / Upload New
             </Button>
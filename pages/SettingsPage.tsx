@@ -1,9 +1,92 @@
 // pages/SettingsPage.tsx
 
-import React from 'react';
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import Button from '../components/ui/Button';
+import ApiKeyPanel from '../components/ApiKeyPanel';
+import ConfirmPanel from '../components/ConfirmPanel';
+import DataExportPanel from '../components/DataExportPanel';
+import UsagePanel from '../components/UsagePanel';
+import VaultPanel from '../components/VaultPanel';
+import { clearAnalysisCache } from '../services/analysisCache';
+import { getDefaultAnalysisProviderId, listAnalysisProviders } from '../services/analysisProvider';
+import { PHOTO_RETENTION_OPTIONS, applyPhotoRetention, deleteAllData } from '../services/dataRetention';
+import { METRIC_KEYS, METRIC_REGISTRY, MetricKey } from '../services/metricRegistry';
+import { SAMPLE_COUNT_OPTIONS } from '../services/repeatSampling';
+import { getSettings, updateSettings } from '../services/settingsService';
+import { AnalysisProviderId } from '../types';
+import { SUPPORTED_LANGUAGES, resolveLanguage } from '../utils/locale';
 
 const SettingsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [settings, setSettings] = useState(getSettings);
+  const [cacheStatus, setCacheStatus] = useState<string | null>(null);
+  const [retentionStatus, setRetentionStatus] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const providers = listAnalysisProviders();
+  const defaultProviderId = getDefaultAnalysisProviderId();
+  const selectedProviderId = settings.analysisProvider ?? defaultProviderId;
+
+  const handleProviderChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value as AnalysisProviderId;
+    // Store nothing when the user picks the env default, so a later env change still applies.
+    setSettings(updateSettings({ analysisProvider: value === defaultProviderId ? undefined : value }));
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearAnalysisCache();
+      setCacheStatus('Cached results cleared. The next scan of any photo will be analyzed again.');
+    } catch (error: any) {
+      console.error('Failed to clear the analysis cache:', error);
+      setCacheStatus(`Could not clear cached results: ${error.message}`);
+    }
+  };
+
+  const handleRetentionChange = async (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const days = Number(event.target.value);
+    setSettings(updateSettings({ photoRetentionDays: days > 0 ? days : undefined }));
+    setRetentionStatus(null);
+    try {
+      const deleted = await applyPhotoRetention();
+      if (deleted > 0) {
+        setRetentionStatus(`Deleted the photos of ${deleted} older scan${deleted === 1 ? '' : 's'}. Their results are kept.`);
+      }
+    } catch (error: any) {
+      console.error('Failed to apply photo retention:', error);
+      setRetentionStatus(`Could not delete older photos: ${error.message}`);
+    }
+  };
+
+  const handleDeleteAllData = async () => {
+    setDeleting(true);
+    setDeleteError(null);
+    try {
+      await deleteAllData();
+      navigate('/');
+    } catch (error: any) {
+      console.error('Failed to delete local data:', error);
+      setDeleteError(`Could not delete your data: ${error.message}`);
+      setDeleting(false);
+    }
+  };
+
+  const isMetricEnabled = (key: MetricKey) => settings.metricPreferences?.[key] ?? METRIC_REGISTRY[key].defaultEnabled;
+  const enabledMetricCount = METRIC_KEYS.filter(isMetricEnabled).length;
+
+  const handleMetricToggle = (key: MetricKey, enabled: boolean) => {
+    const metricPreferences = { ...settings.metricPreferences };
+    // Store only choices that differ from the default, so changed defaults in later versions still apply.
+    if (enabled === METRIC_REGISTRY[key].defaultEnabled) {
+      delete metricPreferences[key];
+    } else {
+      metricPreferences[key] = enabled;
+    }
+    setSettings(updateSettings({ metricPreferences }));
+  };
+
   return (
     <div className="flex flex-col flex-grow p-4 pt-0 pb-20 bg-black overflow-y-auto">
       <h2 className="text-2xl font-bold text-white mb-6">Settings</h2>
@@ -46,15 +129,162 @@ const SettingsPage: React.FC = () => {
           </div>
         </div>
 
+        <div className="bg-gray-900 rounded-xl p-6 shadow-lg">
+          <h3 className="text-xl font-semibold text-gray-200 mb-4">Analysis</h3>
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center justify-between gap-4">
+              <label htmlFor="analysis-provider" className="text-gray-300">Provider</label>
+              <select
+                id="analysis-provider"
+                value={selectedProviderId}
+                onChange={handleProviderChange}
+                className="bg-gray-800 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {providers.map((provider) => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.label}{provider.id === defaultProviderId ? ' (default)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-sm text-gray-500">
+              {providers.find((provider) => provider.id === selectedProviderId)?.description}
+            </p>
+            <div className="flex items-center justify-between gap-4 mt-2">
+              <label htmlFor="analysis-language" className="text-gray-300">Language</label>
+              <select
+                id="analysis-language"
+                value={settings.language ?? ''}
+                onChange={(event) => setSettings(updateSettings({ language: event.target.value || undefined }))}
+                className="bg-gray-800 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                <option value="">
+                  Device language ({SUPPORTED_LANGUAGES.find((language) => language.code === resolveLanguage())?.label})
+                </option>
+                {SUPPORTED_LANGUAGES.map((language) => (
+                  <option key={language.code} value={language.code}>
+                    {language.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-sm text-gray-500">Recommendations and explanations are written in this language.</p>
+            <div className="flex items-center justify-between gap-4 mt-2">
+              <label htmlFor="analysis-samples" className="text-gray-300">Runs per scan</label>
+              <select
+                id="analysis-samples"
+                value={settings.analysisSamples ?? 1}
+                onChange={(event) => {
+                  const value = Number(event.target.value);
+                  setSettings(updateSettings({ analysisSamples: value > 1 ? value : undefined }));
+                }}
+                className="bg-gray-800 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {SAMPLE_COUNT_OPTIONS.map((count) => (
+                  <option key={count} value={count}>
+                    {count === 1 ? '1 (standard)' : `${count} (high confidence)`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-sm text-gray-500">
+              High confidence mode analyzes each scan several times and combines the results, showing how certain each
+              score is. It takes longer and uses more API quota.
+            </p>
+          </div>
+        </div>
+
+        <div id="api-key-settings" className="bg-gray-900 rounded-xl p-6 shadow-lg">
+          <h3 className="text-xl font-semibold text-gray-200 mb-4">API Key</h3>
+          <ApiKeyPanel />
+        </div>
+
+        <div className="bg-gray-900 rounded-xl p-6 shadow-lg">
+          <h3 className="text-xl font-semibold text-gray-200 mb-4">API Usage</h3>
+          <UsagePanel settings={settings} onChange={(changes) => setSettings(updateSettings(changes))} />
+        </div>
+
+        <div className="bg-gray-900 rounded-xl p-6 shadow-lg">
+          <h3 className="text-xl font-semibold text-gray-200 mb-1">Metrics</h3>
+          <p className="text-sm text-gray-500 mb-4">Choose what new scans measure. Past scans keep the metrics they were taken with.</p>
+          <div className="flex flex-col gap-3">
+            {METRIC_KEYS.map((key) => {
+              const enabled = isMetricEnabled(key);
+              return (
+                <label key={key} className="flex items-start justify-between gap-4 cursor-pointer">
+                  <span className="flex flex-col">
+                    <span className="text-gray-300">{METRIC_REGISTRY[key].label}</span>
+                    <span className="text-xs text-gray-500">{METRIC_REGISTRY[key].description}</span>
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    // At least one metric must stay enabled.
+                    disabled={enabled && enabledMetricCount === 1}
+                    onChange={(event) => handleMetricToggle(key, event.target.checked)}
+                    className="mt-1 h-4 w-4 accent-emerald-500"
+                  />
+                </label>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="bg-gray-900 rounded-xl p-6 shadow-lg">
+          <h3 className="text-xl font-semibold text-gray-200 mb-4">App Lock</h3>
+          <VaultPanel settings={settings} onChange={(changes) => setSettings(updateSettings(changes))} />
+        </div>
+
         <div className="bg-gray-900 rounded-xl p-6 shadow-lg">
           <h3 className="text-xl font-semibold text-gray-200 mb-4">Privacy & Data</h3>
           <div className="flex flex-col gap-3">
-            <Button variant="outline" className="w-full">
-              Export My Data
+            <Button variant="outline" className="w-full" onClick={handleClearCache}>
+              Clear Cached Results
             </Button>
-            <Button variant="outline" className="w-full text-red-400 border-red-400 hover:bg-red-900">
+            {cacheStatus && <p role="status" className="text-sm text-gray-400">{cacheStatus}</p>}
+            <div className="flex items-center justify-between gap-4">
+              <label htmlFor="photo-retention" className="text-gray-300">Keep photos</label>
+              <select
+                id="photo-retention"
+                value={settings.photoRetentionDays ?? 0}
+                onChange={handleRetentionChange}
+                className="bg-gray-800 text-gray-200 text-sm rounded-lg px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                <option value={0}>Forever</option>
+                {PHOTO_RETENTION_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {days} days
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-sm text-gray-500">
+              Photos of older scans are deleted automatically. Scores and recommendations are kept for your history.
+            </p>
+            {retentionStatus && <p role="status" className="text-sm text-gray-400">{retentionStatus}</p>}
+            <DataExportPanel />
+            <Button
+              variant="outline"
+              className="w-full text-red-400 border-red-400 hover:bg-red-900"
+              onClick={() => setConfirmingDelete(true)}
+              disabled={confirmingDelete}
+            >
               Delete Account
             </Button>
+            {confirmingDelete && (
+              <ConfirmPanel
+                confirmLabel="Delete Everything"
+                onConfirm={handleDeleteAllData}
+                onCancel={() => setConfirmingDelete(false)}
+                busy={deleting}
+              >
+                <p>
+                  This permanently deletes all scans and photos, goals, cached results, usage records, your saved API key,
+                  the app lock and your settings from this device. Export your data first if you want to keep it.
+                </p>
+                {deleteError && <p className="mt-1 text-red-300">{deleteError}</p>}
+              </ConfirmPanel>
+            )}
           </div>
         </div>
 
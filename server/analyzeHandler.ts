@@ -0,0 +1,152 @@
+// server/analyzeHandler.ts
+
+import { AnalysisImage } from '../types';
+import { resolveLanguage } from '../utils/locale';
+import { SCAN_VIEWS } from '../utils/scanViews';
+import {
+  AnalyzeProxyErrorCode,
+  AnalyzeProxyErrorResponse,
+  AnalyzeProxyRequest,
+  AnalyzeProxyResponse,
+} from '../services/analysisProxy';
+import { AnalysisError, classifyAnalysisError } from '../services/appErrors';
+import { ApiCallLog, requestGeminiAnalysis } from '../services/geminiService';
+import { isMetricKey } from '../services/metricRegistry';
+
+// Largest accepted request body; three high-resolution photos as base64 fit comfortably.
+export const MAX_BODY_BYTES = 12 * 1024 * 1024;
+const MAX_IMAGES = SCAN_VIEWS.length;
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * A JSON response for the HTTP layer to send.
+ */
+export interface HandlerResponse {
+  status: number;
+  body: AnalyzeProxyResponse | AnalyzeProxyErrorResponse;
+  headers?: Record<string, string>;
+}
+
+/**
+ * The request body is not a valid AnalyzeProxyRequest.
+ */
+export class RequestValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestValidationError';
+  }
+}
+
+/**
+ * Whether a parsed JSON value is an object with fields, i.e. not null, an array or a primitive.
+ */
+export const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const errorResponse = (status: number, code: AnalyzeProxyErrorCode, message: string, calls?: ApiCallLog[]): HandlerResponse => ({
+  status,
+  body: { error: { code, message }, ...(calls?.length ? { calls } : {}) },
+});
+
+/**
+ * Checks an untrusted request body and normalizes it.
+ * @param body The parsed JSON body.
+ * @returns The images and options to analyze with; unknown metrics are dropped and the language is resolved.
+ * @throws RequestValidationError describing the first problem found.
+ */
+export function parseAnalyzeRequest(body: unknown): Required<AnalyzeProxyRequest> {
+  if (!isJsonObject(body)) {
+    throw new RequestValidationError('The request body must be a JSON object.');
+  }
+  const { images, options = {} } = body as Partial<AnalyzeProxyRequest>;
+  if (!Array.isArray(images) || images.length === 0 || images.length > MAX_IMAGES) {
+    throw new RequestValidationError(`"images" must be an array of 1 to ${MAX_IMAGES} photos.`);
+  }
+  const seenViews = new Set<string>();
+  const parsedImages = images.map((image: Partial<AnalysisImage>, index): AnalysisImage => {
+    if (!image || typeof image !== 'object') {
+      throw new RequestValidationError(`images[${index}] must be an object.`);
+    }
+    if (!SCAN_VIEWS.includes(image.view as AnalysisImage['view']) || seenViews.has(image.view!)) {
+      throw new RequestValidationError(`images[${index}].view must be one of ${SCAN_VIEWS.join(', ')} and not repeat.`);
+    }
+    if (typeof image.mimeType !== 'string' || !IMAGE_MIME_TYPES.includes(image.mimeType)) {
+      throw new RequestValidationError(`images[${index}].mimeType must be one of ${IMAGE_MIME_TYPES.join(', ')}.`);
+    }
+    if (typeof image.base64 !== 'string' || !BASE64_PATTERN.test(image.base64)) {
+      throw new RequestValidationError(`images[${index}].base64 must be base64 data without a data URL prefix.`);
+    }
+    seenViews.add(image.view!);
+    return { view: image.view!, mimeType: image.mimeType, base64: image.base64 };
+  });
+  if (parsedImages[0].view !== 'front') {
+    throw new RequestValidationError('The first image must be the front view.');
+  }
+  if (!isJsonObject(options)) {
+    throw new RequestValidationError('"options" must be an object.');
+  }
+  if (options.metrics !== undefined && !Array.isArray(options.metrics)) {
+    throw new RequestValidationError('"options.metrics" must be an array of metric keys.');
+  }
+  const unknownIndex = options.metrics?.findIndex((metric) => !isMetricKey(metric)) ?? -1;
+  if (unknownIndex !== -1) {
+    throw new RequestValidationError(`options.metrics[${unknownIndex}] is not a known metric.`);
+  }
+
+  const metrics = options.metrics;
+  return {
+    images: parsedImages,
+    options: {
+      metrics: metrics?.length ? metrics : undefined,
+      language: resolveLanguage(typeof options.language === 'string' ? options.language : undefined),
+    },
+  };
+}
+
+/**
+ * Handles POST /api/analyze: validates the request, analyzes the photos with the server's key and returns the
+ * validated result together with the model calls made, so the client can show them in its usage meter.
+ * @param body The parsed JSON body.
+ * @param apiKey The Gemini API key held by the server.
+ * @param signal Aborts the analysis, e.g. when the client disconnects.
+ * @returns The response to send. Never rejects.
+ */
+export async function handleAnalyzeRequest(body: unknown, apiKey: string, signal?: AbortSignal): Promise<HandlerResponse> {
+  let request: Required<AnalyzeProxyRequest>;
+  try {
+    request = parseAnalyzeRequest(body);
+  } catch (error: any) {
+    if (error instanceof RequestValidationError) {
+      return errorResponse(400, 'invalid_request', error.message);
+    }
+    // A validation bug must not leak internals to the client.
+    console.error('Request validation failed unexpectedly:', error);
+    return errorResponse(400, 'invalid_request', 'The request could not be read.');
+  }
+
+  const calls: ApiCallLog[] = [];
+  try {
+    const result = await requestGeminiAnalysis(apiKey, request.images, { ...request.options, signal }, (call) => calls.push(call));
+    return { status: 200, body: { result, calls } };
+  } catch (error) {
+    const classified = classifyAnalysisError(error, signal);
+    if (classified instanceof AnalysisError) {
+      switch (classified.code) {
+        case 'rate_limited':
+          return { ...errorResponse(429, 'rate_limited', classified.message, calls), headers: { 'Retry-After': '60' } };
+        case 'timeout':
+          return errorResponse(504, 'timeout', classified.message, calls);
+        case 'model_format':
+          return errorResponse(502, 'model_format', classified.message, calls);
+        case 'cancelled':
+          return errorResponse(499, 'cancelled', classified.message, calls);
+        default:
+          return errorResponse(502, classified.code, classified.message, calls);
+      }
+    }
+    // A rejected server key or an unexpected failure is the deployment's problem; clients get a generic message.
+    console.error('Analysis failed:', error);
+    return errorResponse(500, 'server', 'The analysis server could not complete the request.', calls);
+  }
+}
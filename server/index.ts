@@ -0,0 +1,129 @@
+// server/index.ts
+//
+// Minimal analysis proxy: keeps the Gemini API key on the server and exposes POST /api/analyze.
+// Run with `npm run server`; the Vite dev server forwards /api to it (see vite.config.ts).
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { loadEnv } from 'vite';
+import { HandlerResponse, MAX_BODY_BYTES, handleAnalyzeRequest, isJsonObject } from './analyzeHandler';
+import { createRateLimiter, getClientId } from './rateLimiter';
+
+const ANALYZE_PATH = '/api/analyze';
+
+const env = { ...loadEnv(process.env.NODE_ENV ?? 'development', process.cwd(), ''), ...process.env };
+const port = Number(env.PROXY_PORT) || 8787;
+const apiKey = env.GEMINI_API_KEY;
+// The shared Gemini client reads the model from process.env. Assigning undefined would store the string "undefined".
+if (env.GEMINI_MODEL) {
+  process.env.GEMINI_MODEL = env.GEMINI_MODEL;
+}
+
+const rateLimiter = createRateLimiter({
+  limit: Number(env.PROXY_RATE_LIMIT) || 10,
+  windowMs: Number(env.PROXY_RATE_WINDOW_MS) || 60_000,
+});
+
+class PayloadTooLargeError extends Error {}
+
+/**
+ * Reads and parses a JSON request body, refusing bodies larger than MAX_BODY_BYTES.
+ */
+const readJsonBody = async (request: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new PayloadTooLargeError();
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+};
+
+const send = (response: ServerResponse, { status, body, headers }: HandlerResponse) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+};
+
+/**
+ * Writes one JSON line per request. Photos and results are never logged.
+ */
+const logRequest = (request: IncomingMessage, status: number, startedAt: number, details: Record<string, unknown> = {}) => {
+  console.log(JSON.stringify({
+    time: new Date(startedAt).toISOString(),
+    method: request.method,
+    path: request.url,
+    client: getClientId(request.socket.remoteAddress, request.headers['x-forwarded-for']),
+    status,
+    durationMs: Date.now() - startedAt,
+    ...details,
+  }));
+};
+
+const handleRequest = async (request: IncomingMessage, response: ServerResponse) => {
+  const startedAt = Date.now();
+  const respond = (result: HandlerResponse, details?: Record<string, unknown>) => {
+    send(response, result);
+    logRequest(request, result.status, startedAt, details);
+  };
+
+  if (request.url !== ANALYZE_PATH) {
+    return respond({ status: 404, body: { error: { code: 'invalid_request', message: 'Not found.' } } });
+  }
+  if (request.method !== 'POST') {
+    return respond({ status: 405, body: { error: { code: 'invalid_request', message: 'Use POST.' } }, headers: { Allow: 'POST' } });
+  }
+
+  const client = getClientId(request.socket.remoteAddress, request.headers['x-forwarded-for']);
+  const limit = rateLimiter.take(client);
+  if (!limit.allowed) {
+    const retryAfterSeconds = Math.ceil(limit.retryAfterMs / 1000);
+    return respond({
+      status: 429,
+      body: { error: { code: 'rate_limited', message: `Too many requests. Try again in ${retryAfterSeconds} seconds.` } },
+      headers: { 'Retry-After': String(retryAfterSeconds) },
+    });
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(request);
+  } catch (error) {
+    return error instanceof PayloadTooLargeError
+      ? respond({ status: 413, body: { error: { code: 'payload_too_large', message: `Request bodies are limited to ${MAX_BODY_BYTES / 1024 / 1024} MB.` } } })
+      : respond({ status: 400, body: { error: { code: 'invalid_request', message: 'The request body is not valid JSON.' } } });
+  }
+
+  // Stop calling the model once the client has gone away.
+  const controller = new AbortController();
+  response.on('close', () => {
+    if (!response.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  const result = await handleAnalyzeRequest(body, apiKey!, controller.signal);
+  const calls = 'calls' in result.body ? result.body.calls ?? [] : [];
+  respond(result, {
+    images: isJsonObject(body) && Array.isArray(body.images) ? body.images.length : undefined,
+    modelCalls: calls.length,
+    errorCode: 'error' in result.body ? result.body.error.code : undefined,
+  });
+};
+
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment before starting the proxy.');
+  process.exit(1);
+}
+
+createServer((request, response) => {
+  handleRequest(request, response).catch((error) => {
+    console.error('Unhandled proxy error:', error);
+    if (!response.headersSent) {
+      send(response, { status: 500, body: { error: { code: 'server', message: 'Internal server error.' } } });
+    }
+  });
+}).listen(port, () => {
+  console.log(`Analysis proxy listening on http://localhost:${port}${ANALYZE_PATH}`);
+});
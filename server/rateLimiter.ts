@@ -0,0 +1,71 @@
+// server/rateLimiter.ts
+
+/**
+ * Outcome of counting one request against a client's limit.
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number; // Requests still allowed in the current window
+  retryAfterMs: number; // Wait until the next request is allowed, 0 when allowed
+}
+
+export interface RateLimiterOptions {
+  limit: number; // Requests allowed per client per window
+  windowMs: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Counts a request from the client if it is within the limit.
+   * @param clientId Identifies the client, e.g. its IP address.
+   * @param now Current time in epoch milliseconds.
+   */
+  take(clientId: string, now?: number): RateLimitDecision;
+}
+
+/**
+ * Creates an in-memory sliding-window rate limiter. Each client may make `limit` requests in any `windowMs` period;
+ * rejected requests are not counted.
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimiterOptions): RateLimiter {
+  const requests = new Map<string, number[]>(); // Start times of each client's requests in the current window
+
+  return {
+    take(clientId, now = Date.now()) {
+      const recent = (requests.get(clientId) ?? []).filter((time) => now - time < windowMs);
+      if (recent.length >= limit) {
+        requests.set(clientId, recent);
+        return { allowed: false, remaining: 0, retryAfterMs: recent[0] + windowMs - now };
+      }
+      recent.push(now);
+      requests.set(clientId, recent);
+
+      // Forget idle clients so the map does not grow with every address ever seen.
+      for (const [id, times] of requests) {
+        if (now - times[times.length - 1] >= windowMs) {
+          requests.delete(id);
+        }
+      }
+      return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+    },
+  };
+}
+
+const isLoopback = (address: string) => address === '::1' || /^(::ffff:)?127\./.test(address);
+
+/**
+ * Identifies the client a request is counted against. Requests from loopback come through a proxy on the same
+ * host, e.g. the Vite dev server, so they are told apart by the address that proxy appended to X-Forwarded-For.
+ * Other addresses are used as they are, since a direct client could send any X-Forwarded-For it likes.
+ * @param remoteAddress The address of the connection.
+ * @param forwardedFor The X-Forwarded-For header, if any.
+ * @returns The client id, e.g. its IP address.
+ */
+export function getClientId(remoteAddress: string | undefined, forwardedFor: string | string[] | undefined): string {
+  if (!remoteAddress) {
+    return 'unknown';
+  }
+  const forwarded = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor ?? '').split(',').map((part) => part.trim());
+  const proxied = forwarded[forwarded.length - 1];
+  return isLoopback(remoteAddress) && proxied ? proxied : remoteAddress;
+}
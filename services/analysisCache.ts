@@ -0,0 +1,184 @@
+// services/analysisCache.ts
+
+import { AnalysisImage, SkinAnalysisResult } from '../types';
+import { getAnalysisLanguage } from '../utils/locale';
+import { AnalysisProvider } from './analysisProvider';
+import { AnalyzeOptions } from './analysisRequest';
+import { STORES, requestToPromise, withTransaction } from './database';
+import { getEnabledMetrics } from './metricRegistry';
+import { PROMPT_SET_VERSION } from './promptTemplates';
+import { SealedRecord, openRecord, sealRecord } from './vault';
+
+// Results are a few KB each, so the limit is on entries; the least recently used ones are evicted first.
+const MAX_CACHE_ENTRIES = 50;
+
+/**
+ * A cached analysis result, keyed by a hash of everything that determines it.
+ */
+interface AnalysisCacheEntry {
+  key: string;
+  promptVersion: string; // `PROMPT_SET_VERSION` when the entry was written
+  result: SkinAnalysisResult;
+  imageHashes?: string[]; // SHA-256 of each analyzed photo, so deleting a photo can remove its results; absent in older entries
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+// Stale entries from an older prompt version are removed once per session, on first use.
+let prunedThisSession = false;
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const hashImage = async (base64: string): Promise<string> => toHex(await crypto.subtle.digest('SHA-256', base64ToBytes(base64)));
+
+/**
+ * Computes the cache key: a SHA-256 over the image bytes and every setting that changes the result.
+ * @returns The key and the hash of each photo, or null when Web Crypto is unavailable (e.g. on an insecure origin)
+ *   and caching is skipped.
+ */
+const computeCacheKey = async (
+  provider: AnalysisProvider,
+  images: AnalysisImage[],
+  options: AnalyzeOptions,
+): Promise<{ key: string; imageHashes: string[] } | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return null;
+  }
+  const imageHashes = await Promise.all(images.map((image) => hashImage(image.base64)));
+  const descriptor = JSON.stringify({
+    promptVersion: PROMPT_SET_VERSION,
+    language: options.language ?? getAnalysisLanguage(),
+    provider: provider.id,
+    model: provider.getModel(),
+    samples: provider.samples ?? 1,
+    metrics: [...(options.metrics ?? getEnabledMetrics())].sort(),
+    images: images.map((image, index) => `${image.view}:${imageHashes[index]}`),
+  });
+  return { key: toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(descriptor))), imageHashes };
+};
+
+/**
+ * Removes entries from other prompt versions and evicts the least recently used entries beyond the size limit.
+ */
+const pruneAnalysisCache = (): Promise<void> =>
+  withTransaction(STORES.analysisCache, 'readwrite', (tx) => {
+    const index = tx.objectStore(STORES.analysisCache).index('lastUsedAt');
+    let kept = 0;
+    return new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(null, 'prev'); // Most recently used first
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        const entry = cursor.value as AnalysisCacheEntry;
+        if (entry.promptVersion !== PROMPT_SET_VERSION || kept >= MAX_CACHE_ENTRIES) {
+          cursor.delete();
+        } else {
+          kept++;
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  });
+
+const readCachedResult = async (key: string): Promise<SkinAnalysisResult | null> => {
+  if (!prunedThisSession) {
+    prunedThisSession = true;
+    await pruneAnalysisCache();
+  }
+  // The key, prompt version and dates of an entry stay readable while the app lock encrypts its result.
+  const stored = await withTransaction(STORES.analysisCache, 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORES.analysisCache);
+    const entry = await requestToPromise<AnalysisCacheEntry | SealedRecord<AnalysisCacheEntry> | undefined>(store.get(key));
+    if (!entry || entry.promptVersion !== PROMPT_SET_VERSION) {
+      return null;
+    }
+    store.put({ ...entry, lastUsedAt: Date.now() });
+    return entry;
+  });
+  if (!stored) {
+    return null;
+  }
+  const entry = await openRecord(stored);
+  return { ...entry.result, cachedAt: entry.createdAt };
+};
+
+const writeCachedResult = async (key: string, imageHashes: string[], result: SkinAnalysisResult): Promise<void> => {
+  const now = Date.now();
+  const { cachedAt, ...fresh } = result;
+  const entry: AnalysisCacheEntry = { key, promptVersion: PROMPT_SET_VERSION, result: fresh, imageHashes, createdAt: now, lastUsedAt: now };
+  const record = await sealRecord(STORES.analysisCache, entry);
+  await withTransaction(STORES.analysisCache, 'readwrite', (tx) =>
+    requestToPromise(tx.objectStore(STORES.analysisCache).put(record)),
+  );
+  await pruneAnalysisCache();
+};
+
+/**
+ * Deletes every cached analysis result.
+ * @returns A promise that resolves once the cache is empty.
+ */
+export async function clearAnalysisCache(): Promise<void> {
+  await withTransaction(STORES.analysisCache, 'readwrite', (tx) =>
+    requestToPromise(tx.objectStore(STORES.analysisCache).clear()),
+  );
+}
+
+/**
+ * Deletes the cached results of analyses that included any of the given photos. Entries written before photo hashes
+ * were recorded cannot be matched and are deleted as well.
+ * @param photos The deleted photos (base64 without the data URL prefix).
+ * @returns A promise that resolves once the entries are deleted.
+ */
+export async function forgetCachedAnalyses(photos: string[]): Promise<void> {
+  if (photos.length === 0) {
+    return;
+  }
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    // The photos cannot be hashed to find their entries, so the whole cache goes.
+    return clearAnalysisCache();
+  }
+  const hashes = new Set(await Promise.all(photos.map(hashImage)));
+  await withTransaction(STORES.analysisCache, 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORES.analysisCache);
+    const entries = await requestToPromise<AnalysisCacheEntry[]>(store.getAll());
+    entries
+      .filter((entry) => !entry.imageHashes || entry.imageHashes.some((hash) => hashes.has(hash)))
+      .forEach((entry) => store.delete(entry.key));
+  });
+}
+
+/**
+ * Wraps a provider so that analyzing the same photos again with the same prompt versions, language, provider,
+ * model and metrics returns the stored result instantly instead of making another billed request. Cached results are
+ * marked with `cachedAt`; pass `forceRefresh` to analyze again. Cache failures never fail the analysis.
+ * @param provider The provider to cache.
+ * @returns The caching provider.
+ */
+export const withAnalysisCache = (provider: AnalysisProvider): AnalysisProvider => ({
+  ...provider,
+  analyze: async (images: AnalysisImage[], options: AnalyzeOptions = {}): Promise<SkinAnalysisResult> => {
+    let cacheKey: { key: string; imageHashes: string[] } | null = null;
+    try {
+      cacheKey = await computeCacheKey(provider, images, options);
+      const cached = cacheKey && !options.forceRefresh ? await readCachedResult(cacheKey.key) : null;
+      if (cached) {
+        return cached;
+      }
+    } catch (error) {
+      console.warn('Analysis cache lookup failed, analyzing without it:', error);
+    }
+
+    const result = await provider.analyze(images, options);
+    if (cacheKey) {
+      writeCachedResult(cacheKey.key, cacheKey.imageHashes, result).catch((error) => console.warn('Could not cache analysis result:', error));
+    }
+    return result;
+  },
+});
@@ -0,0 +1,80 @@
+// services/analysisProvider.ts
+
+import { AnalysisImage, AnalysisProviderId, SkinAnalysisResult } from '../types';
+import { AnalyzeOptions } from './analysisRequest';
+import { getSettings } from './settingsService';
+import { geminiAnalysisProvider } from './geminiService';
+import { mockAnalysisProvider } from './mockAnalysisProvider';
+import { withAnalysisCache } from './analysisCache';
+import { withRepeatSampling } from './repeatSampling';
+
+/**
+ * A backend that turns a face image into a SkinAnalysisResult.
+ */
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  description: string;
+  samples?: number; // Runs combined per analysis, when repeat sampling is on
+  /**
+   * Returns the model (or fixture set) the provider currently analyzes with. Part of the analysis cache key,
+   * so switching models never returns another model's results.
+   */
+  getModel(): string;
+  /**
+   * Makes sure the provider can be used, e.g. that an API key is selected.
+   * Rejects with an AuthError when user action is required.
+   */
+  prepare(): Promise<void>;
+  /**
+   * Analyzes one photo, or all views of a multi-angle session together, into a single result.
+   * @param images The photos to analyze, front view first.
+   * @param options Cancellation signal, deadline, retry options, the metrics to measure and the output language.
+   */
+  analyze(images: AnalysisImage[], options?: AnalyzeOptions): Promise<SkinAnalysisResult>;
+}
+
+const PROVIDERS: Record<AnalysisProviderId, AnalysisProvider> = {
+  gemini: geminiAnalysisProvider,
+  mock: mockAnalysisProvider,
+};
+
+// Used when neither settings nor the ANALYSIS_PROVIDER env variable choose a provider.
+const DEFAULT_PROVIDER_ID: AnalysisProviderId = 'gemini';
+
+/**
+ * Checks whether a value names a registered provider, e.g. when reading persisted or imported settings.
+ */
+export const isProviderId = (value: unknown): value is AnalysisProviderId =>
+  typeof value === 'string' && Object.hasOwn(PROVIDERS, value);
+
+/**
+ * Helper to safely read the ANALYSIS_PROVIDER build-time env variable.
+ */
+const getEnvProviderId = (): AnalysisProviderId | undefined => {
+  const value = typeof process !== 'undefined' && typeof process.env !== 'undefined' ? process.env.ANALYSIS_PROVIDER : undefined;
+  return isProviderId(value) ? value : undefined;
+};
+
+/**
+ * Lists all available analysis providers.
+ * @returns The providers, in display order.
+ */
+export const listAnalysisProviders = (): AnalysisProvider[] => Object.values(PROVIDERS);
+
+/**
+ * Returns the provider id that applies when the user has not chosen one in settings.
+ */
+export const getDefaultAnalysisProviderId = (): AnalysisProviderId => getEnvProviderId() ?? DEFAULT_PROVIDER_ID;
+
+/**
+ * Resolves the active analysis provider: the user's setting first, then the ANALYSIS_PROVIDER env variable,
+ * then Gemini. When high-confidence mode is on, the provider runs each analysis several times. Results are
+ * cached, so analyzing the same photos again does not cost another request.
+ * @returns The active provider.
+ */
+export function getAnalysisProvider(): AnalysisProvider {
+  const { analysisProvider, analysisSamples } = getSettings();
+  const provider = PROVIDERS[isProviderId(analysisProvider) ? analysisProvider : getDefaultAnalysisProviderId()];
+  return withAnalysisCache(analysisSamples && analysisSamples > 1 ? withRepeatSampling([provider], analysisSamples) : provider);
+}
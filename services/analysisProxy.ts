@@ -0,0 +1,103 @@
+// services/analysisProxy.ts
+
+import { AnalysisImage, ApiCallRecord, SkinAnalysisResult } from '../types';
+import { LanguageCode } from '../utils/locale';
+import { AnalyzeOptions, runAnalysisRequest } from './analysisRequest';
+import {
+  AnalysisErrorCode,
+  AnalysisTimeoutError,
+  AppError,
+  ImageProcessingError,
+  MalformedResponseError,
+  QuotaError,
+  ServerError,
+} from './appErrors';
+import { MetricKey } from './metricRegistry';
+import { recordApiCall } from './usageRepository';
+
+/**
+ * Body of a POST to the analysis proxy (server/).
+ */
+export interface AnalyzeProxyRequest {
+  images: AnalysisImage[]; // Front view first, as for analyzeSkinImages
+  options?: {
+    metrics?: MetricKey[];
+    language?: LanguageCode;
+  };
+}
+
+/**
+ * Successful proxy response: the validated result and the model calls made for it, for the client's usage log.
+ */
+export interface AnalyzeProxyResponse {
+  result: SkinAnalysisResult;
+  calls: Omit<ApiCallRecord, 'id'>[];
+}
+
+/**
+ * Error codes the proxy returns in addition to the analysis codes.
+ */
+export type AnalyzeProxyErrorCode = AnalysisErrorCode | 'invalid_request' | 'payload_too_large';
+
+/**
+ * Failed proxy response. `calls` lists the model calls made before the failure, if any.
+ */
+export interface AnalyzeProxyErrorResponse {
+  error: { code: AnalyzeProxyErrorCode; message: string };
+  calls?: Omit<ApiCallRecord, 'id'>[];
+}
+
+/**
+ * Maps a proxy error response back to the AppError the direct SDK request would have thrown.
+ */
+const toProxyError = (status: number, body: Partial<AnalyzeProxyErrorResponse> | null): AppError => {
+  const message = body?.error?.message ?? `The analysis server responded with HTTP ${status}.`;
+  switch (body?.error?.code) {
+    case 'rate_limited':
+      return new QuotaError(message, { status });
+    case 'timeout':
+      return new AnalysisTimeoutError(message, { status });
+    case 'model_format':
+      return new MalformedResponseError(message);
+    case 'invalid_request':
+    case 'payload_too_large':
+      // The proxy refused the photos themselves; sending them again would fail the same way.
+      return new ImageProcessingError(message);
+    default:
+      return new ServerError(message, { status });
+  }
+};
+
+/**
+ * Analyzes photos through the app's server proxy, which holds the API key and calls the model server-side.
+ * The proxy does its own retries, so requests are not retried here; the deadline and cancellation still apply.
+ * @param url The proxy endpoint, e.g. "/api/analyze".
+ * @param images The photos to analyze (base64 without the data URL prefix), front view first.
+ * @param options Cancellation signal, deadline, the metrics to measure and the output language.
+ * @returns A promise that resolves to the validated SkinAnalysisResult.
+ * @throws AnalysisError subclasses matching the proxy's error code; ImageProcessingError for rejected photos.
+ */
+export async function analyzeViaProxy(url: string, images: AnalysisImage[], options: AnalyzeOptions = {}): Promise<SkinAnalysisResult> {
+  const body: AnalyzeProxyRequest = {
+    images,
+    options: { metrics: options.metrics ? [...options.metrics] : undefined, language: options.language },
+  };
+
+  return runAnalysisRequest(async (signal) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    const payload: Partial<AnalyzeProxyResponse & AnalyzeProxyErrorResponse> | null = await response.json().catch(() => null);
+    // The server made these calls on this user's behalf; they count towards the usage meter like direct calls.
+    for (const call of payload?.calls ?? []) {
+      recordApiCall(call).catch((error) => console.warn('Could not record API usage:', error));
+    }
+    if (!response.ok || !payload?.result) {
+      throw toProxyError(response.status, payload);
+    }
+    return payload.result;
+  }, { ...options, maxRetries: 0 });
+}
@@ -0,0 +1,75 @@
+// services/analysisRequest.ts
+
+import { LanguageCode } from '../utils/locale';
+import { RetryInfo, retryWithBackoff } from '../utils/retry';
+import { AnalysisError, AnalysisTimeoutError, CancelledError, classifyAnalysisError } from './appErrors';
+import { MetricKey } from './metricRegistry';
+
+/**
+ * Options shared by all analysis providers for cancellation, deadlines, retries, caching and the metrics to measure.
+ */
+export interface AnalyzeOptions {
+  signal?: AbortSignal; // Aborting cancels the request and any pending retry
+  timeoutMs?: number; // Deadline for the whole request, including retries
+  maxRetries?: number; // Retries for transient failures (429, 5xx, network)
+  onRetry?: (info: RetryInfo) => void; // Called before waiting for each retry
+  metrics?: readonly MetricKey[]; // Issue metrics to measure; defaults to the user's enabled metrics
+  language?: LanguageCode; // Language for free-text output; defaults to the user's language
+  forceRefresh?: boolean; // Skips the analysis cache and analyzes again; the new result replaces the cached one
+}
+
+export const DEFAULT_ANALYSIS_TIMEOUT_MS = 90_000;
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1_000;
+const RETRY_MAX_DELAY_MS = 15_000;
+
+/**
+ * Runs an analysis request under a deadline, retrying transient failures with exponential backoff and jitter.
+ * Every attempt receives a signal that aborts on user cancellation or when the deadline passes.
+ * @param attempt Performs one request attempt using the given abort signal.
+ * @param options Cancellation, deadline and retry options.
+ * @returns A promise that resolves with the first successful result.
+ * @throws AnalysisError for cancellations, timeouts and classified API failures; other errors unchanged.
+ */
+export async function runAnalysisRequest<T>(attempt: (signal: AbortSignal) => Promise<T>, options: AnalyzeOptions = {}): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_ANALYSIS_TIMEOUT_MS;
+  const deadline = Date.now() + timeoutMs;
+  const controller = new AbortController();
+
+  const timer = setTimeout(() => {
+    controller.abort(new AnalysisTimeoutError(`Analysis did not finish within ${Math.round(timeoutMs / 1000)} seconds.`));
+  }, timeoutMs);
+  const onCancel = () => controller.abort(new CancelledError());
+  if (options.signal?.aborted) {
+    onCancel();
+  } else {
+    options.signal?.addEventListener('abort', onCancel, { once: true });
+  }
+
+  try {
+    return await retryWithBackoff(
+      async () => {
+        try {
+          return await attempt(controller.signal);
+        } catch (error) {
+          throw classifyAnalysisError(error, controller.signal);
+        }
+      },
+      {
+        maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        maxDelayMs: RETRY_MAX_DELAY_MS,
+        shouldRetry: (error) => error instanceof AnalysisError && error.retryable,
+        signal: controller.signal,
+        deadline,
+        onRetry: options.onRetry,
+      },
+    );
+  } catch (error) {
+    // Aborts during a backoff wait reject with the raw abort reason; classify those too.
+    throw classifyAnalysisError(error, controller.signal);
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onCancel);
+  }
+}
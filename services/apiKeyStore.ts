@@ -0,0 +1,141 @@
+// services/apiKeyStore.ts
+
+import { STORES, requestToPromise, withTransaction } from './database';
+
+// Record ids in the secrets store.
+const DEVICE_KEY_ID = 'deviceKey';
+const API_KEY_ID = 'geminiApiKey';
+
+/**
+ * AES-GCM key generated on this device. It is non-extractable, so its bytes never leave the browser's key store;
+ * IndexedDB only holds a handle to it.
+ */
+interface DeviceKeyRecord {
+  id: typeof DEVICE_KEY_ID;
+  key: CryptoKey;
+}
+
+/**
+ * The API key encrypted with the device key.
+ */
+interface EncryptedApiKeyRecord {
+  id: typeof API_KEY_ID;
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+  hint: string; // Last characters of the key, shown so the user can tell keys apart
+  savedAt: number;
+}
+
+/**
+ * What the UI may show about the stored key, without decrypting it.
+ */
+export interface ApiKeyInfo {
+  hint: string;
+  savedAt: number;
+}
+
+const requireWebCrypto = () => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Secure key storage needs Web Crypto, which is only available over HTTPS or on localhost.');
+  }
+};
+
+const readDeviceKey = (): Promise<DeviceKeyRecord | undefined> =>
+  withTransaction(STORES.secrets, 'readonly', (tx) =>
+    requestToPromise<DeviceKeyRecord | undefined>(tx.objectStore(STORES.secrets).get(DEVICE_KEY_ID)),
+  );
+
+const loadOrCreateDeviceKey = async (): Promise<CryptoKey> => {
+  const existing = await readDeviceKey();
+  if (existing) {
+    return existing.key;
+  }
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  const record: DeviceKeyRecord = { id: DEVICE_KEY_ID, key };
+  try {
+    // add() rather than put(), so a key created meanwhile (e.g. in another tab) is never replaced.
+    await withTransaction(STORES.secrets, 'readwrite', (tx) => requestToPromise(tx.objectStore(STORES.secrets).add(record)));
+    return key;
+  } catch (error: any) {
+    const stored = error?.name === 'ConstraintError' ? await readDeviceKey() : undefined;
+    if (!stored) {
+      throw error;
+    }
+    return stored.key;
+  }
+};
+
+// Shared by concurrent callers while the key is being loaded or created, so first use creates only one key.
+let pendingDeviceKey: Promise<CryptoKey> | null = null;
+
+/**
+ * Returns the device key, creating it on first use.
+ */
+const getDeviceKey = (): Promise<CryptoKey> => {
+  pendingDeviceKey ??= loadOrCreateDeviceKey().finally(() => {
+    pendingDeviceKey = null;
+  });
+  return pendingDeviceKey;
+};
+
+const readEncryptedKey = (): Promise<EncryptedApiKeyRecord | undefined> =>
+  withTransaction(STORES.secrets, 'readonly', (tx) =>
+    requestToPromise<EncryptedApiKeyRecord | undefined>(tx.objectStore(STORES.secrets).get(API_KEY_ID)),
+  );
+
+/**
+ * Encrypts and stores a Gemini API key, replacing any previously stored key.
+ * @param apiKey The key as entered by the user.
+ * @returns A promise that resolves with the stored key's display info.
+ */
+export async function saveApiKey(apiKey: string): Promise<ApiKeyInfo> {
+  requireWebCrypto();
+  const trimmed = apiKey.trim();
+  if (!trimmed) {
+    throw new Error('The API key is empty.');
+  }
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getDeviceKey(), new TextEncoder().encode(trimmed));
+  const record: EncryptedApiKeyRecord = { id: API_KEY_ID, iv, ciphertext, hint: trimmed.slice(-4), savedAt: Date.now() };
+  await withTransaction(STORES.secrets, 'readwrite', (tx) => requestToPromise(tx.objectStore(STORES.secrets).put(record)));
+  return { hint: record.hint, savedAt: record.savedAt };
+}
+
+/**
+ * Decrypts the stored Gemini API key.
+ * @returns A promise that resolves with the key, or null when none is stored or it can no longer be decrypted.
+ */
+export async function loadApiKey(): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return null;
+  }
+  const record = await readEncryptedKey();
+  if (!record) {
+    return null;
+  }
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv }, await getDeviceKey(), record.ciphertext);
+    return new TextDecoder().decode(plaintext);
+  } catch (error) {
+    // The device key was lost (e.g. site data partially cleared); the user has to enter the key again.
+    console.warn('Stored API key could not be decrypted:', error);
+    return null;
+  }
+}
+
+/**
+ * Describes the stored key without decrypting it.
+ * @returns A promise that resolves with the key's hint and save time, or null when no key is stored.
+ */
+export async function getApiKeyInfo(): Promise<ApiKeyInfo | null> {
+  const record = await readEncryptedKey();
+  return record ? { hint: record.hint, savedAt: record.savedAt } : null;
+}
+
+/**
+ * Deletes the stored API key. The device key is kept for the next key.
+ * @returns A promise that resolves once the key is removed.
+ */
+export async function removeApiKey(): Promise<void> {
+  await withTransaction(STORES.secrets, 'readwrite', (tx) => requestToPromise(tx.objectStore(STORES.secrets).delete(API_KEY_ID)));
+}
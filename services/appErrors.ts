@@ -0,0 +1,266 @@
+// services/appErrors.ts
+
+import { ApiError } from '@google/genai';
+
+/**
+ * Stable codes for every failure the app knows how to explain. Analysis codes are also stored in the usage log.
+ */
+export type AppErrorCode =
+  | 'api_key_missing' // No API key in the environment and no way to pick one
+  | 'api_key_selection_failed' // The key picker could not be opened or was dismissed
+  | 'api_key_invalid' // The API rejected the selected key
+  | AnalysisErrorCode
+  | 'camera_permission_denied' // The user or browser blocked camera access
+  | 'camera_not_found' // The device has no camera
+  | 'camera_unavailable' // The camera exists but could not be started
+  | 'image_unreadable' // An uploaded or captured photo could not be decoded
+  | 'vault_locked' // Encrypted data was needed while the app was locked
+  | 'vault_passphrase_invalid' // The passphrase did not unlock the vault
+  | 'unknown';
+
+/**
+ * Codes of failures raised by analysis requests.
+ */
+export type AnalysisErrorCode =
+  | 'cancelled' // The user cancelled the request
+  | 'timeout' // The request ran past its deadline
+  | 'rate_limited' // HTTP 429 / quota exhausted
+  | 'server' // Transient 5xx from the API
+  | 'network' // The request never reached the API
+  | 'model_format'; // The model answered, but not with a usable result
+
+/**
+ * What the user can do about a failure. Error screens render one button per action.
+ */
+export type RecoveryAction =
+  | 'retry' // Try the same thing again
+  | 'select_api_key' // Pick another API key
+  | 'upload_photo' // Upload a photo instead of using the camera
+  | 'retake_photo' // Take or upload a different photo
+  | 'reload' // Reload the app
+  | 'none'; // Nothing to do, e.g. after a cancellation
+
+interface AppErrorOptions {
+  cause?: unknown;
+  userMessage?: string; // Overrides the default message for the code
+}
+
+// Default user-facing message and recovery action for each code.
+const ERROR_GUIDANCE: Record<AppErrorCode, { userMessage: string; recovery: RecoveryAction }> = {
+  api_key_missing: { userMessage: 'An API key is required to use this application. Please select one to proceed.', recovery: 'select_api_key' },
+  api_key_selection_failed: { userMessage: 'No API key was selected. Please select one to proceed.', recovery: 'select_api_key' },
+  api_key_invalid: { userMessage: 'The API key is invalid or selection was cancelled. Please select a valid API key.', recovery: 'select_api_key' },
+  cancelled: { userMessage: 'Analysis was cancelled.', recovery: 'none' },
+  timeout: { userMessage: 'The analysis took too long and was stopped. Please check your connection and try again.', recovery: 'retry' },
+  rate_limited: { userMessage: 'The AI service is busy right now (rate limit reached). Please wait a minute and try again.', recovery: 'retry' },
+  server: { userMessage: 'The AI service is temporarily unavailable. Please try again in a few minutes.', recovery: 'retry' },
+  network: { userMessage: 'Could not reach the AI service. Please check your internet connection and try again.', recovery: 'retry' },
+  model_format: { userMessage: 'The AI returned an unexpected response. Please try again, ideally with a clearer, well-lit photo.', recovery: 'retry' },
+  camera_permission_denied: { userMessage: 'Camera access denied. Please grant permission in your browser settings or upload an image.', recovery: 'upload_photo' },
+  camera_not_found: { userMessage: 'No camera found on your device. Please upload an image manually.', recovery: 'upload_photo' },
+  camera_unavailable: { userMessage: 'The camera could not be started. Please upload an image manually.', recovery: 'upload_photo' },
+  image_unreadable: { userMessage: 'This photo could not be read. Please try a different JPEG or PNG image.', recovery: 'retake_photo' },
+  vault_locked: { userMessage: 'The app is locked. Enter your passphrase to continue.', recovery: 'reload' },
+  vault_passphrase_invalid: { userMessage: 'That passphrase is not correct.', recovery: 'none' },
+  unknown: { userMessage: 'Something went wrong. Please try again.', recovery: 'reload' },
+};
+
+/**
+ * Base class of all errors the UI can explain: each has a code, a message for the user and a recovery action.
+ * `message` stays technical and is meant for logs.
+ */
+export class AppError extends Error {
+  readonly code: AppErrorCode;
+  readonly userMessage: string;
+  readonly recovery: RecoveryAction;
+
+  constructor(code: AppErrorCode, message: string, options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AppError';
+    this.code = code;
+    this.userMessage = options.userMessage ?? ERROR_GUIDANCE[code].userMessage;
+    this.recovery = ERROR_GUIDANCE[code].recovery;
+  }
+}
+
+/**
+ * The API key is missing, could not be selected or was rejected.
+ */
+export class AuthError extends AppError {
+  constructor(code: 'api_key_missing' | 'api_key_selection_failed' | 'api_key_invalid', message: string, options?: AppErrorOptions) {
+    super(code, message, options);
+    this.name = 'AuthError';
+  }
+}
+
+// Codes that are worth retrying automatically.
+const RETRYABLE_CODES: AppErrorCode[] = ['rate_limited', 'server', 'network'];
+
+/**
+ * Base class of errors raised by analysis requests.
+ */
+export class AnalysisError extends AppError {
+  declare readonly code: AnalysisErrorCode;
+  readonly status?: number; // HTTP status when the API responded
+
+  constructor(code: AnalysisErrorCode, message: string, options: AppErrorOptions & { status?: number } = {}) {
+    super(code, message, options);
+    this.name = 'AnalysisError';
+    this.status = options.status;
+  }
+
+  /** Whether the failure is transient and the request may succeed if retried. */
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+/** The user cancelled the analysis. */
+export class CancelledError extends AnalysisError {
+  constructor(message = 'Analysis was cancelled.', options?: AppErrorOptions) {
+    super('cancelled', message, options);
+    this.name = 'CancelledError';
+  }
+}
+
+/** The analysis ran past its deadline, or the API reported a timeout. */
+export class AnalysisTimeoutError extends AnalysisError {
+  constructor(message: string, options?: AppErrorOptions & { status?: number }) {
+    super('timeout', message, options);
+    this.name = 'AnalysisTimeoutError';
+  }
+}
+
+/** The API rejected the request because of rate limits or an exhausted quota. */
+export class QuotaError extends AnalysisError {
+  constructor(message: string, options?: AppErrorOptions & { status?: number }) {
+    super('rate_limited', message, options);
+    this.name = 'QuotaError';
+  }
+}
+
+/** The API failed with a transient server error. */
+export class ServerError extends AnalysisError {
+  constructor(message: string, options?: AppErrorOptions & { status?: number }) {
+    super('server', message, options);
+    this.name = 'ServerError';
+  }
+}
+
+/** The request never reached the API. */
+export class NetworkError extends AnalysisError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super('network', message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The model answered, but the response could not be parsed or validated. */
+export class MalformedResponseError extends AnalysisError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super('model_format', message, options);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/**
+ * The camera could not be used.
+ */
+export class CameraError extends AppError {
+  constructor(code: 'camera_permission_denied' | 'camera_not_found' | 'camera_unavailable', message: string, options?: AppErrorOptions) {
+    super(code, message, options);
+    this.name = 'CameraError';
+  }
+}
+
+/**
+ * A photo could not be decoded or processed.
+ */
+export class ImageProcessingError extends AppError {
+  constructor(message: string, options?: AppErrorOptions) {
+    super('image_unreadable', message, options);
+    this.name = 'ImageProcessingError';
+  }
+}
+
+/**
+ * The passphrase vault is locked, or a passphrase did not match.
+ */
+export class VaultError extends AppError {
+  constructor(code: 'vault_locked' | 'vault_passphrase_invalid', message: string, options?: AppErrorOptions) {
+    super(code, message, options);
+    this.name = 'VaultError';
+  }
+}
+
+const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+const isNetworkError = (error: any): boolean =>
+  error instanceof TypeError && /fetch|network|load failed/i.test(error.message ?? '');
+
+/**
+ * Maps an arbitrary error thrown during an analysis request to an AnalysisError.
+ * Errors that are not recognized (e.g. API key errors) are returned unchanged so existing handlers still see them.
+ * @param error The caught error.
+ * @param signal The request's abort signal; its reason decides between cancellation and timeout.
+ * @returns The classified error, or the original error if it could not be classified.
+ */
+export function classifyAnalysisError(error: unknown, signal?: AbortSignal): unknown {
+  if (error instanceof AppError) {
+    return error;
+  }
+  if (signal?.aborted) {
+    return signal.reason instanceof AnalysisError ? signal.reason : new CancelledError(undefined, { cause: error });
+  }
+  if (isAbortError(error)) {
+    return new CancelledError(undefined, { cause: error });
+  }
+  if (error instanceof ApiError) {
+    if (error.status === 429) {
+      return new QuotaError('The AI service is receiving too many requests.', { status: error.status, cause: error });
+    }
+    if (error.status === 408) {
+      return new AnalysisTimeoutError('The AI service timed out.', { status: error.status, cause: error });
+    }
+    if (error.status >= 500) {
+      return new ServerError(`The AI service is temporarily unavailable (HTTP ${error.status}).`, { status: error.status, cause: error });
+    }
+    return error;
+  }
+  if (isNetworkError(error)) {
+    return new NetworkError('Could not reach the AI service.', { cause: error });
+  }
+  return error;
+}
+
+/**
+ * Maps a getUserMedia failure to a CameraError.
+ * @param error The DOMException (or other error) from getUserMedia.
+ * @returns The classified error.
+ */
+export function classifyCameraError(error: any): CameraError {
+  if (error?.name === 'NotAllowedError' || error?.name === 'PermissionDeniedError') {
+    return new CameraError('camera_permission_denied', `Camera access denied: ${error.message}`, { cause: error });
+  }
+  if (error?.name === 'NotFoundError') {
+    return new CameraError('camera_not_found', 'No camera found.', { cause: error });
+  }
+  return new CameraError('camera_unavailable', `Failed to access camera: ${error?.message}`, {
+    cause: error,
+    userMessage: `Failed to access camera: ${error?.message}. Please upload an image manually.`,
+  });
+}
+
+/**
+ * Converts anything thrown into an AppError so the UI can always show a message and a recovery action.
+ * @param error The caught value.
+ * @returns The error itself when it is already an AppError, its analysis classification, or an 'unknown' AppError.
+ */
+export function toAppError(error: unknown): AppError {
+  const classified = classifyAnalysisError(error);
+  if (classified instanceof AppError) {
+    return classified;
+  }
+  const message = (error as any)?.message ?? String(error);
+  return new AppError('unknown', message, { cause: error, userMessage: `Something went wrong: ${message}` });
+}
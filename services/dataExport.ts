@@ -0,0 +1,376 @@
+// services/dataExport.ts
+
+import { AppSettings, SkinAnalysisResult, SkinGoal, StoredScan, StoredScanView } from '../types';
+import { toHealthGoal } from '../utils/goalUtils';
+import { createZip, readZip, ZipEntry } from '../utils/zip';
+import { MalformedResponseError } from './appErrors';
+import { isProviderId } from './analysisProvider';
+import { STORES, requestToPromise, withTransaction } from './database';
+import { listGoals } from './goalRepository';
+import { METRIC_KEYS, isMetricKey } from './metricRegistry';
+import { SAMPLE_COUNT_OPTIONS } from './repeatSampling';
+import { listScans } from './scanRepository';
+import { getSettings, updateSettings } from './settingsService';
+import { validateSkinAnalysis } from './skinAnalysisSchema';
+import { sealRecord } from './vault';
+
+// Identifies exported files, so unrelated JSON is not mistaken for an export.
+const EXPORT_FORMAT = 'ai-skin-health-tracker-export';
+
+/**
+ * Version of the export layout. Bump it when the layout changes and add a step to EXPORT_MIGRATIONS.
+ */
+export const EXPORT_SCHEMA_VERSION = 2;
+
+// Oldest export version that can still be upgraded by EXPORT_MIGRATIONS.
+const OLDEST_SCHEMA_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+
+/**
+ * A side view in an export. In archives `photo` is the path of its image; JSON exports leave photos out.
+ */
+export type ExportedScanView = Omit<StoredScanView, 'imageBase64'> & { photo?: string };
+
+/**
+ * A scan in an export. In archives `photo` is the path of the front image; JSON exports leave photos out.
+ */
+export type ExportedScan = Omit<StoredScan, 'imageBase64' | 'sideViews'> & { photo?: string; sideViews?: ExportedScanView[] };
+
+/**
+ * Everything the user created: the JSON export and the manifest of an archive. API keys, usage records and
+ * cached analyses are not included.
+ */
+export interface DataExport {
+  format: typeof EXPORT_FORMAT;
+  schemaVersion: typeof EXPORT_SCHEMA_VERSION;
+  exportedAt: number;
+  scans: ExportedScan[];
+  goals: SkinGoal[];
+  settings: AppSettings;
+}
+
+/**
+ * Layout of version 1 exports, whose goals stored baseline and target as raw model scores.
+ */
+type DataExportV1 = Omit<DataExport, 'schemaVersion'> & { schemaVersion: 1 };
+
+/**
+ * An export of any version that can still be imported.
+ */
+type VersionedDataExport = DataExportV1 | DataExport;
+
+/**
+ * What an import added and skipped.
+ */
+export interface ImportSummary {
+  scansImported: number;
+  scansSkipped: number; // Already on this device
+  scansInvalid: number; // Missing their photo or required fields, or with a result that cannot be repaired
+  goalsImported: number;
+  goalsSkipped: number;
+  goalsInvalid: number; // With an unknown metric or missing scores or dates
+  settingsRestored: boolean; // Whether any setting was taken from the archive
+  settingsInvalid: number; // Unknown settings or values of the wrong type, which were left out
+}
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * Checks an imported goal before it is migrated or stored: goals with an unknown metric or missing scores or dates
+ * would break the analytics page.
+ */
+const isValidGoal = (goal: unknown): goal is SkinGoal =>
+  isRecord(goal) &&
+  typeof goal.id === 'string' &&
+  isMetricKey(goal.metric) &&
+  typeof goal.baselineScanId === 'string' &&
+  ['baselineScore', 'targetDelta', 'baselineAt', 'deadline', 'createdAt'].every((field) => isFiniteNumber(goal[field])) &&
+  (goal.archivedAt === undefined || isFiniteNumber(goal.archivedAt));
+
+// Checks the value of each setting an archive may restore. Settings not listed here are not restored.
+const SETTING_VALIDATORS: { [K in keyof Required<AppSettings>]: (value: unknown) => boolean } = {
+  analysisProvider: isProviderId,
+  metricPreferences: (value) =>
+    isRecord(value) && Object.entries(value).every(([key, enabled]) => isMetricKey(key) && typeof enabled === 'boolean'),
+  analysisSamples: (value) => SAMPLE_COUNT_OPTIONS.includes(value as number),
+  language: (value) => typeof value === 'string' && value !== '',
+  modelPrices: (value) =>
+    isRecord(value) &&
+    Object.values(value).every(
+      (price) => isRecord(price) && isFiniteNumber(price.inputPerMillion) && isFiniteNumber(price.outputPerMillion),
+    ),
+  monthlyBudget: (value) => isFiniteNumber(value) && value > 0,
+  photoRetentionDays: isPositiveInteger,
+  vaultAutoLockMinutes: isPositiveInteger,
+};
+
+// Upgrades an export from the version it is keyed by to the next one. Steps run in order up to the current version.
+const EXPORT_MIGRATIONS: { 1: (data: DataExportV1) => DataExport } = {
+  // Version 2 stores goals on the health axis instead of raw model scores. Malformed goals are left for the import
+  // to reject.
+  1: (data) => ({ ...data, schemaVersion: 2, goals: data.goals.map((goal) => (isValidGoal(goal) ? toHealthGoal(goal) : goal)) }),
+};
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+};
+
+const photoPath = (scanId: string, view: string, mimeType: string) => `photos/${scanId}-${view}.${PHOTO_EXTENSIONS[mimeType] ?? 'bin'}`;
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large photos do not exceed the argument limit of String.fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Collects scans (oldest first), goals including archived ones, and settings into an export.
+ * @param withPhotoPaths Whether scans reference their photos by archive path.
+ */
+const buildDataExport = async (withPhotoPaths: boolean): Promise<{ data: DataExport; scans: StoredScan[] }> => {
+  const [scans, goals] = await Promise.all([listScans(), listGoals(true)]);
+  scans.reverse();
+  const exportedScans = scans.map(({ imageBase64, sideViews, ...scan }): ExportedScan => ({
+    ...scan,
+    photo: withPhotoPaths && imageBase64 ? photoPath(scan.id, 'front', scan.mimeType) : undefined,
+    sideViews: sideViews?.map(({ imageBase64: viewImage, ...view }) => ({
+      ...view,
+      photo: withPhotoPaths && viewImage ? photoPath(scan.id, view.view, view.mimeType) : undefined,
+    })),
+  }));
+  return {
+    data: { format: EXPORT_FORMAT, schemaVersion: EXPORT_SCHEMA_VERSION, exportedAt: Date.now(), scans: exportedScans, goals, settings: getSettings() },
+    scans,
+  };
+};
+
+/**
+ * Exports every scan result, the goals and the settings as JSON. Photos are not included.
+ * @returns A promise that resolves with the JSON file.
+ */
+export async function exportDataAsJson(): Promise<Blob> {
+  const { data } = await buildDataExport(false);
+  return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+}
+
+const csvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Exports one row per scan (oldest first) with one column per metric score, for spreadsheets.
+ * Metrics a scan did not measure are left empty.
+ * @returns A promise that resolves with the CSV file.
+ */
+export async function exportScansAsCsv(): Promise<Blob> {
+  const scans = (await listScans()).reverse();
+  const header = ['id', 'createdAt', 'capturedAt', 'overallScore', 'skinType', 'fitzpatrickScale', ...METRIC_KEYS];
+  const rows = scans.map((scan) => [
+    scan.id,
+    new Date(scan.createdAt).toISOString(),
+    scan.capturedAt ? new Date(scan.capturedAt).toISOString() : undefined,
+    scan.result.overallScore,
+    scan.result.skinType,
+    scan.result.fitzpatrickScale,
+    ...METRIC_KEYS.map((key) => scan.result.issues[key]?.score),
+  ]);
+  const lines = [header, ...rows].map((row) => row.map(csvCell).join(','));
+  return new Blob([lines.join('\r\n') + '\r\n'], { type: 'text/csv' });
+}
+
+/**
+ * Exports a ZIP archive with the original photos and a manifest.json holding everything in the JSON export.
+ * The archive can be restored on another device with `importDataArchive`.
+ * @returns A promise that resolves with the archive.
+ */
+export async function exportDataArchive(): Promise<Blob> {
+  const { data, scans } = await buildDataExport(true);
+  const entries: ZipEntry[] = [
+    { name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(data, null, 2)), modifiedAt: data.exportedAt },
+  ];
+  // Photos deleted by the user or the retention setting have no path and stay deleted.
+  scans.forEach((scan, index) => {
+    const exported = data.scans[index];
+    if (exported.photo) {
+      entries.push({ name: exported.photo, data: base64ToBytes(scan.imageBase64!), modifiedAt: scan.createdAt });
+    }
+    scan.sideViews?.forEach((view, viewIndex) => {
+      const path = exported.sideViews![viewIndex].photo;
+      if (path) {
+        entries.push({ name: path, data: base64ToBytes(view.imageBase64!), modifiedAt: scan.createdAt });
+      }
+    });
+  });
+  return createZip(entries);
+}
+
+/**
+ * Checks an export's format and upgrades it to the current schema version.
+ * @param raw The parsed manifest or JSON export.
+ * @returns The export in the current layout.
+ * @throws Error when the data is not an export or was written by a newer version of the app.
+ */
+export function migrateDataExport(raw: unknown): DataExport {
+  if (!isRecord(raw) || raw.format !== EXPORT_FORMAT || !Number.isInteger(raw.schemaVersion)) {
+    throw new Error('This file is not a data export from this app.');
+  }
+  if (raw.schemaVersion > EXPORT_SCHEMA_VERSION) {
+    throw new Error('This export was created by a newer version of the app. Update the app and try again.');
+  }
+  if (raw.schemaVersion < OLDEST_SCHEMA_VERSION) {
+    throw new Error(`Exports of version ${raw.schemaVersion} can no longer be imported.`);
+  }
+  // Sections missing from older exports are filled in, and entries that are not objects are left out, so the
+  // migrations only see well-formed sections.
+  let data = {
+    ...raw,
+    scans: Array.isArray(raw.scans) ? raw.scans.filter(isRecord) : [],
+    goals: Array.isArray(raw.goals) ? raw.goals.filter(isRecord) : [],
+    settings: isRecord(raw.settings) ? raw.settings : {},
+  } as VersionedDataExport;
+  while (data.schemaVersion !== EXPORT_SCHEMA_VERSION) {
+    data = EXPORT_MIGRATIONS[data.schemaVersion](data);
+  }
+  return data;
+}
+
+/**
+ * Validates an imported analysis result the way model responses are validated, repairing what can be repaired.
+ * Only the metrics the result contains are checked. Fields the schema does not describe (validation report,
+ * uncertainty, cache time, prompt) are kept as exported.
+ * @returns The repaired result, or null when it is malformed beyond repair.
+ */
+const restoreResult = (result: unknown): SkinAnalysisResult | null => {
+  if (!isRecord(result) || !isRecord(result.issues)) {
+    return null;
+  }
+  const metrics = METRIC_KEYS.filter((key) => result.issues[key] !== undefined);
+  try {
+    return { ...(result as SkinAnalysisResult), ...validateSkinAnalysis(result, metrics) };
+  } catch (error) {
+    if (error instanceof MalformedResponseError) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Rebuilds a stored scan from its manifest entry and the archive's photos. Scans whose photos were deleted before
+ * the export have no photo path and are restored without them.
+ * @returns The scan, or null when required fields or a referenced photo are missing.
+ */
+const restoreScan = (scan: ExportedScan, files: Map<string, Uint8Array>): StoredScan | null => {
+  const photo = scan.photo ? files.get(scan.photo) : undefined;
+  const result = restoreResult(scan.result);
+  if (typeof scan.id !== 'string' || typeof scan.createdAt !== 'number' || !result || (scan.photo && !photo)) {
+    return null;
+  }
+  const sideViews: StoredScanView[] = [];
+  for (const { photo: path, ...view } of scan.sideViews ?? []) {
+    const data = path ? files.get(path) : undefined;
+    if (path && !data) {
+      return null;
+    }
+    sideViews.push(data ? { ...view, imageBase64: bytesToBase64(data) } : view);
+  }
+  const { photo: _, sideViews: __, ...fields } = scan;
+  return {
+    ...fields,
+    result,
+    ...(photo ? { imageBase64: bytesToBase64(photo) } : {}),
+    sideViews: sideViews.length ? sideViews : undefined,
+  };
+};
+
+/**
+ * Restores an archive made by `exportDataArchive`, e.g. on a new device. Scans and goals that already exist
+ * (same id, or a scan with the same time and photo) are skipped; settings already made on this device are kept.
+ * @param archive The ZIP file.
+ * @returns A promise that resolves with what was imported and skipped.
+ * @throws Error when the file is not a valid archive; nothing is imported in that case.
+ */
+export async function importDataArchive(archive: Blob): Promise<ImportSummary> {
+  const files = await readZip(await archive.arrayBuffer());
+  const manifest = files.get(MANIFEST_PATH);
+  if (!manifest) {
+    throw new Error('The archive has no manifest.json. Choose an archive exported by this app.');
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(manifest));
+  } catch {
+    throw new Error('The archive manifest is not valid JSON.');
+  }
+  const data = migrateDataExport(parsed);
+
+  const [existingScans, existingGoals] = await Promise.all([listScans(), listGoals(true)]);
+  const scanIds = new Set(existingScans.map((scan) => scan.id));
+  const scanFingerprints = new Set(existingScans.map((scan) => `${scan.createdAt}:${scan.imageBase64}`));
+  const goalIds = new Set(existingGoals.map((goal) => goal.id));
+
+  const summary: ImportSummary = {
+    scansImported: 0,
+    scansSkipped: 0,
+    scansInvalid: 0,
+    goalsImported: 0,
+    goalsSkipped: 0,
+    goalsInvalid: 0,
+    settingsRestored: false,
+    settingsInvalid: 0,
+  };
+  const scans: StoredScan[] = [];
+  for (const exported of data.scans) {
+    const scan = restoreScan(exported, files);
+    if (!scan) {
+      summary.scansInvalid++;
+    } else if (scanIds.has(scan.id) || scanFingerprints.has(`${scan.createdAt}:${scan.imageBase64}`)) {
+      summary.scansSkipped++;
+    } else {
+      scanIds.add(scan.id);
+      scans.push(scan);
+    }
+  }
+  const validGoals = data.goals.filter(isValidGoal);
+  const goals = validGoals.filter((goal) => !goalIds.has(goal.id));
+  summary.scansImported = scans.length;
+  summary.goalsImported = goals.length;
+  summary.goalsSkipped = validGoals.length - goals.length;
+  summary.goalsInvalid = data.goals.length - validGoals.length;
+
+  // Encrypted up front when the app lock is on, then written in one transaction so a failed import leaves nothing
+  // half-restored.
+  const scanRecords = await Promise.all(scans.map((scan) => sealRecord(STORES.scans, scan)));
+  await withTransaction([STORES.scans, STORES.goals], 'readwrite', (tx) =>
+    Promise.all([
+      ...scanRecords.map((record) => requestToPromise(tx.objectStore(STORES.scans).put(record))),
+      ...goals.map((goal) => requestToPromise(tx.objectStore(STORES.goals).put(goal))),
+    ]),
+  );
+
+  const current = getSettings();
+  const validSettings = Object.entries(data.settings).filter(
+    ([key, value]) => Object.hasOwn(SETTING_VALIDATORS, key) && SETTING_VALIDATORS[key as keyof AppSettings](value),
+  );
+  summary.settingsInvalid = Object.keys(data.settings).length - validSettings.length;
+  const restored = Object.fromEntries(validSettings.filter(([key]) => current[key as keyof AppSettings] === undefined));
+  if (Object.keys(restored).length > 0) {
+    updateSettings(restored);
+    summary.settingsRestored = true;
+  }
+  return summary;
+}
@@ -0,0 +1,100 @@
+// services/dataRetention.ts
+
+import { ScanView, StoredScan } from '../types';
+import { DAY_MS } from '../utils/dateUtils';
+import { forgetCachedAnalyses } from './analysisCache';
+import { clearDatabase } from './database';
+import { deleteScan, getScan, listScans, updateScan } from './scanRepository';
+import { getSettings, resetSettings } from './settingsService';
+import { lockVault } from './vault';
+
+/**
+ * Choices offered for automatic photo deletion, in days.
+ */
+export const PHOTO_RETENTION_OPTIONS = [30, 90, 365];
+
+const photosOf = (scan: StoredScan): string[] =>
+  [scan.imageBase64, ...(scan.sideViews ?? []).map((view) => view.imageBase64)].filter((photo): photo is string => Boolean(photo));
+
+/**
+ * Returns the scan without the photo of the given view. Landmarks are derived from the front photo and go with it.
+ */
+const withoutPhoto = (scan: StoredScan, view: ScanView): StoredScan => {
+  if (view === 'front') {
+    const { imageBase64, landmarks, ...rest } = scan;
+    return rest;
+  }
+  return {
+    ...scan,
+    sideViews: scan.sideViews?.map((sideView) => {
+      if (sideView.view !== view) {
+        return sideView;
+      }
+      const { imageBase64, landmarks, ...rest } = sideView;
+      return rest;
+    }),
+  };
+};
+
+/**
+ * Deletes a scan with its photos and every cached analysis of those photos. Goals keep their own copy of the
+ * baseline score, so goals based on the scan keep working.
+ * @param id The scan id.
+ * @returns A promise that resolves once the scan is gone.
+ */
+export async function removeScan(id: string): Promise<void> {
+  const scan = await deleteScan(id);
+  if (scan) {
+    await forgetCachedAnalyses(photosOf(scan));
+  }
+}
+
+/**
+ * Deletes one photo of a scan, keeping its analysis result and quality scores, and forgets cached analyses of it.
+ * @param id The scan id.
+ * @param view The photo to delete; 'front' is the main photo.
+ * @returns A promise that resolves with the updated scan, or undefined if the scan does not exist.
+ */
+export async function removeScanPhoto(id: string, view: ScanView): Promise<StoredScan | undefined> {
+  const scan = await getScan(id);
+  if (!scan) {
+    return undefined;
+  }
+  const updated = withoutPhoto(scan, view);
+  await updateScan(updated);
+  const removed = photosOf(scan).filter((photo) => !photosOf(updated).includes(photo));
+  await forgetCachedAnalyses(removed);
+  return updated;
+}
+
+/**
+ * Deletes the photos of scans older than the retention period in settings, keeping their results.
+ * Does nothing when no retention period is set.
+ * @param now Current time in epoch milliseconds.
+ * @returns A promise that resolves with the number of scans whose photos were deleted.
+ */
+export async function applyPhotoRetention(now = Date.now()): Promise<number> {
+  const { photoRetentionDays } = getSettings();
+  if (!photoRetentionDays) {
+    return 0;
+  }
+  const cutoff = now - photoRetentionDays * DAY_MS;
+  const expired = (await listScans()).filter((scan) => scan.createdAt < cutoff && photosOf(scan).length > 0);
+  for (const scan of expired) {
+    const stripped = (scan.sideViews ?? []).reduce((result, sideView) => withoutPhoto(result, sideView.view), withoutPhoto(scan, 'front'));
+    await updateScan(stripped);
+  }
+  await forgetCachedAnalyses(expired.flatMap(photosOf));
+  return expired.length;
+}
+
+/**
+ * Deletes everything the app stored on this device: scans and photos, goals, cached analyses, usage records,
+ * the saved API key with its encryption key, the app lock, and settings.
+ * @returns A promise that resolves once all data is gone.
+ */
+export async function deleteAllData(): Promise<void> {
+  await clearDatabase();
+  lockVault();
+  resetSettings();
+}
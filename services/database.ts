@@ -0,0 +1,149 @@
+// services/database.ts
+
+import { SkinGoal } from '../types';
+import { toHealthGoal } from '../utils/goalUtils';
+
+// Name and version of the IndexedDB database holding all locally persisted app data.
+const DB_NAME = 'ai-skin-health-tracker';
+const DB_VERSION = 6;
+
+/**
+ * Object store names. Each store is created in `upgradeDatabase` when the version is bumped.
+ */
+export const STORES = {
+  scans: 'scans',
+  goals: 'goals',
+  analysisCache: 'analysisCache',
+  apiUsage: 'apiUsage',
+  secrets: 'secrets',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Creates or migrates object stores. Each `oldVersion` step only adds what that version introduced,
+ * so databases created by any earlier version are upgraded in place.
+ */
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => {
+  if (oldVersion < 1) {
+    const scans = db.createObjectStore(STORES.scans, { keyPath: 'id' });
+    scans.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.goals, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    const cache = db.createObjectStore(STORES.analysisCache, { keyPath: 'key' });
+    cache.createIndex('lastUsedAt', 'lastUsedAt');
+  }
+  if (oldVersion < 4) {
+    const usage = db.createObjectStore(STORES.apiUsage, { keyPath: 'id' });
+    usage.createIndex('timestamp', 'timestamp');
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.secrets, { keyPath: 'id' });
+  }
+  if (oldVersion < 6) {
+    // Goals moved from raw model scores to the health axis.
+    const goals = transaction.objectStore(STORES.goals).openCursor();
+    goals.onsuccess = () => {
+      const cursor = goals.result;
+      if (cursor) {
+        cursor.update(toHealthGoal(cursor.value as SkinGoal));
+        cursor.continue();
+      }
+    };
+  }
+};
+
+/**
+ * Opens (and caches) the app database, creating or upgrading stores as needed.
+ * @returns A promise that resolves with the open IDBDatabase.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser. Scan history cannot be saved.'));
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      upgradeDatabase(request.result, event.oldVersion, request.transaction!);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop our handle so the next call reopens it.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onblocked = () => {
+      console.warn('Database upgrade is blocked by another open tab.');
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Wraps an IDBRequest in a promise.
+ * @param request The request to wait for.
+ * @returns A promise that resolves with the request result.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs `work` inside a transaction over the given stores and resolves once the transaction commits.
+ * @param storeNames The store or stores the transaction spans.
+ * @param mode 'readonly' or 'readwrite'.
+ * @param work Callback that issues requests against the transaction and returns the value to resolve with.
+ * @returns A promise that resolves with the value produced by `work` after the transaction completes.
+ */
+export async function withTransaction<T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T> | T,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+  });
+  try {
+    const result = await work(transaction);
+    await completed;
+    return result;
+  } catch (error) {
+    // `work` failed first; the transaction may still abort afterwards, which must not surface as an unhandled rejection.
+    completed.catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Deletes every record in every store. The stores themselves are kept, so the app keeps working afterwards.
+ * @returns A promise that resolves once all stores are empty.
+ */
+export async function clearDatabase(): Promise<void> {
+  const storeNames = Object.values(STORES);
+  await withTransaction(storeNames, 'readwrite', (tx) =>
+    Promise.all(storeNames.map((name) => requestToPromise(tx.objectStore(name).clear()))),
+  );
+}
@@ -1,11 +1,29 @@
 // services/geminiService.ts
 
-import { GoogleGenAI, Type, Modality, GenerateContentResponse } from '@google/genai';
-import { SkinAnalysisResult } from '../types';
+import { ApiError, GoogleGenAI, Type, Modality, GenerateContentResponse, GenerateContentResponseUsageMetadata } from '@google/genai';
+import { AnalysisImage, ApiCallRecord, SkinAnalysisResult } from '../types';
+import { getAnalysisLanguage } from '../utils/locale';
+import { getViewLabel } from '../utils/scanViews';
+import { SchemaNode } from '../utils/schema';
+import { AnalysisProvider } from './analysisProvider';
+import { analyzeViaProxy } from './analysisProxy';
+import { AnalyzeOptions, runAnalysisRequest } from './analysisRequest';
+import { loadApiKey } from './apiKeyStore';
+import { AnalysisError, AuthError, CancelledError, MalformedResponseError, classifyAnalysisError } from './appErrors';
+import { getEnabledMetrics } from './metricRegistry';
+import { PromptContext, PromptTemplate, describePrompt, selectPromptTemplate } from './promptTemplates';
+import { buildSkinAnalysisSchema, validateSkinAnalysis } from './skinAnalysisSchema';
+import { recordApiCall } from './usageRepository';
 
 // Billing documentation link for API Key selection, as per guidelines.
 const API_KEY_BILLING_LINK = 'https://ai.google.dev/gemini-api/docs/billing';
 
+// Model used for analysis unless overridden by the GEMINI_MODEL env variable.
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-image';
+
+// Error text returned by the API when the selected key (or its project) no longer exists.
+const API_KEY_NOT_FOUND_MESSAGE = 'Requested entity was not found.';
+
 // FIX 1: Move AIStudio interface inside declare global to ensure its scope is tied to the global augmentation.
 // This might prevent subtle duplicate identifier issues if AIStudio was considered global elsewhere.
 declare global {
@@ -28,19 +46,61 @@ let hasUserSelectedApiKeyAssumeSuccess = false; // Tracks if openSelectKey was c
  */
 const isProcessEnvApiKeySet = () => typeof process !== 'undefined' && typeof process.env !== 'undefined' && process.env.API_KEY;
 
+/**
+ * Reads the key saved under Settings, treating storage failures as no key.
+ */
+const loadStoredApiKey = (): Promise<string | null> =>
+  loadApiKey().catch((error) => {
+    console.warn('Could not read the stored API key:', error);
+    return null;
+  });
+
+/**
+ * Resolves the API key to use: the key saved under Settings first, then the one provided through the environment
+ * (a build-time key or AI Studio's selected key).
+ */
+const resolveApiKey = async (): Promise<string | null> => (await loadStoredApiKey()) || (isProcessEnvApiKeySet() ? process.env.API_KEY! : null);
+
+/**
+ * Whether an API error means the key itself was rejected rather than the request.
+ */
+const isApiKeyRejection = (error: any): boolean =>
+  Boolean(error?.message?.includes(API_KEY_NOT_FOUND_MESSAGE)) ||
+  (error instanceof ApiError && (error.status === 401 || error.status === 403 || (error.status === 400 && /api key/i.test(error.message))));
+
+/**
+ * Helper to resolve the Gemini model id, preferring process.env.GEMINI_MODEL when set.
+ */
+const getGeminiModel = (): string =>
+  (typeof process !== 'undefined' && typeof process.env !== 'undefined' && process.env.GEMINI_MODEL) || DEFAULT_GEMINI_MODEL;
+
+/**
+ * Helper to read the server proxy URL from process.env.GEMINI_PROXY_URL, e.g. "/api/analyze".
+ */
+const getProxyUrl = (): string | undefined =>
+  (typeof process !== 'undefined' && typeof process.env !== 'undefined' && process.env.GEMINI_PROXY_URL) || undefined;
+
 /**
  * Checks if an API key is selected and prompts the user to select one if not.
  * This should be called before attempting any Gemini API operations.
- * @returns A promise that resolves if an API key is available or successfully selected,
- *          or rejects if the user needs to select a key.
+ * @returns A promise that resolves if an API key is available or successfully selected.
+ * @throws AuthError 'api_key_missing' when no key can be found or selected, 'api_key_selection_failed' when the picker fails.
  */
 export async function checkAndPromptApiKey(): Promise<void> {
+  if (getProxyUrl()) {
+    return; // The server proxy holds the key.
+  }
+  if (await loadStoredApiKey()) {
+    return; // A key saved under Settings takes precedence over AI Studio's picker.
+  }
   const isAistudioAvailable = typeof window.aistudio !== 'undefined' && typeof window.aistudio.hasSelectedApiKey !== 'undefined';
   
   if (!isAistudioAvailable) {
     if (!isProcessEnvApiKeySet()) {
       console.error('API_KEY is not defined and aistudio is unavailable. Please ensure API_KEY is set or select it via UI if available.');
-      throw new Error('API_KEY_REQUIRED_NO_AISTUDIO');
+      throw new AuthError('api_key_missing', 'API_KEY is not defined, no key is saved and aistudio is unavailable.', {
+        userMessage: 'An API key is required to use this application. Please add one under Settings.',
+      });
     }
     hasUserSelectedApiKeyAssumeSuccess = true; // Assume success if API_KEY is present and aistudio is not needed.
     return;
@@ -58,19 +118,26 @@ export async function checkAndPromptApiKey(): Promise<void> {
       hasUserSelectedApiKeyAssumeSuccess = true; // Assume success after calling openSelectKey
     } catch (error) {
       console.error('Error opening API key selection dialog:', error);
-      throw new Error('API_KEY_SELECTION_FAILED');
+      throw new AuthError('api_key_selection_failed', 'Could not open the API key selection dialog.', { cause: error });
     }
   }
 }
 
 /**
- * Handles API errors, specifically looking for "Requested entity was not found."
- * to re-prompt the user for API key selection.
+ * Handles API errors that mean the key was rejected (e.g. "Requested entity was not found.")
+ * by re-prompting the user for API key selection.
  * @param error The error object.
- * @returns A promise that rejects, or resolves if handling was successful.
+ * @returns A promise that always rejects: with an AuthError when the key was rejected, otherwise with the error unchanged.
  */
-export async function handleApiKeyError(error: any): Promise<void> {
-  if (error.message && error.message.includes('Requested entity was not found.')) {
+export async function handleApiKeyError(error: any): Promise<never> {
+  if (isApiKeyRejection(error)) {
+    if (await loadStoredApiKey()) {
+      // The user entered this key themselves, so AI Studio's picker cannot replace it.
+      throw new AuthError('api_key_invalid', 'The API rejected the saved API key.', {
+        cause: error,
+        userMessage: 'Your saved API key was rejected. Please check or replace it under Settings.',
+      });
+    }
     console.error('API key might be invalid or not selected. Attempting to re-prompt for key selection.');
     hasUserSelectedApiKeyAssumeSuccess = false; // Reset state to force re-selection
     const isAistudioAvailable = typeof window.aistudio !== 'undefined' && typeof window.aistudio.openSelectKey !== 'undefined';
@@ -80,265 +147,257 @@ export async function handleApiKeyError(error: any): Promise<void> {
         hasUserSelectedApiKeyAssumeSuccess = true; // Assume success after re-prompting
       } catch (selectKeyError) {
         console.error('Error re-opening API key selection dialog:', selectKeyError);
-        throw new Error('API_KEY_RESELECTION_FAILED');
+        throw new AuthError('api_key_selection_failed', 'Could not re-open the API key selection dialog.', { cause: selectKeyError });
       }
     } else if (!isProcessEnvApiKeySet()) { // If aistudio is not available, but key is missing after error
-      throw new Error('API_KEY_REQUIRED_NO_AISTUDIO');
+      throw new AuthError('api_key_missing', 'API_KEY is not defined and aistudio is unavailable.', { cause: error });
     }
     // Re-throw to be caught by component for user feedback and UI update.
-    throw new Error('API_KEY_INVALID_OR_UNSELECTED');
+    throw new AuthError('api_key_invalid', 'The API rejected the selected API key.', { cause: error });
   }
   // For other errors, just re-throw.
   throw error;
 }
 
-// JSON schema representation of the SkinAnalysisResult interface
-const skinAnalysisSchema = {
-  type: Type.OBJECT,
-  properties: {
-    overallScore: { type: Type.NUMBER, description: 'Overall skin health score from 0-100, where 100 is excellent.' },
-    skinType: { type: Type.STRING, description: 'Skin type: oily, dry, combination, normal, or unknown.', enum: ['oily', 'dry', 'combination', 'normal', 'unknown'] },
-    fitzpatrickScale: { type: Type.STRING, description: 'Fitzpatrick scale: I, II, III, IV, V, VI, or unknown.', enum: ['I', 'II', 'III', 'IV', 'V', 'VI', 'unknown'] },
-    issues: {
-      type: Type.OBJECT,
-      description: 'Detailed analysis of various skin issues with score, severity, and optional areas.',
-      properties: {
-        acne: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER, description: 'Score for acne severity (0-100).' },
-            severity: { type: Type.STRING, description: 'Severity description (e.g., "low", "medium", "high").' },
-            areas: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional areas affected by acne.' }
-          },
-          required: ['score', 'severity']
-        },
-        wrinkles: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER, description: 'Score for wrinkles severity (0-100).' },
-            severity: { type: Type.STRING, description: 'Severity description.' },
-            areas: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional areas affected by wrinkles.' }
-          },
-          required: ['score', 'severity']
-        },
-        hyperpigmentation: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER, description: 'Score for hyperpigmentation severity (0-100).' },
-            severity: { type: Type.STRING, description: 'Severity description.' },
-            areas: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional areas affected by hyperpigmentation.' }
-          },
-          required: ['score', 'severity']
-        },
-        pores: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER, description: 'Score for pore visibility (0-100).' },
-            severity: { type: Type.STRING, description: 'Severity description.' },
-            areas: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional areas with visible pores.' }
-          },
-          required: ['score', 'severity']
-        },
-        redness: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER, description: 'Score for redness severity (0-100).' },
-            severity: { type: Type.STRING, description: 'Severity description.' },
-            areas: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional areas with redness.' }
-          },
-          required: ['score', 'severity']
-        },
-        texture: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER, description: 'Score for skin texture (0-100, higher is smoother).' },
-            severity: { type: Type.STRING, description: 'Severity description.' },
-            areas: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional areas for texture assessment.' }
-          },
-          required: ['score', 'severity']
-        },
-        hydration: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER, description: 'Score for skin hydration (0-100, higher is more hydrated).' },
-            severity: { type: Type.STRING, description: 'Severity description.' },
-            areas: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional areas for hydration assessment.' }
-          },
-          required: ['score', 'severity']
-        },
-        oiliness: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER, description: 'Score for skin oiliness (0-100, higher is more oily).' },
-            severity: { type: Type.STRING, description: 'Severity description.' },
-            areas: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional areas for oiliness assessment.' }
-          },
-          required: ['score', 'severity']
-        },
-        darkCircles: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER, description: 'Score for dark circles (0-100).' },
-            severity: { type: Type.STRING, description: 'Severity description.' },
-            areas: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional areas for dark circles assessment.' }
-          },
-          required: ['score', 'severity']
-        },
-        symmetry: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER, description: 'Score for facial symmetry (0-100, higher is more symmetrical).' },
-            description: { type: Type.STRING, description: 'A brief description of facial symmetry.' }
-          },
-          required: ['score', 'description']
-        }
-      },
-      required: ['acne', 'wrinkles', 'hyperpigmentation', 'pores', 'redness', 'texture', 'hydration', 'oiliness', 'darkCircles', 'symmetry']
-    },
-    recommendations: {
-      type: Type.OBJECT,
-      description: 'Personalized recommendations for skin care routines and lifestyle tips.',
-      properties: {
-        morningRoutine: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Steps for a morning skincare routine.' },
-        eveningRoutine: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Steps for an evening skincare routine.' },
-        weeklyTreatments: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Suggestions for weekly treatments.' },
-        lifestyleTips: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'General lifestyle advice for skin health.' }
-      },
-      required: ['morningRoutine', 'eveningRoutine', 'weeklyTreatments', 'lifestyleTips']
-    },
-    explainability: { type: Type.STRING, description: 'A concise explanation of the overall findings and reasoning.' }
-  },
-  required: ['overallScore', 'skinType', 'fitzpatrickScale', 'issues', 'recommendations', 'explainability']
+/**
+ * Converts a declarative schema node into the Gemini JSON schema format.
+ * App-only options (fallbacks, droppable) are omitted; number bounds are kept as minimum/maximum.
+ */
+const toGeminiSchema = (node: SchemaNode): Record<string, unknown> => {
+  const base: Record<string, unknown> = node.description ? { description: node.description } : {};
+  switch (node.kind) {
+    case 'number':
+      return {
+        type: Type.NUMBER,
+        ...base,
+        ...(node.min !== undefined ? { minimum: node.min } : {}),
+        ...(node.max !== undefined ? { maximum: node.max } : {}),
+      };
+    case 'string':
+      return { type: Type.STRING, ...base, ...(node.enum ? { enum: [...node.enum] } : {}) };
+    case 'array':
+      return { type: Type.ARRAY, items: toGeminiSchema(node.items), ...base };
+    case 'object':
+      return {
+        type: Type.OBJECT,
+        ...base,
+        properties: Object.fromEntries(Object.entries(node.properties).map(([key, child]) => [key, toGeminiSchema(child)])),
+        required: [...node.required],
+      };
+  }
 };
 
 
 /**
- * Analyzes a base64 encoded image for skin health using the Gemini API.
- * @param base64Image The base64 encoded string of the image (without the 'data:image/jpeg;base64,' prefix).
- * @param mimeType The MIME type of the image (e.g., 'image/jpeg', 'image/png').
- * @returns A promise that resolves to the SkinAnalysisResult.
+ * Strips Markdown fences from the model's text response and parses it as JSON.
+ * @param text The raw response text.
+ * @returns The parsed JSON value.
+ * @throws MalformedResponseError when the text is empty or not valid JSON.
  */
-export async function analyzeSkinImage(
-  base64Image: string,
-  mimeType: string,
-): Promise<SkinAnalysisResult> {
-  if (!isProcessEnvApiKeySet()) {
-    throw new Error('API_KEY is not defined. Please select an API key to proceed.');
+const parseModelJson = (text: string | undefined): unknown => {
+  let jsonStr = (text ?? '').trim();
+  if (!jsonStr) {
+    throw new MalformedResponseError('AI response was empty. Cannot parse JSON.');
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! }); // Use non-null assertion as checked above
+  // Remove Markdown code block fences if present, with or without a (any-case) json language tag
+  jsonStr = jsonStr.replace(/^```(?:json)?/i, '').replace(/```$/, '').trim();
 
-  const prompt = `Analyze the facial skin in this image for the following attributes: overall skin health score (0-100, where 100 is excellent), skin type (oily, dry, combination, normal), Fitzpatrick scale (I-VI), presence and severity of acne, wrinkles, hyperpigmentation, pores, redness, texture (smoothness), hydration, oiliness, dark circles, and facial symmetry. Provide specific areas if possible. 
-
-Respond strictly in JSON format according to the following JSON schema:
-${JSON.stringify(skinAnalysisSchema, null, 2)}`;
+  if (!jsonStr) { // Check again if it became empty after stripping fences
+    throw new MalformedResponseError('AI response contained only markdown fences or was empty after cleaning. Cannot parse JSON.');
+  }
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image', // General image generation and editing tasks
-      contents: {
-        parts: [
-          { text: prompt },
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image,
-            },
-          },
-        ],
-      },
-      // Removed responseMimeType and responseSchema as they are not supported by gemini-2.5-flash-image
-      // as per guidelines for general image generation and editing tasks.
-      // The prompt itself instructs the model to return JSON.
-    });
+    return JSON.parse(jsonStr);
+  } catch (parseError: any) {
+    console.error('JSON parsing failed:', parseError);
+    throw new MalformedResponseError(`AI response is not valid JSON. Details: ${parseError.message}. Raw response: ${jsonStr}`, { cause: parseError });
+  }
+};
 
-    let jsonStr = response.text.trim();
-    if (!jsonStr) {
-      throw new Error('AI response was empty. Cannot parse JSON.');
-    }
+/**
+ * A model call to record in the usage log, before it is given an id.
+ */
+export type ApiCallLog = Omit<ApiCallRecord, 'id'>;
 
-    // Remove Markdown code block fences if present
-    if (jsonStr.startsWith('```json')) {
-      jsonStr = jsonStr.substring('```json'.length);
-    }
-    if (jsonStr.endsWith('```')) {
-      jsonStr = jsonStr.substring(0, jsonStr.length - '```'.length);
-    }
-    jsonStr = jsonStr.trim(); // Trim again after removing fences
-    
-    if (!jsonStr) { // Check again if it became empty after stripping fences
-      throw new Error('AI response contained only markdown fences or was empty after cleaning. Cannot parse JSON.');
-    }
+/**
+ * Describes one generateContent attempt for the usage log.
+ */
+const describeApiCall = ({ model, startedAt, outcome, errorKind, usage }: {
+  model: string;
+  startedAt: number;
+  outcome: ApiCallRecord['outcome'];
+  errorKind?: string;
+  usage?: GenerateContentResponseUsageMetadata;
+}): ApiCallLog => ({
+  timestamp: startedAt,
+  provider: 'gemini',
+  model,
+  inputTokens: usage?.promptTokenCount ?? null,
+  outputTokens: usage ? (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0) : null,
+  latencyMs: Date.now() - startedAt,
+  outcome,
+  errorKind,
+});
 
-    let parsedResult: SkinAnalysisResult;
-    try {
-      parsedResult = JSON.parse(jsonStr) as SkinAnalysisResult;
-    } catch (parseError: any) {
-      console.error('JSON parsing failed:', parseError);
-      throw new Error(`AI response is not valid JSON. Details: ${parseError.message}. Raw response: ${jsonStr}`);
-    }
+/**
+ * Records a model call in this browser's usage log without ever failing the analysis.
+ */
+const logApiCall = (call: ApiCallLog) => {
+  recordApiCall(call).catch((error) => console.warn('Could not record API usage:', error));
+};
 
-    // Validate essential properties to prevent TypeError later
-    if (
-      !parsedResult ||
-      typeof parsedResult.overallScore !== 'number' ||
-      !['oily', 'dry', 'combination', 'normal', 'unknown'].includes(parsedResult.skinType) ||
-      !['I', 'II', 'III', 'IV', 'V', 'VI', 'unknown'].includes(parsedResult.fitzpatrickScale) ||
-      typeof parsedResult.issues !== 'object' || parsedResult.issues === null ||
-      typeof parsedResult.recommendations !== 'object' || parsedResult.recommendations === null ||
-      !parsedResult.explainability
-    ) {
-      throw new Error(
-        'AI response is missing critical data or is malformed after parsing. ' +
-        'Ensure all top-level properties (overallScore, skinType, fitzpatrickScale, ' +
-        'issues, recommendations, explainability) are present and correctly typed.'
-      );
-    }
+/**
+ * Builds the request parts: the rendered prompt template, then each photo preceded by its view name.
+ */
+const buildContentParts = (images: AnalysisImage[], template: PromptTemplate, context: PromptContext) => {
+  const multiView = images.length > 1;
+  const prompt = template.render(context);
 
-    // FIX 2: Adjust validation logic for issues, specifically for 'symmetry' which has 'description' instead of 'severity'.
-    const requiredIssueKeys: (keyof SkinAnalysisResult['issues'])[] = [
-      'acne', 'wrinkles', 'hyperpigmentation', 'pores', 'redness', 'texture', 
-      'hydration', 'oiliness', 'darkCircles', 'symmetry'
-    ];
-    for (const key of requiredIssueKeys) {
-      const issue = parsedResult.issues[key];
-      if (!issue || typeof issue.score !== 'number') {
-        throw new Error(`AI response issue "${key}" is missing score or is malformed.`);
-      }
+  return [
+    { text: prompt },
+    ...images.flatMap((image) => [
+      ...(multiView ? [{ text: `View: ${getViewLabel(image.view)}` }] : []),
+      { inlineData: { mimeType: image.mimeType, data: image.base64 } },
+    ]),
+  ];
+};
 
-      if (key === 'symmetry') {
-        // For symmetry, check description property
-        const symmetryIssue = issue as SkinAnalysisResult['issues']['symmetry'];
-        if (typeof symmetryIssue.description !== 'string') {
-          throw new Error(`AI response symmetry issue is missing description or is malformed.`);
-        }
-      } else {
-        // For all other issues, check severity property
-        const genericIssue = issue as { severity: string };
-        if (typeof genericIssue.severity !== 'string') {
-          throw new Error(`AI response issue "${key}" is missing severity or is malformed.`);
-        }
-      }
-    }
+/**
+ * Sends photos to the Gemini API with the given key and validates the response, without any API key prompting.
+ * Shared by direct browser requests and the server proxy (server/).
+ * Transient failures (429, 5xx, network) are retried with backoff until `options.timeoutMs` elapses.
+ * @param apiKey The Gemini API key.
+ * @param images The photos to analyze (base64 without the data URL prefix), front view first.
+ * @param options Cancellation signal, deadline, retry options, the metrics to measure and the output language.
+ * @param onApiCall Called for every model call, including failed attempts; defaults to this browser's usage log.
+ * @returns A promise that resolves to the SkinAnalysisResult, recording the prompt template that produced it.
+ */
+export async function requestGeminiAnalysis(
+  apiKey: string,
+  images: AnalysisImage[],
+  options: AnalyzeOptions = {},
+  onApiCall: (call: ApiCallLog) => void = logApiCall,
+): Promise<SkinAnalysisResult> {
+  const ai = new GoogleGenAI({ apiKey });
+  const metrics = options.metrics ?? getEnabledMetrics();
+  const language = options.language ?? getAnalysisLanguage();
+  const template = selectPromptTemplate(images.length);
+  // JSON schema representation of the SkinAnalysisResult, generated from the declarative schema.
+  const jsonSchema = toGeminiSchema(buildSkinAnalysisSchema(metrics));
+  const parts = buildContentParts(images, template, { metrics, language, jsonSchema });
 
-    const requiredRecommendationKeys: (keyof SkinAnalysisResult['recommendations'])[] = [
-      'morningRoutine', 'eveningRoutine', 'weeklyTreatments', 'lifestyleTips'
-    ];
-    for (const key of requiredRecommendationKeys) {
-      const routine = parsedResult.recommendations[key];
-      if (!Array.isArray(routine) || !routine.every(item => typeof item === 'string')) {
-        throw new Error(`AI response recommendation "${key}" is missing or malformed (expected array of strings).`);
-      }
+  return runAnalysisRequest(async (signal) => {
+    const model = getGeminiModel(); // Defaults to gemini-2.5-flash-image for general image tasks
+    const startedAt = Date.now();
+    let response: GenerateContentResponse;
+    try {
+      response = await ai.models.generateContent({
+        model,
+        contents: { parts },
+        // responseMimeType and responseSchema are not supported by gemini-2.5-flash-image,
+        // so the prompt itself instructs the model to return JSON.
+        config: { abortSignal: signal },
+      });
+    } catch (error) {
+      const classified = classifyAnalysisError(error, signal);
+      onApiCall(describeApiCall({
+        model,
+        startedAt,
+        outcome: classified instanceof CancelledError ? 'cancelled' : 'error',
+        errorKind: classified instanceof AnalysisError ? classified.code : (error as any)?.status?.toString(),
+      }));
+      throw error;
     }
+    onApiCall(describeApiCall({ model, startedAt, outcome: 'success', usage: response.usageMetadata }));
+
+    // Repairs fixable values and drops malformed metrics; throws only if the result is unusable.
+    const result = validateSkinAnalysis(parseModelJson(response.text), metrics);
+    return { ...result, prompt: describePrompt(template, language) };
+  }, options);
+}
+
+/**
+ * Analyzes one photo, or all views of a multi-angle session in a single request, using the Gemini API.
+ * When GEMINI_PROXY_URL is set the request goes through the app's server proxy and no key is needed in the browser;
+ * otherwise it is sent directly with the key saved under Settings or provided by the environment.
+ * @param images The photos to analyze (base64 without the data URL prefix), front view first.
+ * @param options Cancellation signal, deadline, retry options, the metrics to measure and the output language.
+ * @returns A promise that resolves to the SkinAnalysisResult, recording the prompt template that produced it.
+ * @throws AuthError when the API key is missing or rejected; AnalysisError subclasses for failed requests.
+ */
+export async function analyzeSkinImages(images: AnalysisImage[], options: AnalyzeOptions = {}): Promise<SkinAnalysisResult> {
+  const proxyUrl = getProxyUrl();
+  if (proxyUrl) {
+    return analyzeViaProxy(proxyUrl, images, {
+      ...options,
+      metrics: options.metrics ?? getEnabledMetrics(),
+      language: options.language ?? getAnalysisLanguage(),
+    });
+  }
+
+  const apiKey = await resolveApiKey();
+  if (!apiKey) {
+    throw new AuthError('api_key_missing', 'API_KEY is not defined. Please select an API key to proceed.');
+  }
+  try {
+    return await requestGeminiAnalysis(apiKey, images, options);
+  } catch (error: any) {
+    console.error('Error analyzing skin images with Gemini:', error);
+    // Re-prompts for a key and throws an AuthError if the key was rejected; other errors are re-thrown unchanged.
+    return handleApiKeyError(error);
+  }
+}
 
+/**
+ * Outcome of testing an API key with a minimal request.
+ */
+export interface ApiKeyTestResult {
+  status: 'valid' | 'invalid' | 'quota_exceeded' | 'unreachable';
+  message: string;
+}
 
-    return parsedResult;
+/**
+ * Checks that an API key works by sending a one-token request to the configured model. The request is billed
+ * (a fraction of a cent) and recorded in the usage log.
+ * @param apiKey The key to test.
+ * @returns A promise that resolves with the outcome; it never rejects.
+ */
+export async function testApiKey(apiKey: string): Promise<ApiKeyTestResult> {
+  const ai = new GoogleGenAI({ apiKey: apiKey.trim() });
+  const model = getGeminiModel();
+  const startedAt = Date.now();
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: 'Reply with OK.',
+      config: { maxOutputTokens: 1 },
+    });
+    logApiCall(describeApiCall({ model, startedAt, outcome: 'success', usage: response.usageMetadata }));
+    return { status: 'valid', message: `The key works with ${model}.` };
   } catch (error: any) {
-    console.error('Error analyzing skin image with Gemini:', error);
-    // Allow handleApiKeyError to process this specific error and re-prompt if needed.
-    await handleApiKeyError(error); // This will re-throw if it's an API key issue or other error
-    throw error; // Re-throw the original error or the error from handleApiKeyError
+    const classified = classifyAnalysisError(error);
+    logApiCall(describeApiCall({ model, startedAt, outcome: 'error', errorKind: classified instanceof AnalysisError ? classified.code : error?.status?.toString() }));
+    if (isApiKeyRejection(error)) {
+      return { status: 'invalid', message: 'The key was rejected. Check that it was copied completely and that the Gemini API is enabled for its project.' };
+    }
+    if (classified instanceof AnalysisError && classified.code === 'rate_limited') {
+      return { status: 'quota_exceeded', message: 'The key is valid, but its quota or rate limit is exhausted right now.' };
+    }
+    return { status: 'unreachable', message: `The key could not be checked: ${error?.message ?? 'unknown error'}` };
   }
 }
 
+/**
+ * Analysis provider backed by the Gemini API. Requires an API key.
+ */
+export const geminiAnalysisProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  description: 'Analyzes photos with the Gemini API using your API key.',
+  prepare: checkAndPromptApiKey,
+  getModel: getGeminiModel,
+  analyze: analyzeSkinImages,
+};
+
 export { API_KEY_BILLING_LINK };
\ No newline at end of file
@@ -0,0 +1,60 @@
+// services/goalRepository.ts
+
+import { SkinGoal } from '../types';
+import { generateId } from '../utils/idUtils';
+import { STORES, requestToPromise, withTransaction } from './database';
+
+/**
+ * Fields the user chooses when creating or editing a goal.
+ */
+export type GoalInput = Pick<SkinGoal, 'metric' | 'baselineScanId' | 'baselineScore' | 'baselineAt' | 'targetDelta' | 'deadline'>;
+
+const putGoal = (goal: SkinGoal) =>
+  withTransaction(STORES.goals, 'readwrite', (tx) => requestToPromise(tx.objectStore(STORES.goals).put(goal)));
+
+/**
+ * Lists goals, oldest first.
+ * @param includeArchived Whether archived goals are included. Defaults to false.
+ * @returns A promise that resolves with the goals.
+ */
+export async function listGoals(includeArchived = false): Promise<SkinGoal[]> {
+  const goals = await withTransaction(STORES.goals, 'readonly', (tx) =>
+    requestToPromise<SkinGoal[]>(tx.objectStore(STORES.goals).getAll()),
+  );
+  return goals
+    .filter((goal) => includeArchived || !goal.archivedAt)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Creates a new goal.
+ * @param input The metric, baseline, target and deadline.
+ * @returns A promise that resolves with the stored goal.
+ */
+export async function createGoal(input: GoalInput): Promise<SkinGoal> {
+  const now = Date.now();
+  const goal: SkinGoal = { ...input, id: generateId(), createdAt: now, updatedAt: now };
+  await putGoal(goal);
+  return goal;
+}
+
+/**
+ * Updates an existing goal.
+ * @param goal The goal with its edited fields.
+ * @returns A promise that resolves with the stored goal.
+ */
+export async function updateGoal(goal: SkinGoal): Promise<SkinGoal> {
+  const updated: SkinGoal = { ...goal, updatedAt: Date.now() };
+  await putGoal(updated);
+  return updated;
+}
+
+/**
+ * Archives a goal, or restores it when `archived` is false.
+ * @param goal The goal to archive or restore.
+ * @param archived Whether the goal should be archived. Defaults to true.
+ * @returns A promise that resolves with the stored goal.
+ */
+export async function setGoalArchived(goal: SkinGoal, archived = true): Promise<SkinGoal> {
+  return updateGoal({ ...goal, archivedAt: archived ? Date.now() : undefined });
+}
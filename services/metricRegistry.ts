@@ -0,0 +1,180 @@
+// services/metricRegistry.ts
+
+import { FACE_REGIONS } from '../utils/faceRegions';
+import { SchemaNode, arraySchema, numberSchema, objectSchema, stringSchema } from '../utils/schema';
+import { getSettings } from './settingsService';
+
+/**
+ * How a metric's raw model score relates to skin health.
+ * - `higher_better`: e.g. hydration, 100 is ideal.
+ * - `lower_better`: e.g. acne severity, 0 is ideal.
+ * - `target_range`: e.g. oiliness, both extremes are unhealthy.
+ */
+export type MetricPolarity = 'higher_better' | 'lower_better' | 'target_range';
+
+/**
+ * Everything the app knows about one issue metric. The registry entry is the only place a metric is declared:
+ * the prompt schema, validation, result typing and UI cards are all generated from it.
+ */
+export interface MetricDefinition<S extends SchemaNode = SchemaNode> {
+  label: string;
+  description: string; // What the metric measures; shown in settings and listed in the prompt
+  polarity: MetricPolarity;
+  healthyRange: [number, number]; // Raw scores considered healthy; maps to the healthy band on the health axis
+  defaultEnabled: boolean; // Whether new users get this metric without opting in
+  schema: S; // Shape of the metric's entry in `SkinAnalysisResult.issues`
+}
+
+// Keeps each entry's schema literal type, so `InferSchema` can type the issue it describes.
+const defineMetric = <S extends SchemaNode>(definition: MetricDefinition<S>): MetricDefinition<S> => definition;
+
+// Areas are canonical region ids so the same region is named the same way in every scan.
+const region = (description: string) => stringSchema({ description, enum: FACE_REGIONS });
+
+const areas = (description: string) =>
+  arraySchema(region('A facial region id.'), { description: `${description} Use only the listed region ids; left and right are the subject's own sides.` });
+
+// Attributes each affected area to the photo it was seen in. Only requested for multi-angle sessions.
+const observations = arraySchema(
+  objectSchema(
+    {
+      area: region('The affected facial region id, e.g. "leftCheek".'),
+      view: stringSchema({ description: 'The photo the area was seen in.', enum: ['front', 'left', 'right'] }),
+    },
+    ['area', 'view'],
+  ),
+  { description: 'For multi-angle scans only: each affected area with the view (front, left or right) where it was seen.' },
+);
+
+// A scored issue. Droppable, so one malformed issue is reported as missing instead of failing the scan.
+const scoredIssue = (name: string, scoreDescription: string, areasDescription: string) =>
+  objectSchema(
+    {
+      score: numberSchema({ description: scoreDescription, min: 0, max: 100 }),
+      severity: stringSchema({ description: 'Severity description (e.g., "low", "medium", "high").', fallback: 'unknown' }),
+      areas: areas(areasDescription),
+      observations,
+    },
+    ['score', 'severity'],
+    { description: `Analysis of ${name}.`, droppable: true },
+  );
+
+/**
+ * All issue metrics, in display order. To add a metric, add an entry here; older scans without it still load
+ * and simply do not show it.
+ */
+export const METRIC_REGISTRY = {
+  acne: defineMetric({
+    label: 'Acne',
+    description: 'Breakouts, blackheads and inflamed blemishes.',
+    polarity: 'lower_better',
+    healthyRange: [0, 25],
+    defaultEnabled: true,
+    schema: scoredIssue('acne', 'Score for acne severity (0-100).', 'Optional areas affected by acne.'),
+  }),
+  wrinkles: defineMetric({
+    label: 'Wrinkles',
+    description: 'Fine lines and wrinkles.',
+    polarity: 'lower_better',
+    healthyRange: [0, 30],
+    defaultEnabled: true,
+    schema: scoredIssue('wrinkles', 'Score for wrinkles severity (0-100).', 'Optional areas affected by wrinkles.'),
+  }),
+  hyperpigmentation: defineMetric({
+    label: 'Hyperpigmentation',
+    description: 'Dark spots, melasma and uneven tone.',
+    polarity: 'lower_better',
+    healthyRange: [0, 25],
+    defaultEnabled: true,
+    schema: scoredIssue('hyperpigmentation', 'Score for hyperpigmentation severity (0-100).', 'Optional areas affected by hyperpigmentation.'),
+  }),
+  pores: defineMetric({
+    label: 'Pores',
+    description: 'How visible and enlarged pores are.',
+    polarity: 'lower_better',
+    healthyRange: [0, 35],
+    defaultEnabled: true,
+    schema: scoredIssue('pores', 'Score for pore visibility (0-100).', 'Optional areas with visible pores.'),
+  }),
+  redness: defineMetric({
+    label: 'Redness',
+    description: 'Flushing, irritation and visible redness.',
+    polarity: 'lower_better',
+    healthyRange: [0, 25],
+    defaultEnabled: true,
+    schema: scoredIssue('redness', 'Score for redness severity (0-100).', 'Optional areas with redness.'),
+  }),
+  texture: defineMetric({
+    label: 'Texture',
+    description: 'How smooth and even the skin surface is.',
+    polarity: 'higher_better',
+    healthyRange: [70, 100],
+    defaultEnabled: true,
+    schema: scoredIssue('texture', 'Score for skin texture (0-100, higher is smoother).', 'Optional areas for texture assessment.'),
+  }),
+  hydration: defineMetric({
+    label: 'Hydration',
+    description: 'How plump and moisturized the skin looks.',
+    polarity: 'higher_better',
+    healthyRange: [65, 100],
+    defaultEnabled: true,
+    schema: scoredIssue('hydration', 'Score for skin hydration (0-100, higher is more hydrated).', 'Optional areas for hydration assessment.'),
+  }),
+  oiliness: defineMetric({
+    label: 'Oiliness',
+    description: 'Shine and excess sebum.',
+    polarity: 'target_range',
+    healthyRange: [30, 60],
+    defaultEnabled: true,
+    schema: scoredIssue('oiliness', 'Score for skin oiliness (0-100, higher is more oily).', 'Optional areas for oiliness assessment.'),
+  }),
+  darkCircles: defineMetric({
+    label: 'Dark Circles',
+    description: 'Darkness under the eyes.',
+    polarity: 'lower_better',
+    healthyRange: [0, 30],
+    defaultEnabled: true,
+    schema: scoredIssue('dark circles', 'Score for dark circles (0-100).', 'Optional areas for dark circles assessment.'),
+  }),
+  symmetry: defineMetric({
+    label: 'Symmetry',
+    description: 'How balanced the facial features are.',
+    polarity: 'higher_better',
+    healthyRange: [75, 100],
+    defaultEnabled: true,
+    schema: objectSchema(
+      {
+        score: numberSchema({ description: 'Score for facial symmetry (0-100, higher is more symmetrical).', min: 0, max: 100 }),
+        description: stringSchema({ description: 'A brief description of facial symmetry.', fallback: '' }),
+      },
+      ['score', 'description'],
+      { description: 'Analysis of facial symmetry.', droppable: true },
+    ),
+  }),
+};
+
+/**
+ * Key of a registered issue metric. Same as `IssueKey`, which is derived from the schema this registry generates.
+ */
+export type MetricKey = keyof typeof METRIC_REGISTRY;
+
+/**
+ * All registered metric keys, in display order.
+ */
+export const METRIC_KEYS = Object.keys(METRIC_REGISTRY) as MetricKey[];
+
+/**
+ * Checks whether a value is a registered metric key, e.g. when reading persisted data. Names inherited from the
+ * object prototype, such as "constructor", are not metrics.
+ */
+export const isMetricKey = (value: unknown): value is MetricKey => typeof value === 'string' && Object.hasOwn(METRIC_REGISTRY, value);
+
+/**
+ * Returns the metrics the user has enabled, in display order. Metrics without a stored choice use their default,
+ * so metrics added in later versions follow `defaultEnabled` until the user changes them.
+ * @returns The enabled metric keys.
+ */
+export const getEnabledMetrics = (): MetricKey[] => {
+  const { metricPreferences = {} } = getSettings();
+  return METRIC_KEYS.filter((key) => metricPreferences[key] ?? METRIC_REGISTRY[key].defaultEnabled);
+};
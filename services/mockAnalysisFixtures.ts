@@ -0,0 +1,82 @@
+// services/mockAnalysisFixtures.ts
+
+import { SkinAnalysisResult } from '../types';
+
+/**
+ * Canned analysis results returned by the offline mock provider.
+ * They cover a spread of skin types and scores so history, analytics and goals have varied data.
+ */
+export const MOCK_ANALYSIS_FIXTURES: SkinAnalysisResult[] = [
+  {
+    overallScore: 82,
+    skinType: 'combination',
+    fitzpatrickScale: 'III',
+    issues: {
+      acne: { score: 18, severity: 'low', areas: ['chin', 'forehead'] },
+      wrinkles: { score: 12, severity: 'low', areas: ['leftPeriorbital', 'rightPeriorbital'] },
+      hyperpigmentation: { score: 22, severity: 'low', areas: ['leftCheek', 'rightCheek'] },
+      pores: { score: 35, severity: 'medium', areas: ['nose', 'forehead', 'chin'] },
+      redness: { score: 15, severity: 'low', areas: ['nose'] },
+      texture: { score: 78, severity: 'low', areas: ['leftCheek', 'rightCheek'] },
+      hydration: { score: 70, severity: 'low', areas: ['leftCheek', 'rightCheek'] },
+      oiliness: { score: 55, severity: 'medium', areas: ['forehead', 'nose', 'chin'] },
+      darkCircles: { score: 25, severity: 'low', areas: ['leftPeriorbital', 'rightPeriorbital'] },
+      symmetry: { score: 88, description: 'Features are well balanced with minor asymmetry around the brows.' },
+    },
+    recommendations: {
+      morningRoutine: ['Gentle gel cleanser', 'Niacinamide serum', 'Lightweight moisturizer', 'Broad-spectrum SPF 50'],
+      eveningRoutine: ['Double cleanse', 'Salicylic acid toner on the T-zone', 'Ceramide moisturizer'],
+      weeklyTreatments: ['Clay mask on the T-zone once a week'],
+      lifestyleTips: ['Drink water consistently through the day', 'Change pillowcases twice a week'],
+    },
+    explainability: 'Skin appears generally healthy with mild congestion and shine in the T-zone, typical of combination skin. Pores on the nose are moderately visible.',
+  },
+  {
+    overallScore: 64,
+    skinType: 'oily',
+    fitzpatrickScale: 'IV',
+    issues: {
+      acne: { score: 52, severity: 'medium', areas: ['leftCheek', 'rightCheek', 'leftJawline', 'rightJawline'] },
+      wrinkles: { score: 8, severity: 'low' },
+      hyperpigmentation: { score: 40, severity: 'medium', areas: ['leftCheek', 'rightCheek'] },
+      pores: { score: 58, severity: 'medium', areas: ['nose', 'leftCheek', 'rightCheek'] },
+      redness: { score: 38, severity: 'medium', areas: ['leftCheek', 'rightCheek'] },
+      texture: { score: 55, severity: 'medium', areas: ['leftCheek', 'rightCheek'] },
+      hydration: { score: 60, severity: 'medium' },
+      oiliness: { score: 80, severity: 'high', areas: ['forehead', 'nose'] },
+      darkCircles: { score: 20, severity: 'low' },
+      symmetry: { score: 84, description: 'Good overall symmetry.' },
+    },
+    recommendations: {
+      morningRoutine: ['Foaming cleanser', 'Oil-free moisturizer', 'Mattifying SPF 30+'],
+      eveningRoutine: ['Cleanser', 'Benzoyl peroxide spot treatment', 'Non-comedogenic moisturizer'],
+      weeklyTreatments: ['BHA exfoliant twice a week'],
+      lifestyleTips: ['Avoid touching your face', 'Keep phone screens clean'],
+    },
+    explainability: 'Active breakouts along the cheeks and jawline with post-inflammatory marks. Sebum production is high across the T-zone.',
+  },
+  {
+    overallScore: 74,
+    skinType: 'dry',
+    fitzpatrickScale: 'II',
+    issues: {
+      acne: { score: 6, severity: 'low' },
+      wrinkles: { score: 34, severity: 'medium', areas: ['forehead', 'leftPeriorbital', 'rightPeriorbital'] },
+      hyperpigmentation: { score: 18, severity: 'low' },
+      pores: { score: 14, severity: 'low' },
+      redness: { score: 42, severity: 'medium', areas: ['leftCheek', 'rightCheek', 'nose'] },
+      texture: { score: 58, severity: 'medium', areas: ['leftCheek', 'rightCheek'] },
+      hydration: { score: 38, severity: 'high', areas: ['leftCheek', 'rightCheek', 'forehead'] },
+      oiliness: { score: 15, severity: 'low' },
+      darkCircles: { score: 45, severity: 'medium', areas: ['leftPeriorbital', 'rightPeriorbital'] },
+      symmetry: { score: 90, description: 'Highly symmetrical features.' },
+    },
+    recommendations: {
+      morningRoutine: ['Cream cleanser', 'Hyaluronic acid serum', 'Rich moisturizer', 'Mineral SPF 50'],
+      eveningRoutine: ['Gentle cleanser', 'Peptide serum', 'Occlusive night cream'],
+      weeklyTreatments: ['Hydrating sheet mask'],
+      lifestyleTips: ['Use a humidifier at night', 'Take shorter, lukewarm showers'],
+    },
+    explainability: 'Skin shows signs of dehydration with flaky texture on the cheeks and diffuse redness. Fine lines are visible on the forehead and around the eyes.',
+  },
+];
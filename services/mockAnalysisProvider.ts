@@ -0,0 +1,47 @@
+// services/mockAnalysisProvider.ts
+
+import { AnalysisImage, SkinAnalysisResult } from '../types';
+import { sleep } from '../utils/retry';
+import { AnalysisProvider } from './analysisProvider';
+import { AnalyzeOptions, runAnalysisRequest } from './analysisRequest';
+import { getEnabledMetrics } from './metricRegistry';
+import { MOCK_ANALYSIS_FIXTURES } from './mockAnalysisFixtures';
+
+// Simulated latency so loading states remain visible during demos.
+const MOCK_LATENCY_MS = 800;
+
+/**
+ * Small deterministic string hash (FNV-1a), used to map an image to a fixture.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Offline provider that returns canned results without any network access.
+ * The same photos always yield the same fixture, so flows are reproducible.
+ */
+export const mockAnalysisProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Offline demo',
+  description: 'Returns sample results locally. No API key or network needed.',
+  prepare: async () => {},
+  getModel: () => `fixtures-${MOCK_ANALYSIS_FIXTURES.length}`,
+  analyze: (images: AnalysisImage[], options?: AnalyzeOptions): Promise<SkinAnalysisResult> =>
+    runAnalysisRequest(async (signal) => {
+      await sleep(MOCK_LATENCY_MS, signal);
+      const key = images.map((image) => image.base64).join('|');
+      const fixture = MOCK_ANALYSIS_FIXTURES[hashString(key) % MOCK_ANALYSIS_FIXTURES.length];
+      // Return a deep copy so callers can never mutate the shared fixture.
+      const result = JSON.parse(JSON.stringify(fixture)) as SkinAnalysisResult;
+      // Only the requested metrics, as a real provider would return.
+      const metrics = options?.metrics ?? getEnabledMetrics();
+      result.issues = Object.fromEntries(metrics.filter((key) => result.issues[key]).map((key) => [key, result.issues[key]]));
+      return result;
+    }, options),
+};
@@ -0,0 +1,98 @@
+// services/promptTemplates.ts
+
+import { AnalysisPromptInfo } from '../types';
+import { LanguageCode, getEnglishLanguageName } from '../utils/locale';
+import { METRIC_REGISTRY, MetricKey } from './metricRegistry';
+
+/**
+ * Everything a prompt template needs to produce the instructions for one request.
+ */
+export interface PromptContext {
+  metrics: readonly MetricKey[];
+  language: LanguageCode;
+  jsonSchema: Record<string, unknown>; // Response schema in the provider's JSON schema format
+}
+
+/**
+ * A named, versioned analysis prompt. Bump `version` whenever the wording or the response schema it
+ * embeds changes, so stored results can be traced to the prompt that produced them and cached results
+ * from older prompts are discarded.
+ */
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  render(context: PromptContext): string;
+}
+
+const describeMetrics = (metrics: readonly MetricKey[]): string =>
+  metrics.map((key) => `- ${key}: ${METRIC_REGISTRY[key].description}`).join('\n');
+
+// Free text follows the user's language; everything the app parses stays as defined in the schema.
+const languageInstructions = (language: LanguageCode): string =>
+  language === 'en'
+    ? ''
+    : `\n\nWrite every free-text value (routine steps, tips, descriptions and "explainability") in ${getEnglishLanguageName(language)}. Keep all JSON keys, enum values, region ids and severity words ("low", "medium", "high") exactly as specified, in English.`;
+
+const responseInstructions = (jsonSchema: Record<string, unknown>): string =>
+  `Respond strictly in JSON format according to the following JSON schema:\n${JSON.stringify(jsonSchema, null, 2)}`;
+
+const SINGLE_VIEW_TEMPLATE: PromptTemplate = {
+  id: 'skin-analysis',
+  version: 1,
+  render: ({ metrics, language, jsonSchema }) => `Analyze the facial skin in this image for the following attributes: overall skin health score (0-100, where 100 is excellent), skin type (oily, dry, combination, normal), Fitzpatrick scale (I-VI), and a score for each of these issues:
+${describeMetrics(metrics)}
+
+For each issue, list the affected facial regions using the region ids from the schema.${languageInstructions(language)}
+
+${responseInstructions(jsonSchema)}`,
+};
+
+// Multi-angle sessions also attribute each regional finding to the photo it was seen in.
+const MULTI_VIEW_TEMPLATE: PromptTemplate = {
+  id: 'skin-analysis-multi-view',
+  version: 1,
+  render: ({ metrics, language, jsonSchema }) => `Analyze the facial skin in these images for the following attributes: overall skin health score (0-100, where 100 is excellent), skin type (oily, dry, combination, normal), Fitzpatrick scale (I-VI), and a score for each of these issues:
+${describeMetrics(metrics)}
+
+For each issue, list the affected facial regions using the region ids from the schema.
+
+The images are views of the same face taken in one session, each preceded by its view name (front, left profile, right profile). Combine them into a single assessment: use the profile views for cheeks, jawline and temples, which are poorly visible from the front. For every issue, list each affected area in "observations" together with the view ("front", "left" or "right") where it is seen.${languageInstructions(language)}
+
+${responseInstructions(jsonSchema)}`,
+};
+
+/**
+ * All prompt templates in use, by id.
+ */
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  [SINGLE_VIEW_TEMPLATE.id]: SINGLE_VIEW_TEMPLATE,
+  [MULTI_VIEW_TEMPLATE.id]: MULTI_VIEW_TEMPLATE,
+};
+
+/**
+ * Picks the template for a request.
+ * @param imageCount Number of photos sent together.
+ * @returns The template.
+ */
+export const selectPromptTemplate = (imageCount: number): PromptTemplate =>
+  imageCount > 1 ? MULTI_VIEW_TEMPLATE : SINGLE_VIEW_TEMPLATE;
+
+/**
+ * Identifies the current versions of all templates, e.g. "skin-analysis@1,skin-analysis-multi-view@1".
+ * Changes whenever any template is bumped.
+ */
+export const PROMPT_SET_VERSION = Object.values(PROMPT_TEMPLATES)
+  .map((template) => `${template.id}@${template.version}`)
+  .join(',');
+
+/**
+ * Describes which prompt produced a result, for storing with it.
+ * @param template The template used.
+ * @param language The output language requested.
+ * @returns The record kept in `SkinAnalysisResult.prompt`.
+ */
+export const describePrompt = (template: PromptTemplate, language: LanguageCode): AnalysisPromptInfo => ({
+  template: template.id,
+  version: template.version,
+  language,
+});
@@ -0,0 +1,56 @@
+// services/repeatSampling.ts
+
+import { AnalysisImage, SkinAnalysisResult } from '../types';
+import { combineAnalysisResults } from '../utils/consensus';
+import { AnalysisProvider } from './analysisProvider';
+import { AnalyzeOptions } from './analysisRequest';
+import { CancelledError } from './appErrors';
+
+/**
+ * Runs per analysis offered for high-confidence mode. 1 is a single, normal analysis.
+ */
+export const SAMPLE_COUNT_OPTIONS = [1, 3, 5];
+
+/**
+ * Wraps providers into one that analyzes the same photos several times and combines the runs, reporting
+ * a confidence interval per score. Runs are spread over the providers in turn and executed in parallel;
+ * failed runs are skipped as long as at least one succeeds.
+ * @param providers The providers to sample, at least one. The first one names the combined provider.
+ * @param samples Total number of runs.
+ * @returns A provider whose results carry `uncertainty`.
+ */
+export const withRepeatSampling = (providers: AnalysisProvider[], samples: number): AnalysisProvider => {
+  const [primary] = providers;
+  const runProviders = Array.from({ length: samples }, (_, index) => providers[index % providers.length]);
+  return {
+    ...primary,
+    label: `${primary.label} (${samples} runs)`,
+    samples,
+    getModel: () => [...new Set(runProviders.map((provider) => provider.getModel()))].join('+'),
+    prepare: async () => {
+      for (const provider of new Set(providers)) {
+        await provider.prepare();
+      }
+    },
+    analyze: async (images: AnalysisImage[], options?: AnalyzeOptions): Promise<SkinAnalysisResult> => {
+      const outcomes = await Promise.allSettled(runProviders.map((provider) => provider.analyze(images, options)));
+      const succeeded = outcomes.flatMap((outcome, index) =>
+        outcome.status === 'fulfilled' ? [{ result: outcome.value, providerId: runProviders[index].id }] : [],
+      );
+      const failures = outcomes.flatMap((outcome) => (outcome.status === 'rejected' ? [outcome.reason] : []));
+
+      // Cancellation always wins, so a cancelled session never shows a partial result.
+      const cancelled = failures.find((reason) => reason instanceof CancelledError);
+      if (cancelled || succeeded.length === 0) {
+        throw cancelled ?? failures[0];
+      }
+      if (failures.length > 0) {
+        console.warn(`${failures.length} of ${samples} analysis runs failed; combining the rest.`, failures);
+      }
+      return combineAnalysisResults(
+        succeeded.map((run) => run.result),
+        succeeded.map((run) => run.providerId),
+      );
+    },
+  };
+};
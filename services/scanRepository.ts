@@ -0,0 +1,97 @@
+// services/scanRepository.ts
+
+import { FaceLandmarks, ImageQualityReport, SkinAnalysisResult, StoredScan, StoredScanView } from '../types';
+import { generateId } from '../utils/idUtils';
+import { STORES, requestToPromise, withTransaction } from './database';
+import { SealedRecord, openRecord, sealRecord } from './vault';
+
+// A scan as stored: encrypted while the app lock is on, except for its id and date.
+type ScanRecord = StoredScan | SealedRecord<StoredScan>;
+
+/**
+ * Input required to persist a completed analysis.
+ */
+export interface NewScan {
+  result: SkinAnalysisResult;
+  imageBase64: string;
+  mimeType: string;
+  createdAt?: number; // Defaults to now
+  capturedAt?: number; // When the photo was taken, if known
+  landmarks?: FaceLandmarks;
+  quality?: ImageQualityReport;
+  sideViews?: StoredScanView[]; // Left/right photos of a multi-angle session
+}
+
+/**
+ * Saves a completed analysis together with its image to the local scan history.
+ * @param scan The analysis result, image data and MIME type to store. Multi-angle sessions are stored as one scan.
+ * @returns A promise that resolves with the stored scan, including its generated id.
+ */
+export async function saveScan(scan: NewScan): Promise<StoredScan> {
+  const stored: StoredScan = {
+    id: generateId(),
+    createdAt: scan.createdAt ?? Date.now(),
+    mimeType: scan.mimeType,
+    imageBase64: scan.imageBase64,
+    result: scan.result,
+    quality: scan.quality,
+    capturedAt: scan.capturedAt,
+    landmarks: scan.landmarks,
+    sideViews: scan.sideViews,
+  };
+  const record = await sealRecord(STORES.scans, stored);
+  await withTransaction(STORES.scans, 'readwrite', (tx) =>
+    requestToPromise(tx.objectStore(STORES.scans).put(record)),
+  );
+  return stored;
+}
+
+/**
+ * Loads a single scan by id.
+ * @param id The scan id.
+ * @returns A promise that resolves with the scan, or undefined if it does not exist.
+ */
+export async function getScan(id: string): Promise<StoredScan | undefined> {
+  const record = await withTransaction(STORES.scans, 'readonly', (tx) =>
+    requestToPromise<ScanRecord | undefined>(tx.objectStore(STORES.scans).get(id)),
+  );
+  return record && openRecord(record);
+}
+
+/**
+ * Lists stored scans, newest first.
+ * @param limit Optional maximum number of scans to return.
+ * @returns A promise that resolves with the scans.
+ */
+export async function listScans(limit?: number): Promise<StoredScan[]> {
+  const records = await withTransaction(STORES.scans, 'readonly', (tx) =>
+    requestToPromise<ScanRecord[]>(tx.objectStore(STORES.scans).index('createdAt').getAll()),
+  );
+  records.reverse();
+  return Promise.all((typeof limit === 'number' ? records.slice(0, limit) : records).map((record) => openRecord(record)));
+}
+
+/**
+ * Replaces a stored scan, e.g. after its photos were deleted.
+ * @param scan The scan with its changed fields.
+ * @returns A promise that resolves once the scan is stored.
+ */
+export async function updateScan(scan: StoredScan): Promise<void> {
+  const record = await sealRecord(STORES.scans, scan);
+  await withTransaction(STORES.scans, 'readwrite', (tx) => requestToPromise(tx.objectStore(STORES.scans).put(record)));
+}
+
+/**
+ * Deletes a scan and its photos from the local scan history.
+ * @param id The scan id.
+ * @returns A promise that resolves with the deleted scan, or undefined if it did not exist.
+ * @throws VaultError when the app lock is on and locked; nothing is deleted in that case.
+ */
+export async function deleteScan(id: string): Promise<StoredScan | undefined> {
+  // Opened before deleting, so a locked vault rejects the call and leaves the scan in place.
+  const scan = await getScan(id);
+  if (scan) {
+    await withTransaction(STORES.scans, 'readwrite', (tx) => requestToPromise(tx.objectStore(STORES.scans).delete(id)));
+  }
+  return scan;
+}
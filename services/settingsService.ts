@@ -0,0 +1,40 @@
+// services/settingsService.ts
+
+import { AppSettings } from '../types';
+
+// localStorage key under which settings are persisted.
+const SETTINGS_STORAGE_KEY = 'ai-skin-health-tracker.settings';
+
+const DEFAULT_SETTINGS: AppSettings = {};
+
+/**
+ * Reads the persisted settings, falling back to defaults for anything missing or unreadable.
+ * @returns The current settings.
+ */
+export function getSettings(): AppSettings {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+    return raw ? { ...DEFAULT_SETTINGS, ...(JSON.parse(raw) as AppSettings) } : { ...DEFAULT_SETTINGS };
+  } catch (error) {
+    console.warn('Could not read settings, using defaults:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+/**
+ * Merges the given changes into the persisted settings.
+ * @param changes The settings to change. Keys set to undefined are reset to their default.
+ * @returns The updated settings.
+ */
+export function updateSettings(changes: Partial<AppSettings>): AppSettings {
+  const updated: AppSettings = { ...getSettings(), ...changes };
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(updated));
+  return updated;
+}
+
+/**
+ * Deletes the persisted settings, so every setting is back to its default.
+ */
+export function resetSettings(): void {
+  localStorage.removeItem(SETTINGS_STORAGE_KEY);
+}
@@ -0,0 +1,153 @@
+// services/skinAnalysisSchema.ts
+
+import { SkinAnalysisResult } from '../types';
+import { toFaceRegions } from '../utils/faceRegions';
+import { InferSchema, SchemaViolation, arraySchema, numberSchema, objectSchema, stringSchema, validateSchema } from '../utils/schema';
+import { MalformedResponseError } from './appErrors';
+import { METRIC_KEYS, METRIC_REGISTRY, MetricKey } from './metricRegistry';
+
+// 0-100 score; out-of-range values from the model are clamped rather than rejected.
+const score = (description: string) => numberSchema({ description, min: 0, max: 100 });
+
+const routine = (description: string) => arraySchema(stringSchema({}), { description, fallback: [] });
+
+type IssueSchemas = { [K in MetricKey]: (typeof METRIC_REGISTRY)[K]['schema'] };
+
+// Schema fragments of the given metrics, typed as if all were present; absent metrics are optional anyway.
+const pickIssueSchemas = (metrics: readonly MetricKey[]): IssueSchemas =>
+  Object.fromEntries(metrics.map((key) => [key, METRIC_REGISTRY[key].schema])) as IssueSchemas;
+
+/**
+ * Builds the declarative schema for the model's skin analysis response, with `issues` limited to the given
+ * metrics. It is the single source for the JSON schema embedded in the prompt and runtime validation.
+ * Changes here must bump the prompt template versions in services/promptTemplates.ts.
+ * @param metrics The issue metrics to request, in display order.
+ * @returns The schema.
+ */
+export const buildSkinAnalysisSchema = (metrics: readonly MetricKey[] = METRIC_KEYS) =>
+  objectSchema(
+    {
+      overallScore: score('Overall skin health score from 0-100, where 100 is excellent.'),
+      skinType: stringSchema({
+        description: 'Skin type: oily, dry, combination, normal, or unknown.',
+        enum: ['oily', 'dry', 'combination', 'normal', 'unknown'],
+        fallback: 'unknown',
+      }),
+      fitzpatrickScale: stringSchema({
+        description: 'Fitzpatrick scale: I, II, III, IV, V, VI, or unknown.',
+        enum: ['I', 'II', 'III', 'IV', 'V', 'VI', 'unknown'],
+        fallback: 'unknown',
+      }),
+      issues: objectSchema(pickIssueSchemas(metrics), metrics, {
+        description: 'Detailed analysis of various skin issues with score, severity, and optional areas.',
+      }),
+      recommendations: objectSchema(
+        {
+          morningRoutine: routine('Steps for a morning skincare routine.'),
+          eveningRoutine: routine('Steps for an evening skincare routine.'),
+          weeklyTreatments: routine('Suggestions for weekly treatments.'),
+          lifestyleTips: routine('General lifestyle advice for skin health.'),
+        },
+        ['morningRoutine', 'eveningRoutine', 'weeklyTreatments', 'lifestyleTips'],
+        { description: 'Personalized recommendations for skin care routines and lifestyle tips.' },
+      ),
+      explainability: stringSchema({ description: 'A concise explanation of the overall findings and reasoning.', fallback: '' }),
+    },
+    ['overallScore', 'skinType', 'fitzpatrickScale', 'issues', 'recommendations', 'explainability'],
+  );
+
+/**
+ * Schema with every registered metric. It is the single source for the `SkinAnalysisResult` type.
+ */
+export const skinAnalysisSchema = buildSkinAnalysisSchema();
+
+/**
+ * The analysis fields produced by the model, as described by `skinAnalysisSchema`.
+ */
+export type SkinAnalysisData = InferSchema<typeof skinAnalysisSchema>;
+
+/**
+ * Maps one area value onto canonical regions, recording a repair when the text had to be translated.
+ */
+const canonicalizeArea = (area: unknown, path: string, violations: SchemaViolation[]): unknown[] => {
+  if (typeof area !== 'string') {
+    return [area]; // Left for the validator to report
+  }
+  const regions = toFaceRegions(area);
+  if (regions.length === 1 && regions[0] === area) {
+    return regions;
+  }
+  violations.push({
+    path,
+    message: regions.length > 0 ? `Mapped "${area}" to ${regions.join(', ')}` : `Removed unrecognized area "${area}"`,
+    level: 'repaired',
+  });
+  return regions;
+};
+
+/**
+ * Rewrites free-text areas (e.g. "T-zone", "upper cheeks") in a raw response onto canonical regions before
+ * validation, so they are translated rather than dropped by the enum check.
+ * @returns The repairs that were made.
+ */
+const canonicalizeAreas = (raw: unknown): SchemaViolation[] => {
+  const violations: SchemaViolation[] = [];
+  const issues = (raw as { issues?: unknown } | null)?.issues;
+  if (!issues || typeof issues !== 'object') {
+    return violations;
+  }
+  for (const [key, issue] of Object.entries(issues as Record<string, unknown>)) {
+    if (!issue || typeof issue !== 'object') {
+      continue;
+    }
+    const record = issue as Record<string, unknown>;
+    if (Array.isArray(record.areas)) {
+      const mapped = record.areas.flatMap((area, index) => canonicalizeArea(area, `issues.${key}.areas[${index}]`, violations));
+      record.areas = [...new Set(mapped)];
+    }
+    if (Array.isArray(record.observations)) {
+      record.observations = record.observations.flatMap((observation, index) => {
+        const area = (observation as { area?: unknown } | null)?.area;
+        if (typeof area !== 'string') {
+          return [observation];
+        }
+        return canonicalizeArea(area, `issues.${key}.observations[${index}].area`, violations).map((mappedArea) => ({
+          ...(observation as object),
+          area: mappedArea,
+        }));
+      });
+    }
+  }
+  return violations;
+};
+
+/**
+ * Validates and repairs a parsed model response.
+ * Free-text areas are mapped onto canonical regions, fixable values are clamped or coerced, malformed
+ * issue metrics are dropped and listed in the validation report, and only responses that cannot be shown
+ * at all are rejected.
+ * @param raw The parsed JSON response.
+ * @param metrics The issue metrics that were requested. Other metrics in the response are ignored.
+ * @returns The repaired result, with a `validationReport` when anything had to be fixed or dropped.
+ * @throws MalformedResponseError listing every fatal violation with its path.
+ */
+export function validateSkinAnalysis(raw: unknown, metrics: readonly MetricKey[] = METRIC_KEYS): SkinAnalysisResult {
+  const areaRepairs = canonicalizeAreas(raw);
+  const validation = validateSchema(buildSkinAnalysisSchema(metrics), raw);
+  if (!validation.ok) {
+    const details = validation.violations
+      .filter((violation) => violation.level === 'error')
+      .map((violation) => `${violation.path || '(root)'}: ${violation.message}`)
+      .join('; ');
+    throw new MalformedResponseError(`AI response is missing critical data or is malformed. ${details}`);
+  }
+
+  const result: SkinAnalysisResult = validation.value;
+  const violations = [...areaRepairs, ...validation.violations];
+  const missingMetrics = metrics.filter((key) => !result.issues[key]);
+  if (violations.length > 0 || missingMetrics.length > 0) {
+    console.warn('AI response needed repairs:', violations);
+    result.validationReport = { missingMetrics, violations };
+  }
+  return result;
+}
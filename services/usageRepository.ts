@@ -0,0 +1,59 @@
+// services/usageRepository.ts
+
+import { ApiCallRecord } from '../types';
+import { generateId } from '../utils/idUtils';
+import { estimateScanCost, startOfMonth, summarizeUsage } from '../utils/usageUtils';
+import { STORES, requestToPromise, withTransaction } from './database';
+import { getSettings } from './settingsService';
+
+/**
+ * Records one model call in the usage log.
+ * @param call Everything except the generated id.
+ * @returns A promise that resolves with the stored record.
+ */
+export async function recordApiCall(call: Omit<ApiCallRecord, 'id'>): Promise<ApiCallRecord> {
+  const record: ApiCallRecord = { ...call, id: generateId() };
+  await withTransaction(STORES.apiUsage, 'readwrite', (tx) =>
+    requestToPromise(tx.objectStore(STORES.apiUsage).put(record)),
+  );
+  return record;
+}
+
+/**
+ * Lists recorded calls made at or after a point in time, oldest first.
+ * @param since Epoch milliseconds; defaults to all recorded calls.
+ * @returns A promise that resolves with the calls.
+ */
+export async function listApiCalls(since = 0): Promise<ApiCallRecord[]> {
+  return withTransaction(STORES.apiUsage, 'readonly', (tx) =>
+    requestToPromise<ApiCallRecord[]>(tx.objectStore(STORES.apiUsage).index('timestamp').getAll(IDBKeyRange.lowerBound(since))),
+  );
+}
+
+/**
+ * Outcome of checking a scan against the monthly budget.
+ */
+export interface BudgetCheck {
+  budget: number;
+  spent: number; // Estimated spend so far this month
+  estimate: number; // Estimated cost of the scan
+  exceeds: boolean; // Whether the scan would take this month's spend over the budget; free scans never do
+}
+
+/**
+ * Checks whether a scan would take this month's estimated spend over the user's soft budget.
+ * @param model The model the scan will use.
+ * @param callsPerScan Model calls the scan will make.
+ * @returns The check, or null when no budget is set.
+ */
+export async function checkScanBudget(model: string, callsPerScan: number): Promise<BudgetCheck | null> {
+  const { monthlyBudget, modelPrices } = getSettings();
+  if (!monthlyBudget) {
+    return null;
+  }
+  const now = Date.now();
+  const calls = await listApiCalls(startOfMonth(now));
+  const spent = summarizeUsage(calls, modelPrices, now).month.cost;
+  const estimate = estimateScanCost(calls, model, callsPerScan, modelPrices);
+  return { budget: monthlyBudget, spent, estimate, exceeds: estimate > 0 && spent + estimate > monthlyBudget };
+}
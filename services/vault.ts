@@ -0,0 +1,394 @@
+// services/vault.ts
+
+import { VaultError } from './appErrors';
+import { STORES, StoreName, requestToPromise, withTransaction } from './database';
+import { getSettings } from './settingsService';
+
+// Record id of the vault settings in the secrets store.
+const VAULT_ID = 'vault';
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256. Stored with the vault, so it can be raised later.
+const PBKDF2_ITERATIONS = 600_000;
+
+// Encrypted with the vault key to tell a wrong passphrase from a right one without decrypting any scan.
+const VERIFIER_TEXT = 'ai-skin-health-tracker.vault';
+
+/**
+ * Shortest accepted passphrase, so a 4-digit PIN works.
+ */
+export const MIN_PASSPHRASE_LENGTH = 4;
+
+/**
+ * Choices offered for locking the app after inactivity, in minutes.
+ */
+export const VAULT_AUTO_LOCK_OPTIONS = [1, 5, 15, 60];
+
+/**
+ * Minutes of inactivity after which the app locks when the user has not chosen otherwise.
+ */
+export const DEFAULT_VAULT_AUTO_LOCK_MINUTES = 5;
+
+// User activity that keeps the app unlocked.
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Data encrypted with AES-GCM.
+ */
+export interface SealedData {
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+/**
+ * How the vault key is derived from the passphrase. The key itself is never stored.
+ */
+interface VaultRecord {
+  id: typeof VAULT_ID;
+  salt: Uint8Array;
+  iterations: number;
+  verifier: SealedData; // VERIFIER_TEXT encrypted with the vault key
+  createdAt: number;
+}
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+/**
+ * A stored record whose sensitive fields are encrypted. Fields the store needs as its key or for an index stay
+ * readable; everything else is in `sealed`.
+ */
+export type SealedRecord<T> = Partial<T> & { sealed: SealedData };
+
+// Stores that hold photos or analysis results, with the fields that stay readable.
+const SEALED_STORES = {
+  [STORES.scans]: ['id', 'createdAt'],
+  [STORES.analysisCache]: ['key', 'promptVersion', 'imageHashes', 'createdAt', 'lastUsedAt'],
+} satisfies Partial<Record<StoreName, string[]>>;
+
+export type SealedStoreName = keyof typeof SEALED_STORES;
+
+// The key of the unlocked vault. It only lives in memory, so reloading the page locks the app.
+let vaultKey: CryptoKey | null = null;
+
+// Set while the vault key changes and every record is rewritten. `sealRecord` waits for it, so no record is stored
+// with the old key (or unencrypted) after the stores were read for rewriting.
+let pendingKeyChange: Promise<void> | null = null;
+
+// Set when the app is locked while a key change runs, so the change does not unlock it again when it finishes.
+let lockedDuringKeyChange = false;
+
+const listeners = new Set<() => void>();
+
+const notifyListeners = () => listeners.forEach((listener) => listener());
+
+const requireWebCrypto = () => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('The app lock needs Web Crypto, which is only available over HTTPS or on localhost.');
+  }
+};
+
+const readVaultRecord = (): Promise<VaultRecord | undefined> =>
+  withTransaction(STORES.secrets, 'readonly', (tx) =>
+    requestToPromise<VaultRecord | undefined>(tx.objectStore(STORES.secrets).get(VAULT_ID)),
+  );
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+const encrypt = async (key: CryptoKey, plaintext: Uint8Array): Promise<SealedData> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, ciphertext: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext) };
+};
+
+const decrypt = async (key: CryptoKey, sealed: SealedData): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.ciphertext));
+
+/**
+ * Creates the vault settings for a new passphrase.
+ */
+const createVault = async (passphrase: string): Promise<{ key: CryptoKey; record: VaultRecord }> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase must have at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const verifier = await encrypt(key, new TextEncoder().encode(VERIFIER_TEXT));
+  return { key, record: { id: VAULT_ID, salt, iterations: PBKDF2_ITERATIONS, verifier, createdAt: Date.now() } };
+};
+
+/**
+ * Derives the key of the existing vault and checks it against the verifier.
+ * @throws VaultError when the passphrase is wrong.
+ */
+const openVault = async (record: VaultRecord, passphrase: string): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, record.salt, record.iterations);
+  try {
+    await decrypt(key, record.verifier);
+  } catch (error) {
+    throw new VaultError('vault_passphrase_invalid', 'The passphrase does not match the vault.', { cause: error });
+  }
+  return key;
+};
+
+const requireVaultRecord = async (): Promise<VaultRecord> => {
+  const record = await readVaultRecord();
+  if (!record) {
+    throw new Error('The app lock is not turned on.');
+  }
+  return record;
+};
+
+const sealWith = async <T extends object>(key: CryptoKey, store: SealedStoreName, record: T): Promise<SealedRecord<T>> => {
+  const readable: Record<string, unknown> = {};
+  const secret: Record<string, unknown> = {};
+  Object.entries(record).forEach(([field, value]) => {
+    ((SEALED_STORES[store] as string[]).includes(field) ? readable : secret)[field] = value;
+  });
+  const sealed = await encrypt(key, new TextEncoder().encode(JSON.stringify(secret)));
+  return { ...(readable as Partial<T>), sealed };
+};
+
+const openWith = async <T>(key: CryptoKey, record: SealedRecord<T>): Promise<T> => {
+  const { sealed, ...readable } = record;
+  const secret = JSON.parse(new TextDecoder().decode(await decrypt(key, sealed)));
+  return { ...readable, ...secret } as T;
+};
+
+const isSealed = <T>(record: T | SealedRecord<T>): record is SealedRecord<T> =>
+  typeof record === 'object' && record !== null && 'sealed' in record;
+
+/**
+ * Encrypts every record of the sealed stores with a new key (or decrypts them when `to` is null) and stores the new
+ * vault settings. All records are written in one transaction, so an interrupted change leaves the old state intact.
+ * @param from The current vault key, or null when records are stored unencrypted.
+ * @param to The new vault key and settings, or null to store records unencrypted.
+ */
+const reencryptAll = async (from: CryptoKey | null, to: { key: CryptoKey; record: VaultRecord } | null): Promise<void> => {
+  const stores = Object.keys(SEALED_STORES) as SealedStoreName[];
+  // Read first and write in a separate transaction: IndexedDB transactions close while Web Crypto runs.
+  const current = await withTransaction(stores, 'readonly', (tx) =>
+    Promise.all(stores.map((store) => requestToPromise<object[]>(tx.objectStore(store).getAll()))),
+  );
+  const rewritten = await Promise.all(
+    current.map((records, index) =>
+      Promise.all(
+        records.map(async (stored) => {
+          const plain = isSealed(stored) && from ? await openWith<object>(from, stored) : stored;
+          return to ? sealWith(to.key, stores[index], plain) : plain;
+        }),
+      ),
+    ),
+  );
+  await withTransaction([...stores, STORES.secrets], 'readwrite', (tx) => {
+    rewritten.forEach((records, index) => records.forEach((record) => tx.objectStore(stores[index]).put(record)));
+    const secrets = tx.objectStore(STORES.secrets);
+    return requestToPromise(to ? secrets.put(to.record) : secrets.delete(VAULT_ID));
+  });
+};
+
+/**
+ * Runs a change of the vault key and makes `sealRecord` wait until it is done.
+ * @param change Rewrites the stored records and resolves with the new key, or null when records are stored unencrypted.
+ */
+const changeVaultKey = async (change: () => Promise<CryptoKey | null>): Promise<void> => {
+  lockedDuringKeyChange = false;
+  const running = change().then((key) => {
+    vaultKey = lockedDuringKeyChange ? null : key;
+  });
+  const settled = running.then(
+    () => {},
+    () => {},
+  );
+  pendingKeyChange = settled;
+  try {
+    await running;
+  } finally {
+    if (pendingKeyChange === settled) {
+      pendingKeyChange = null;
+    }
+  }
+  notifyListeners();
+};
+
+/**
+ * Tells whether the app lock is turned on and, if so, whether it is unlocked.
+ * @returns A promise that resolves with the vault status.
+ */
+export async function getVaultStatus(): Promise<VaultStatus> {
+  if (!(await readVaultRecord())) {
+    return 'disabled';
+  }
+  return vaultKey ? 'unlocked' : 'locked';
+}
+
+/**
+ * Registers a listener called whenever the vault is turned on or off, locked or unlocked.
+ * @returns A function that removes the listener.
+ */
+export function subscribeToVault(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Turns on the app lock: derives a key from the passphrase and encrypts every stored photo and analysis result
+ * with it. The app stays unlocked until it is locked or reloaded.
+ * @param passphrase The passphrase or PIN.
+ * @returns A promise that resolves once all data is encrypted.
+ */
+export async function enableVault(passphrase: string): Promise<void> {
+  requireWebCrypto();
+  await changeVaultKey(async () => {
+    if (await readVaultRecord()) {
+      throw new Error('The app lock is already turned on.');
+    }
+    const vault = await createVault(passphrase);
+    await reencryptAll(null, vault);
+    return vault.key;
+  });
+}
+
+/**
+ * Unlocks the app for this session.
+ * @param passphrase The passphrase or PIN.
+ * @returns A promise that resolves once stored data can be read.
+ * @throws VaultError when the passphrase is wrong.
+ */
+export async function unlockVault(passphrase: string): Promise<void> {
+  requireWebCrypto();
+  // A running passphrase change decides which passphrase is valid.
+  while (pendingKeyChange) {
+    await pendingKeyChange;
+  }
+  vaultKey = await openVault(await requireVaultRecord(), passphrase);
+  notifyListeners();
+}
+
+/**
+ * Forgets the vault key, so stored photos and results cannot be read until the app is unlocked again.
+ * Listeners are notified even when the app was already locked, e.g. after all data was deleted. Locking while the
+ * passphrase is being changed keeps the app locked once the change is done.
+ */
+export function lockVault(): void {
+  vaultKey = null;
+  if (pendingKeyChange) {
+    lockedDuringKeyChange = true;
+  }
+  notifyListeners();
+}
+
+/**
+ * Changes the passphrase and re-encrypts every stored photo and analysis result with the new key.
+ * @param current The current passphrase.
+ * @param next The new passphrase.
+ * @returns A promise that resolves once all data is encrypted with the new key.
+ * @throws VaultError when the current passphrase is wrong; nothing is changed in that case.
+ */
+export async function changeVaultPassphrase(current: string, next: string): Promise<void> {
+  requireWebCrypto();
+  await changeVaultKey(async () => {
+    const oldKey = await openVault(await requireVaultRecord(), current);
+    const vault = await createVault(next);
+    await reencryptAll(oldKey, vault);
+    return vault.key;
+  });
+}
+
+/**
+ * Turns off the app lock and stores photos and analysis results unencrypted again.
+ * @param passphrase The current passphrase.
+ * @returns A promise that resolves once all data is decrypted.
+ * @throws VaultError when the passphrase is wrong; nothing is changed in that case.
+ */
+export async function disableVault(passphrase: string): Promise<void> {
+  requireWebCrypto();
+  await changeVaultKey(async () => {
+    const key = await openVault(await requireVaultRecord(), passphrase);
+    await reencryptAll(key, null);
+    return null;
+  });
+}
+
+/**
+ * Prepares a record for storing: encrypts its sensitive fields while the app lock is on, or returns it unchanged.
+ * Call it before opening the transaction that stores the record, since transactions close while Web Crypto runs, and
+ * store the result right away. While the app lock is turned on, off or changed it waits, and starts over if that
+ * begins meanwhile, so the record matches the key the stores end up with.
+ * @param store The store the record goes to.
+ * @param record The record to store.
+ * @returns A promise that resolves with what to put in the store.
+ * @throws VaultError when the app lock is on but locked.
+ */
+export async function sealRecord<T extends object>(store: SealedStoreName, record: T): Promise<T | SealedRecord<T>> {
+  if (pendingKeyChange) {
+    await pendingKeyChange;
+    return sealRecord(store, record);
+  }
+  if (vaultKey) {
+    const sealed = await sealWith(vaultKey, store, record);
+    return pendingKeyChange ? sealRecord(store, record) : sealed;
+  }
+  const enabled = await readVaultRecord();
+  if (pendingKeyChange) {
+    return sealRecord(store, record);
+  }
+  if (enabled) {
+    throw new VaultError('vault_locked', 'Data cannot be saved while the app is locked.');
+  }
+  return record;
+}
+
+/**
+ * Reads a record written by `sealRecord`, decrypting it if needed.
+ * @param record The record as stored.
+ * @returns A promise that resolves with the original record.
+ * @throws VaultError when the record is encrypted and the app is locked.
+ */
+export async function openRecord<T>(record: T | SealedRecord<T>): Promise<T> {
+  if (!isSealed(record)) {
+    return record;
+  }
+  if (!vaultKey) {
+    throw new VaultError('vault_locked', 'Data cannot be read while the app is locked.');
+  }
+  return openWith(vaultKey, record);
+}
+
+/**
+ * Locks the app once the user has not interacted with it for the time set in settings. The time is read again on
+ * every check, so changing the setting applies immediately.
+ * @returns A function that stops watching.
+ */
+export function startVaultAutoLock(): () => void {
+  let lastActivityAt = Date.now();
+  const handleActivity = () => {
+    lastActivityAt = Date.now();
+  };
+  const check = () => {
+    if (!vaultKey) {
+      return;
+    }
+    const minutes = getSettings().vaultAutoLockMinutes ?? DEFAULT_VAULT_AUTO_LOCK_MINUTES;
+    if (Date.now() - lastActivityAt >= minutes * 60_000) {
+      lockVault();
+    }
+  };
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+  // Timers are throttled in background tabs, so the time is also checked when the tab becomes visible again.
+  document.addEventListener('visibilitychange', check);
+  const interval = window.setInterval(check, 15_000);
+  return () => {
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+    document.removeEventListener('visibilitychange', check);
+    window.clearInterval(interval);
+  };
+}
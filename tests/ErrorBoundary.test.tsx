@@ -0,0 +1,64 @@
+// tests/ErrorBoundary.test.tsx
+
+import React, { useState } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import ErrorBoundary from '../components/ErrorBoundary';
+import { QuotaError } from '../services/appErrors';
+
+let failure: Error | null = null;
+
+const Page: React.FC = () => {
+  if (failure) {
+    throw failure;
+  }
+  return <p>Page content</p>;
+};
+
+beforeEach(() => {
+  failure = null;
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('ErrorBoundary', () => {
+  it('shows the user message of a typed error and retries with its recovery action', () => {
+    failure = new QuotaError('HTTP 429');
+    render(<ErrorBoundary><Page /></ErrorBoundary>);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('rate limit reached');
+    expect(screen.queryByText('HTTP 429')).not.toBeInTheDocument();
+
+    failure = null;
+    fireEvent.click(screen.getByRole('button', { name: 'Try Again' }));
+
+    expect(screen.getByText('Page content')).toBeInTheDocument();
+  });
+
+  it('offers a reload for unexpected errors', () => {
+    failure = new TypeError("Cannot read properties of undefined (reading 'issues')");
+    render(<ErrorBoundary><Page /></ErrorBoundary>);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Something went wrong');
+    expect(screen.getByRole('button', { name: 'Reload App' })).toBeInTheDocument();
+  });
+
+  it('clears the error when the reset key changes', () => {
+    failure = new Error('Broken page');
+    const Harness: React.FC = () => {
+      const [path, setPath] = useState('/results');
+      return (
+        <>
+          <button onClick={() => setPath('/')}>Navigate</button>
+          <ErrorBoundary resetKey={path}><Page /></ErrorBoundary>
+        </>
+      );
+    };
+    render(<Harness />);
+    expect(screen.getByRole('alert')).toBeInTheDocument();
+
+    failure = null;
+    fireEvent.click(screen.getByRole('button', { name: 'Navigate' }));
+
+    expect(screen.getByText('Page content')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,173 @@
+// tests/ScanPage.test.tsx
+
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import ScanPage from '../pages/ScanPage';
+import ResultsPage from '../pages/ResultsPage';
+import { listScans } from '../services/scanRepository';
+import { updateSettings } from '../services/settingsService';
+import { ImageQualityReport } from '../types';
+import { MISSING_ISSUES_RESPONSE, VALID_RESPONSE } from './fixtures/geminiResponses';
+
+const { generateContent } = vi.hoisted(() => ({ generateContent: vi.fn() }));
+
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: class {
+    models = { generateContent };
+  },
+}));
+
+// jsdom cannot decode or draw images, so the canvas-based pipeline steps are replaced.
+vi.mock('../utils/imageUtils', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../utils/imageUtils')>();
+  return {
+    ...actual,
+    normalizeImage: async (file: Blob) => ({
+      base64: await actual.fileToBase64(file),
+      mimeType: 'image/jpeg',
+      width: 1080,
+      height: 1080,
+      byteSize: file.size,
+    }),
+  };
+});
+
+const { assessImageQuality } = vi.hoisted(() => ({ assessImageQuality: vi.fn() }));
+
+vi.mock('../utils/imageQuality', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/imageQuality')>()),
+  assessImageQuality,
+}));
+
+// The face landmark model is downloaded from a CDN; the camera tests take photos manually.
+vi.mock('../utils/faceDetection', () => ({
+  prepareFaceDetection: async () => false,
+  detectFaces: async () => null,
+}));
+
+vi.mock('../utils/faceAlignment', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/faceAlignment')>()),
+  locateFaceLandmarks: async () => null,
+}));
+
+const passingReport: ImageQualityReport = {
+  metrics: { sharpness: 180, brightness: 128, clippedHighlights: 0.01, clippedShadows: 0.01, faceCount: 1, faceAreaRatio: 0.3 },
+  findings: [],
+  score: 92,
+  verdict: 'ok',
+};
+
+const getUserMedia = vi.fn();
+
+const renderScanPage = () =>
+  render(
+    <MemoryRouter initialEntries={['/scan']}>
+      <Routes>
+        <Route path="/scan" element={<ScanPage />} />
+        <Route path="/results" element={<ResultsPage />} />
+        <Route path="/results/:scanId" element={<ResultsPage />} />
+      </Routes>
+    </MemoryRouter>,
+  );
+
+// Each test uploads different bytes so an earlier test's cached result is never reused.
+let uploadCount = 0;
+const uploadPhoto = async () => {
+  fireEvent.click(await screen.findByRole('button', { name: 'Upload Image' }));
+  const input = document.querySelector<HTMLInputElement>('input[type="file"]');
+  const file = new File([`photo-${++uploadCount}`], 'face.jpg', { type: 'image/jpeg' });
+  fireEvent.change(input, { target: { files: [file] } });
+  return screen.findByRole('button', { name: 'Analyze Skin' });
+};
+
+beforeEach(() => {
+  vi.stubEnv('API_KEY', 'test-key');
+  generateContent.mockReset();
+  assessImageQuality.mockReset().mockResolvedValue(passingReport);
+  getUserMedia.mockReset().mockRejectedValue(Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' }));
+  Object.defineProperty(navigator, 'mediaDevices', { value: { getUserMedia }, configurable: true });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('ScanPage', () => {
+  it('falls back to uploading when camera access is denied', async () => {
+    renderScanPage();
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Camera access denied');
+    expect(screen.getByRole('button', { name: 'Upload Image' })).toBeInTheDocument();
+  });
+
+  it('starts the front camera when access is granted', async () => {
+    const stop = vi.fn();
+    getUserMedia.mockResolvedValue({ getTracks: () => [{ stop }] });
+    renderScanPage();
+
+    await waitFor(() => expect(getUserMedia).toHaveBeenCalledWith(expect.objectContaining({ video: expect.objectContaining({ facingMode: 'user' }) })));
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('analyzes an uploaded photo, saves the scan and shows its results', async () => {
+    generateContent.mockResolvedValue({ text: VALID_RESPONSE, usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: 400 } });
+    renderScanPage();
+
+    fireEvent.click(await uploadPhoto());
+
+    expect(await screen.findByText('Your Skin Analysis')).toBeInTheDocument();
+    expect(screen.getByText('76% Healthy')).toBeInTheDocument();
+    expect(generateContent).toHaveBeenCalledTimes(1);
+    expect(generateContent.mock.calls[0][0].contents.parts).toContainEqual({
+      inlineData: { mimeType: 'image/jpeg', data: btoa(`photo-${uploadCount}`) },
+    });
+    const [saved] = await listScans(1);
+    expect(saved.result.overallScore).toBe(76);
+  });
+
+  it('shows a retry message and stays on the page when the model response is unusable', async () => {
+    generateContent.mockResolvedValue({ text: MISSING_ISSUES_RESPONSE });
+    renderScanPage();
+
+    fireEvent.click(await uploadPhoto());
+
+    expect(await screen.findByText(/The AI returned an unexpected response/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Analyze Skin' })).toBeInTheDocument();
+  });
+
+  it('blocks analysis of a photo that fails the quality check', async () => {
+    assessImageQuality.mockResolvedValue({ ...passingReport, score: 20, verdict: 'block' });
+    renderScanPage();
+
+    const analyzeButton = await uploadPhoto();
+
+    await waitFor(() => expect(analyzeButton).toBeDisabled());
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('asks for confirmation before a scan that would exceed the monthly budget', async () => {
+    updateSettings({ monthlyBudget: 0.0001 });
+    generateContent.mockResolvedValue({ text: VALID_RESPONSE });
+    renderScanPage();
+
+    fireEvent.click(await uploadPhoto());
+
+    expect(await screen.findByText(/over your \$0\.0001 budget/)).toBeInTheDocument();
+    expect(generateContent).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Analyze Anyway' }));
+
+    expect(await screen.findByText('Your Skin Analysis')).toBeInTheDocument();
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('prompts for an API key instead of the camera when none is configured', async () => {
+    vi.stubEnv('API_KEY', '');
+    renderScanPage();
+
+    expect(await screen.findByText('API Key Required')).toBeInTheDocument();
+    expect(getUserMedia).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+// tests/analysisProxy.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestValidationError, handleAnalyzeRequest, parseAnalyzeRequest } from '../server/analyzeHandler';
+import { createRateLimiter, getClientId } from '../server/rateLimiter';
+import { analyzeSkinImages, checkAndPromptApiKey } from '../services/geminiService';
+import { listApiCalls } from '../services/usageRepository';
+import { AnalysisImage } from '../types';
+import { TRUNCATED_RESPONSE, VALID_RESPONSE } from './fixtures/geminiResponses';
+
+const { generateContent, clientOptions } = vi.hoisted(() => ({ generateContent: vi.fn(), clientOptions: vi.fn() }));
+
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: class {
+    models = { generateContent };
+    constructor(options: unknown) {
+      clientOptions(options);
+    }
+  },
+}));
+
+const IMAGES: AnalysisImage[] = [{ view: 'front', base64: 'aW1hZ2U=', mimeType: 'image/jpeg' }];
+
+beforeEach(() => {
+  generateContent.mockReset();
+  clientOptions.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('createRateLimiter', () => {
+  it('allows a limited number of requests per client in a sliding window', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+    expect(limiter.take('a', 0)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(limiter.take('a', 10_000)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(limiter.take('a', 20_000)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 40_000 });
+    expect(limiter.take('b', 20_000).allowed).toBe(true);
+    expect(limiter.take('a', 60_000).allowed).toBe(true);
+  });
+});
+
+describe('getClientId', () => {
+  it('uses the forwarded address for requests from a local proxy', () => {
+    expect(getClientId('127.0.0.1', '203.0.113.5')).toBe('203.0.113.5');
+    expect(getClientId('::ffff:127.0.0.1', '198.51.100.1, 203.0.113.5')).toBe('203.0.113.5');
+    expect(getClientId('::1', undefined)).toBe('::1');
+  });
+
+  it('ignores X-Forwarded-For from other addresses', () => {
+    expect(getClientId('203.0.113.5', '10.0.0.1')).toBe('203.0.113.5');
+    expect(getClientId(undefined, '10.0.0.1')).toBe('unknown');
+  });
+});
+
+describe('parseAnalyzeRequest', () => {
+  it.each([
+    ['no images', { images: [] }, /1 to 3 photos/],
+    ['too many images', { images: [...IMAGES, ...IMAGES, ...IMAGES, ...IMAGES] }, /1 to 3 photos/],
+    ['an unsupported type', { images: [{ ...IMAGES[0], mimeType: 'application/pdf' }] }, /mimeType/],
+    ['a data URL', { images: [{ ...IMAGES[0], base64: 'data:image/jpeg;base64,aW1hZ2U=' }] }, /base64/],
+    ['a repeated view', { images: [IMAGES[0], IMAGES[0]] }, /not repeat/],
+    ['a profile first', { images: [{ ...IMAGES[0], view: 'left' }] }, /front view/],
+  ])('rejects %s', (_, body, message) => {
+    expect(() => parseAnalyzeRequest(body)).toThrow(message);
+  });
+
+  it('rejects bodies and options that are not objects', () => {
+    expect(() => parseAnalyzeRequest(null)).toThrow(RequestValidationError);
+    expect(() => parseAnalyzeRequest([IMAGES])).toThrow('must be a JSON object');
+    expect(() => parseAnalyzeRequest({ images: IMAGES, options: null })).toThrow('"options" must be an object');
+    expect(() => parseAnalyzeRequest({ images: IMAGES, options: ['en'] })).toThrow('"options" must be an object');
+  });
+
+  it.each([['tattoos'], [3], ['constructor'], ['__proto__']])('rejects the metric %j', (metric) => {
+    expect(() => parseAnalyzeRequest({ images: IMAGES, options: { metrics: ['acne', metric] } })).toThrow('options.metrics[1] is not a known metric');
+  });
+
+  it('keeps the requested metrics and resolves the language', () => {
+    const request = parseAnalyzeRequest({ images: IMAGES, options: { metrics: ['acne', 'redness'], language: 'pt-BR' } });
+
+    expect(request.options).toEqual({ metrics: ['acne', 'redness'], language: 'pt' });
+  });
+});
+
+describe('handleAnalyzeRequest', () => {
+  it('analyzes with the server key and returns the validated result with its model calls', async () => {
+    generateContent.mockResolvedValue({ text: VALID_RESPONSE, usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: 400 } });
+
+    const response = await handleAnalyzeRequest({ images: IMAGES, options: { language: 'en' } }, 'server-key');
+
+    expect(clientOptions).toHaveBeenCalledWith({ apiKey: 'server-key' });
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      result: { overallScore: 76, prompt: { language: 'en' } },
+      calls: [{ provider: 'gemini', inputTokens: 1200, outputTokens: 400, outcome: 'success' }],
+    });
+  });
+
+  it('answers 400 without calling the model for an invalid request', async () => {
+    const response = await handleAnalyzeRequest({ images: 'photo' }, 'server-key');
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ error: { code: 'invalid_request' } });
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('answers 400 for metrics inherited from the object prototype', async () => {
+    const response = await handleAnalyzeRequest({ images: IMAGES, options: { metrics: ['constructor'] } }, 'server-key');
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ error: { code: 'invalid_request', message: 'options.metrics[0] is not a known metric.' } });
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('answers 502 when the model response fails validation', async () => {
+    generateContent.mockResolvedValue({ text: TRUNCATED_RESPONSE });
+
+    const response = await handleAnalyzeRequest({ images: IMAGES }, 'server-key');
+
+    expect(response.status).toBe(502);
+    expect(response.body).toMatchObject({ error: { code: 'model_format' }, calls: [{ outcome: 'success' }] });
+  });
+});
+
+describe('analyzeSkinImages through the proxy', () => {
+  beforeEach(() => {
+    vi.stubEnv('GEMINI_PROXY_URL', '/api/analyze');
+    vi.stubEnv('API_KEY', '');
+  });
+
+  it('posts the photos and options to the proxy and records its model calls', async () => {
+    const fetchMock = vi.fn(async () => Response.json({
+      result: { overallScore: 76 },
+      calls: [{ timestamp: 1, provider: 'gemini', model: 'proxy-model', inputTokens: 900, outputTokens: 100, latencyMs: 5, outcome: 'success' }],
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(checkAndPromptApiKey()).resolves.toBeUndefined();
+    await expect(analyzeSkinImages(IMAGES, { metrics: ['acne'], language: 'es' })).resolves.toEqual({ overallScore: 76 });
+
+    expect(generateContent).not.toHaveBeenCalled();
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('/api/analyze');
+    expect(JSON.parse(init.body as string)).toEqual({ images: IMAGES, options: { metrics: ['acne'], language: 'es' } });
+    await vi.waitFor(async () => expect(await listApiCalls()).toContainEqual(expect.objectContaining({ model: 'proxy-model' })));
+  });
+
+  it('maps proxy error codes to the matching errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: { code: 'rate_limited', message: 'Too many requests.' } }, { status: 429 })));
+
+    await expect(analyzeSkinImages(IMAGES)).rejects.toMatchObject({ name: 'QuotaError', code: 'rate_limited', status: 429 });
+  });
+});
@@ -0,0 +1,25 @@
+// tests/apiKeyStore.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadApiKey, saveApiKey } from '../services/apiKeyStore';
+import { STORES, clearDatabase, requestToPromise, withTransaction } from '../services/database';
+
+beforeEach(async () => {
+  await clearDatabase();
+});
+
+describe('saveApiKey', () => {
+  it('creates a single device key when keys are saved concurrently on first use', async () => {
+    const generateKey = vi.spyOn(crypto.subtle, 'generateKey');
+
+    await Promise.all([saveApiKey('AIza-first'), saveApiKey('AIza-second')]);
+
+    expect(generateKey).toHaveBeenCalledTimes(1);
+
+    const records = await withTransaction(STORES.secrets, 'readonly', (tx) =>
+      requestToPromise<{ id: string }[]>(tx.objectStore(STORES.secrets).getAll()),
+    );
+    expect(records.map((record) => record.id).sort()).toEqual(['deviceKey', 'geminiApiKey']);
+    expect(['AIza-first', 'AIza-second']).toContain(await loadApiKey());
+  });
+});
@@ -0,0 +1,212 @@
+// tests/dataExport.test.ts
+
+import { Blob as NodeBlob } from 'node:buffer';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  EXPORT_SCHEMA_VERSION,
+  exportDataArchive,
+  exportDataAsJson,
+  exportScansAsCsv,
+  importDataArchive,
+  migrateDataExport,
+} from '../services/dataExport';
+import { removeScanPhoto } from '../services/dataRetention';
+import { STORES, requestToPromise, withTransaction } from '../services/database';
+import { createGoal, listGoals } from '../services/goalRepository';
+import { getScan, listScans, saveScan } from '../services/scanRepository';
+import { getSettings, updateSettings } from '../services/settingsService';
+import { SkinAnalysisResult } from '../types';
+import { createZip, readZip } from '../utils/zip';
+import { VALID_RESPONSE } from './fixtures/geminiResponses';
+
+const RESULT = JSON.parse(VALID_RESPONSE) as SkinAnalysisResult;
+
+// jsdom's Blob cannot be read back; Node's can, and the export code only uses the standard Blob API.
+const readBlob = (blob: Blob) => (blob as unknown as NodeBlob).text();
+
+const clearStores = () =>
+  withTransaction([STORES.scans, STORES.goals], 'readwrite', (tx) =>
+    Promise.all([requestToPromise(tx.objectStore(STORES.scans).clear()), requestToPromise(tx.objectStore(STORES.goals).clear())]),
+  );
+
+const seed = async () => {
+  const { issues: { symmetry: _, ...issues } } = RESULT;
+  const first = await saveScan({ result: { ...RESULT, issues }, imageBase64: 'ZnJvbnQtMQ==', mimeType: 'image/jpeg', createdAt: Date.UTC(2026, 0, 5) });
+  const second = await saveScan({
+    result: { ...RESULT, overallScore: 81 },
+    imageBase64: 'ZnJvbnQtMg==',
+    mimeType: 'image/jpeg',
+    createdAt: Date.UTC(2026, 1, 5),
+    sideViews: [{ view: 'left', mimeType: 'image/png', imageBase64: 'bGVmdA==' }],
+  });
+  await createGoal({ metric: 'acne', baselineScanId: first.id, baselineScore: 76, baselineAt: first.createdAt, targetDelta: 10, deadline: Date.UTC(2026, 5, 1) });
+  updateSettings({ language: 'es', analysisSamples: 3 });
+  return { first, second };
+};
+
+beforeEach(async () => {
+  vi.stubGlobal('Blob', NodeBlob);
+  await clearStores();
+});
+
+describe('exportScansAsCsv', () => {
+  it('writes one row per scan, oldest first, with one column per metric', async () => {
+    const { first, second } = await seed();
+
+    const [header, firstRow, secondRow, trailing] = (await readBlob(await exportScansAsCsv())).split('\r\n');
+
+    expect(header).toBe('id,createdAt,capturedAt,overallScore,skinType,fitzpatrickScale,acne,wrinkles,hyperpigmentation,pores,redness,texture,hydration,oiliness,darkCircles,symmetry');
+    expect(firstRow).toBe(`${first.id},2026-01-05T00:00:00.000Z,,76,combination,III,24,10,30,42,18,70,64,58,28,`);
+    expect(secondRow).toBe(`${second.id},2026-02-05T00:00:00.000Z,,81,combination,III,24,10,30,42,18,70,64,58,28,86`);
+    expect(trailing).toBe('');
+  });
+});
+
+describe('exportDataAsJson', () => {
+  it('contains every result, goal and setting but no photos', async () => {
+    await seed();
+
+    const data = JSON.parse(await readBlob(await exportDataAsJson()));
+
+    expect(data).toMatchObject({ schemaVersion: EXPORT_SCHEMA_VERSION, settings: { language: 'es', analysisSamples: 3 } });
+    expect(data.scans.map((scan: any) => scan.result.overallScore)).toEqual([76, 81]);
+    expect(data.goals).toHaveLength(1);
+    expect(JSON.stringify(data)).not.toContain('ZnJvbnQ');
+  });
+});
+
+describe('exportDataArchive and importDataArchive', () => {
+  it('restores photos, results, goals and settings on an empty device', async () => {
+    const { second } = await seed();
+    const archive = await exportDataArchive();
+
+    const files = await readZip(await (archive as unknown as NodeBlob).arrayBuffer());
+    expect([...files.keys()]).toEqual([
+      'manifest.json',
+      expect.stringMatching(/^photos\/.+-front\.jpg$/),
+      `photos/${second.id}-front.jpg`,
+      `photos/${second.id}-left.png`,
+    ]);
+
+    await clearStores();
+    localStorage.clear();
+
+    await expect(importDataArchive(archive)).resolves.toEqual({
+      scansImported: 2, scansSkipped: 0, scansInvalid: 0, goalsImported: 1, goalsSkipped: 0, goalsInvalid: 0, settingsRestored: true, settingsInvalid: 0,
+    });
+    expect(await getScan(second.id)).toEqual(second);
+    expect(await listGoals(true)).toHaveLength(1);
+    expect(getSettings()).toMatchObject({ language: 'es', analysisSamples: 3 });
+  });
+
+  it('skips scans and goals that are already on the device and keeps local settings', async () => {
+    await seed();
+    const archive = await exportDataArchive();
+    updateSettings({ language: 'fr' });
+
+    await expect(importDataArchive(archive)).resolves.toMatchObject({ scansImported: 0, scansSkipped: 2, goalsImported: 0, goalsSkipped: 1 });
+    expect(await listScans()).toHaveLength(2);
+    expect(getSettings().language).toBe('fr');
+  });
+
+  it('keeps deleted photos deleted', async () => {
+    const { first } = await seed();
+    await removeScanPhoto(first.id, 'front');
+    const archive = await exportDataArchive();
+    await clearStores();
+
+    await expect(importDataArchive(archive)).resolves.toMatchObject({ scansImported: 2, scansInvalid: 0 });
+    expect(await getScan(first.id)).not.toHaveProperty('imageBase64');
+  });
+
+  it('leaves out scans whose photo is missing from the archive', async () => {
+    const manifest = {
+      format: 'ai-skin-health-tracker-export',
+      schemaVersion: 1,
+      exportedAt: 0,
+      scans: [{ id: 'no-photo', createdAt: 1, mimeType: 'image/jpeg', result: RESULT, photo: 'photos/no-photo-front.jpg' }],
+      goals: [],
+      settings: {},
+    };
+    const archive = createZip([{ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest)) }]);
+
+    await expect(importDataArchive(archive)).resolves.toMatchObject({ scansImported: 0, scansInvalid: 1 });
+    expect(await listScans()).toEqual([]);
+  });
+
+  it('repairs imported results and leaves out ones that cannot be shown', async () => {
+    const { overallScore: _, ...withoutScore } = RESULT;
+    const manifest = {
+      format: 'ai-skin-health-tracker-export',
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      exportedAt: 0,
+      scans: [
+        { id: 'repaired', createdAt: 1, mimeType: 'image/jpeg', result: { ...RESULT, overallScore: 140, skinType: 'Oily' } },
+        { id: 'malformed', createdAt: 2, mimeType: 'image/jpeg', result: withoutScore },
+        { id: 'no-result', createdAt: 3, mimeType: 'image/jpeg', result: 'acne' },
+      ],
+      goals: [],
+      settings: {},
+    };
+    const archive = createZip([{ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest)) }]);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(importDataArchive(archive)).resolves.toMatchObject({ scansImported: 1, scansInvalid: 2 });
+    const [scan] = await listScans();
+    expect(scan).toMatchObject({ id: 'repaired', result: { overallScore: 100, skinType: 'oily', validationReport: { missingMetrics: [] } } });
+  });
+
+  it.each([
+    [1, { baselineScore: 24, targetDelta: -14 }],
+    [EXPORT_SCHEMA_VERSION, { baselineScore: 76, targetDelta: 14 }],
+  ])('leaves out malformed goals and settings of version %i archives', async (schemaVersion, scores) => {
+    const goal = { id: 'goal', metric: 'acne', baselineScanId: 'scan', baselineAt: 0, deadline: 1, createdAt: 0, updatedAt: 0, ...scores };
+    const manifest = {
+      format: 'ai-skin-health-tracker-export',
+      schemaVersion,
+      exportedAt: 0,
+      scans: [],
+      goals: [goal, { ...goal, id: 'no-metric', metric: undefined }, { ...goal, id: 'inherited', metric: 'constructor' }, { ...goal, id: 'no-deadline', deadline: '2026-06-01' }],
+      settings: { language: 'es', analysisSamples: 'many', monthlyBudget: -5, theme: 'dark' },
+    };
+    const archive = createZip([{ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest)) }]);
+
+    await expect(importDataArchive(archive)).resolves.toMatchObject({ goalsImported: 1, goalsInvalid: 3, settingsRestored: true, settingsInvalid: 3 });
+    expect(await listGoals(true)).toEqual([expect.objectContaining({ id: 'goal', baselineScore: 76, targetDelta: 14 })]);
+    expect(getSettings()).toEqual({ language: 'es' });
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(importDataArchive(new Blob(['{}']))).rejects.toThrow('not a ZIP archive');
+  });
+});
+
+describe('migrateDataExport', () => {
+  it('rejects exports from newer versions and unrelated files', () => {
+    expect(() => migrateDataExport({ format: 'ai-skin-health-tracker-export', schemaVersion: EXPORT_SCHEMA_VERSION + 1 })).toThrow('newer version');
+    expect(() => migrateDataExport({ scans: [] })).toThrow('not a data export');
+  });
+
+  it('converts goals of version 1 exports to the health axis', () => {
+    const goal = { id: 'g', metric: 'acne', baselineScanId: 's', baselineScore: 24, baselineAt: 0, targetDelta: -14, deadline: 1, createdAt: 0, updatedAt: 0 };
+
+    expect(migrateDataExport({ format: 'ai-skin-health-tracker-export', schemaVersion: 1, goals: [goal] }).goals).toEqual([
+      { ...goal, baselineScore: 76, targetDelta: 14 },
+    ]);
+  });
+
+  it('fills in sections missing from older exports', () => {
+    expect(migrateDataExport({ format: 'ai-skin-health-tracker-export', schemaVersion: EXPORT_SCHEMA_VERSION, scans: [] })).toMatchObject({
+      scans: [], goals: [], settings: {},
+    });
+  });
+});
+
+describe('readZip', () => {
+  it('detects corrupted entries', async () => {
+    const bytes = new Uint8Array(await (createZip([{ name: 'a.txt', data: new TextEncoder().encode('hello') }]) as unknown as NodeBlob).arrayBuffer());
+    bytes[30 + 'a.txt'.length] ^= 0xff; // Flip the first data byte
+
+    await expect(readZip(bytes.buffer)).rejects.toThrow('checksum mismatch');
+  });
+});
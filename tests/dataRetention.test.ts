@@ -0,0 +1,157 @@
+// tests/dataRetention.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { withAnalysisCache } from '../services/analysisCache';
+import { AnalysisProvider } from '../services/analysisProvider';
+import { saveApiKey } from '../services/apiKeyStore';
+import { applyPhotoRetention, deleteAllData, removeScan, removeScanPhoto } from '../services/dataRetention';
+import { STORES, clearDatabase, requestToPromise, withTransaction } from '../services/database';
+import { createGoal, listGoals } from '../services/goalRepository';
+import { getScan, listScans, saveScan } from '../services/scanRepository';
+import { getSettings, updateSettings } from '../services/settingsService';
+import { recordApiCall } from '../services/usageRepository';
+import { SkinAnalysisResult } from '../types';
+import { DAY_MS } from '../utils/dateUtils';
+import { VALID_RESPONSE } from './fixtures/geminiResponses';
+
+const RESULT = JSON.parse(VALID_RESPONSE) as SkinAnalysisResult;
+const FRONT = 'ZnJvbnQ=';
+const LEFT = 'bGVmdA==';
+const LANDMARKS = { boundingBox: { x: 0.3, y: 0.2, width: 0.4, height: 0.5 }, eyes: [] };
+
+const countRecords = (store: (typeof STORES)[keyof typeof STORES]) =>
+  withTransaction(store, 'readonly', (tx) => requestToPromise(tx.objectStore(store).count()));
+
+const saveSession = (createdAt = Date.now()) =>
+  saveScan({
+    result: RESULT,
+    imageBase64: FRONT,
+    mimeType: 'image/jpeg',
+    createdAt,
+    landmarks: LANDMARKS,
+    sideViews: [{ view: 'left', mimeType: 'image/jpeg', imageBase64: LEFT }],
+  });
+
+// A provider behind the analysis cache that counts how often it really analyzes.
+const createCachedProvider = () => {
+  const analyze = vi.fn(async () => RESULT);
+  const provider: AnalysisProvider = {
+    id: 'mock',
+    label: 'Test',
+    description: '',
+    getModel: () => 'test-model',
+    prepare: async () => {},
+    analyze,
+  };
+  return { analyze, cached: withAnalysisCache(provider) };
+};
+
+const analyzeSession = (provider: AnalysisProvider) =>
+  provider.analyze(
+    [{ view: 'front', base64: FRONT, mimeType: 'image/jpeg' }, { view: 'left', base64: LEFT, mimeType: 'image/jpeg' }],
+    { metrics: ['acne'], language: 'en' },
+  );
+
+beforeEach(async () => {
+  await clearDatabase();
+});
+
+describe('removeScanPhoto', () => {
+  it('deletes the photo and its landmarks but keeps the result', async () => {
+    const scan = await saveSession();
+
+    const updated = await removeScanPhoto(scan.id, 'front');
+
+    expect(updated).not.toHaveProperty('imageBase64');
+    expect(updated).not.toHaveProperty('landmarks');
+    expect(await getScan(scan.id)).toEqual({ ...updated, result: RESULT });
+    expect(updated?.sideViews?.[0].imageBase64).toBe(LEFT);
+  });
+
+  it('deletes one side view photo', async () => {
+    const scan = await saveSession();
+
+    const updated = await removeScanPhoto(scan.id, 'left');
+
+    expect(updated?.imageBase64).toBe(FRONT);
+    expect(updated?.sideViews).toEqual([{ view: 'left', mimeType: 'image/jpeg' }]);
+  });
+
+  it('forgets cached analyses of the deleted photo', async () => {
+    const { analyze, cached } = createCachedProvider();
+    await analyzeSession(cached);
+    await vi.waitFor(async () => expect(await countRecords(STORES.analysisCache)).toBe(1));
+    await expect(analyzeSession(cached)).resolves.toHaveProperty('cachedAt');
+
+    const scan = await saveSession();
+    await removeScanPhoto(scan.id, 'left');
+
+    expect(await countRecords(STORES.analysisCache)).toBe(0);
+    await analyzeSession(cached);
+    expect(analyze).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('removeScan', () => {
+  it('deletes the scan and its cached analyses but keeps goals based on it', async () => {
+    const { cached } = createCachedProvider();
+    await analyzeSession(cached);
+    await vi.waitFor(async () => expect(await countRecords(STORES.analysisCache)).toBe(1));
+    const scan = await saveSession();
+    await createGoal({ metric: 'acne', baselineScanId: scan.id, baselineScore: 76, baselineAt: scan.createdAt, targetDelta: 10, deadline: Date.now() + DAY_MS });
+
+    await removeScan(scan.id);
+
+    expect(await getScan(scan.id)).toBeUndefined();
+    expect(await countRecords(STORES.analysisCache)).toBe(0);
+    expect(await listGoals()).toHaveLength(1);
+  });
+});
+
+describe('applyPhotoRetention', () => {
+  it('does nothing without a retention period', async () => {
+    await saveSession(Date.now() - 400 * DAY_MS);
+
+    await expect(applyPhotoRetention()).resolves.toBe(0);
+  });
+
+  it('deletes every photo of scans older than the retention period and keeps their results', async () => {
+    const now = Date.UTC(2026, 5, 1);
+    const old = await saveSession(now - 31 * DAY_MS);
+    const recent = await saveSession(now - 29 * DAY_MS);
+    updateSettings({ photoRetentionDays: 30 });
+
+    await expect(applyPhotoRetention(now)).resolves.toBe(1);
+    await expect(applyPhotoRetention(now)).resolves.toBe(0);
+
+    expect(await getScan(old.id)).toEqual({
+      id: old.id,
+      createdAt: old.createdAt,
+      mimeType: 'image/jpeg',
+      result: RESULT,
+      sideViews: [{ view: 'left', mimeType: 'image/jpeg' }],
+    });
+    expect(await getScan(recent.id)).toEqual(recent);
+  });
+});
+
+describe('deleteAllData', () => {
+  it('wipes scans, goals, caches, usage records, keys and settings', async () => {
+    const scan = await saveSession();
+    await createGoal({ metric: 'acne', baselineScanId: scan.id, baselineScore: 76, baselineAt: scan.createdAt, targetDelta: 10, deadline: Date.now() + DAY_MS });
+    await recordApiCall({ timestamp: Date.now(), provider: 'gemini', model: 'm', inputTokens: 1, outputTokens: 1, latencyMs: 1, outcome: 'success' });
+    await saveApiKey('AIza-secret');
+    const { cached } = createCachedProvider();
+    await analyzeSession(cached);
+    await vi.waitFor(async () => expect(await countRecords(STORES.analysisCache)).toBe(1));
+    updateSettings({ language: 'es' });
+
+    await deleteAllData();
+
+    expect(await listScans()).toEqual([]);
+    for (const store of Object.values(STORES)) {
+      expect(await countRecords(store)).toBe(0);
+    }
+    expect(getSettings()).toEqual({});
+  });
+});
@@ -0,0 +1,78 @@
+// tests/faceDetection.test.ts
+
+import { describe, expect, it, vi } from 'vitest';
+import { evaluateAlignment, toFaceLandmarks } from '../utils/faceAlignment';
+import { detectFaces, prepareFaceDetection } from '../utils/faceDetection';
+
+const { detect } = vi.hoisted(() => ({ detect: vi.fn() }));
+
+vi.mock('@mediapipe/tasks-vision', () => ({
+  FilesetResolver: { forVisionTasks: async () => ({}) },
+  FaceLandmarker: { createFromOptions: async () => ({ detect }) },
+}));
+
+// A 478-point mesh of a level, frontal face centred in the frame; only the points the guide uses are placed.
+const createMesh = () => {
+  const mesh = Array.from({ length: 478 }, () => ({ x: 0.5, y: 0.45, z: 0 }));
+  const place = (index: number, x: number, y: number) => {
+    mesh[index] = { x, y, z: 0 };
+  };
+  place(10, 0.5, 0.16); // Forehead
+  place(152, 0.5, 0.76); // Chin
+  place(234, 0.3, 0.45); // Cheek on the image's left
+  place(454, 0.7, 0.45); // Cheek on the image's right
+  place(33, 0.36, 0.4);
+  place(133, 0.44, 0.4);
+  place(362, 0.56, 0.4);
+  place(263, 0.64, 0.4);
+  place(1, 0.5, 0.5);
+  [61, 291, 13, 14].forEach((index, i) => place(index, [0.44, 0.56, 0.5, 0.5][i], 0.6));
+  return mesh;
+};
+
+const createImage = (width: number, height: number) => {
+  const image = document.createElement('img');
+  Object.defineProperty(image, 'naturalWidth', { value: width });
+  Object.defineProperty(image, 'naturalHeight', { value: height });
+  return image;
+};
+
+describe('detectFaces', () => {
+  it('turns MediaPipe face meshes into pixel boxes with eye, nose and mouth landmarks', async () => {
+    detect.mockReturnValue({ faceLandmarks: [createMesh()] });
+
+    await expect(prepareFaceDetection()).resolves.toBe(true);
+    const faces = await detectFaces(createImage(1000, 1000));
+
+    expect(faces).toHaveLength(1);
+    const [face] = faces!;
+    expect(face.x).toBeCloseTo(300);
+    expect(face.y).toBeCloseTo(160);
+    expect(face.width).toBeCloseTo(400);
+    expect(face.height).toBeCloseTo(600);
+    const landmarks = toFaceLandmarks(face, 1000, 1000);
+    expect(landmarks.eyes.map((eye) => eye.x)).toEqual([expect.closeTo(0.4), expect.closeTo(0.6)]);
+    expect(landmarks.nose).toEqual({ x: expect.closeTo(0.5), y: expect.closeTo(0.5) });
+    expect(landmarks.mouth?.y).toBeCloseTo(0.6);
+  });
+
+  it('feeds the alignment guide', async () => {
+    detect.mockReturnValue({ faceLandmarks: [createMesh()] });
+    const faces = (await detectFaces(createImage(1000, 1000)))!;
+
+    const first = evaluateAlignment(faces, 1000, 1000, null);
+    const second = evaluateAlignment(faces, 1000, 1000, first.center);
+
+    expect(first.hint).toBe('hold_still');
+    expect(second.hint).toBe('aligned');
+  });
+
+  it('reports detection failures as unavailable', async () => {
+    detect.mockImplementation(() => {
+      throw new Error('graph error');
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(detectFaces(createImage(1000, 1000))).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+// tests/fixtures/geminiResponses.ts
+
+/**
+ * Hand-written model responses, built from one sample analysis and shaped like gemini-2.5-flash-image output.
+ * They are not recorded from the API. Each is a raw `response.text` as the SDK returns it, so they exercise fence
+ * stripping, JSON parsing and schema repair together.
+ */
+
+const validAnalysis = {
+  overallScore: 76,
+  skinType: 'combination',
+  fitzpatrickScale: 'III',
+  issues: {
+    acne: { score: 24, severity: 'low', areas: ['chin', 'forehead'] },
+    wrinkles: { score: 10, severity: 'low', areas: ['leftPeriorbital', 'rightPeriorbital'] },
+    hyperpigmentation: { score: 30, severity: 'medium', areas: ['leftCheek', 'rightCheek'] },
+    pores: { score: 42, severity: 'medium', areas: ['nose'] },
+    redness: { score: 18, severity: 'low', areas: ['nose'] },
+    texture: { score: 70, severity: 'low' },
+    hydration: { score: 64, severity: 'medium', areas: ['leftCheek', 'rightCheek'] },
+    oiliness: { score: 58, severity: 'medium', areas: ['forehead', 'nose'] },
+    darkCircles: { score: 28, severity: 'low', areas: ['leftPeriorbital', 'rightPeriorbital'] },
+    symmetry: { score: 86, description: 'Well balanced features.' },
+  },
+  recommendations: {
+    morningRoutine: ['Gentle cleanser', 'Vitamin C serum', 'SPF 50'],
+    eveningRoutine: ['Double cleanse', 'Niacinamide', 'Moisturizer'],
+    weeklyTreatments: ['Clay mask on the T-zone'],
+    lifestyleTips: ['Stay hydrated'],
+  },
+  explainability: 'Mild congestion in the T-zone with some uneven tone on the cheeks.',
+};
+
+/** A complete response returned as bare JSON, as the prompt asks for. */
+export const VALID_RESPONSE = JSON.stringify(validAnalysis, null, 2);
+
+/** The same response wrapped in a ```json fence, which the model often adds despite the prompt. */
+export const JSON_FENCED_RESPONSE = `\`\`\`json\n${VALID_RESPONSE}\n\`\`\``;
+
+/** Wrapped in a fence without a language tag. */
+export const PLAIN_FENCED_RESPONSE = `\`\`\`\n${VALID_RESPONSE}\n\`\`\``;
+
+/** Cut off mid-object, as happens when the output token limit is reached. */
+export const TRUNCATED_RESPONSE = VALID_RESPONSE.slice(0, Math.floor(VALID_RESPONSE.length / 2));
+
+/** Only fences, no content. */
+export const EMPTY_FENCED_RESPONSE = '```json\n```';
+
+/** Fixable type mistakes: a numeric string, enum casing, bare strings instead of lists, an out-of-range score. */
+export const REPAIRABLE_RESPONSE = JSON.stringify({
+  ...validAnalysis,
+  overallScore: '76',
+  skinType: 'Combination',
+  issues: {
+    ...validAnalysis.issues,
+    pores: { score: 142, severity: 'medium', areas: 'nose' },
+  },
+  recommendations: { ...validAnalysis.recommendations, weeklyTreatments: 'Clay mask on the T-zone' },
+});
+
+/** One metric with an unusable score; the metric is dropped while the rest of the result is kept. */
+export const WRONG_TYPED_METRIC_RESPONSE = JSON.stringify({
+  ...validAnalysis,
+  issues: { ...validAnalysis.issues, acne: { score: 'moderate', severity: 'medium' } },
+});
+
+/** The overall score is not a number at all, which cannot be repaired. */
+export const WRONG_TYPED_SCORE_RESPONSE = JSON.stringify({ ...validAnalysis, overallScore: 'good' });
+
+/** A requested metric is missing from `issues`. */
+const { darkCircles, ...issuesWithoutDarkCircles } = validAnalysis.issues;
+export const MISSING_METRIC_RESPONSE = JSON.stringify({ ...validAnalysis, issues: issuesWithoutDarkCircles });
+
+/** The required `issues` object is missing entirely. */
+const { issues, ...analysisWithoutIssues } = validAnalysis;
+export const MISSING_ISSUES_RESPONSE = JSON.stringify(analysisWithoutIssues);
@@ -0,0 +1,314 @@
+// tests/geminiService.test.ts
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisImage } from '../types';
+import {
+  EMPTY_FENCED_RESPONSE,
+  JSON_FENCED_RESPONSE,
+  MISSING_ISSUES_RESPONSE,
+  MISSING_METRIC_RESPONSE,
+  PLAIN_FENCED_RESPONSE,
+  REPAIRABLE_RESPONSE,
+  TRUNCATED_RESPONSE,
+  VALID_RESPONSE,
+  WRONG_TYPED_METRIC_RESPONSE,
+  WRONG_TYPED_SCORE_RESPONSE,
+} from './fixtures/geminiResponses';
+
+const { generateContent, clientOptions } = vi.hoisted(() => ({ generateContent: vi.fn(), clientOptions: vi.fn() }));
+
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: class {
+    models = { generateContent };
+    constructor(options: unknown) {
+      clientOptions(options);
+    }
+  },
+}));
+
+const IMAGES: AnalysisImage[] = [{ view: 'front', base64: 'aW1hZ2U=', mimeType: 'image/jpeg' }];
+
+const respondWith = (text: string) =>
+  generateContent.mockResolvedValue({ text, usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: 400 } });
+
+// The API key helpers keep module state, so every test gets a fresh copy of the service.
+const loadService = async () => {
+  vi.resetModules();
+  return import('../services/geminiService');
+};
+
+// Errors must come from the same module instance the freshly loaded service checks against.
+const apiError = async (message: string, status: number) => {
+  const { ApiError } = await import('@google/genai');
+  return new ApiError({ message, status });
+};
+
+beforeEach(() => {
+  generateContent.mockReset();
+  clientOptions.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('analyzeSkinImages', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_KEY', 'test-key');
+  });
+
+  it('parses a bare JSON response without a validation report', async () => {
+    respondWith(VALID_RESPONSE);
+    const { analyzeSkinImages } = await loadService();
+
+    const result = await analyzeSkinImages(IMAGES, { language: 'en' });
+
+    expect(result.overallScore).toBe(76);
+    expect(result.issues.acne).toEqual({ score: 24, severity: 'low', areas: ['chin', 'forehead'] });
+    expect(result.validationReport).toBeUndefined();
+    expect(result.prompt).toMatchObject({ template: 'skin-analysis', language: 'en' });
+  });
+
+  it.each([
+    ['a ```json fence', JSON_FENCED_RESPONSE],
+    ['a plain ``` fence', PLAIN_FENCED_RESPONSE],
+  ])('strips %s around the JSON', async (_, text) => {
+    respondWith(text);
+    const { analyzeSkinImages } = await loadService();
+
+    await expect(analyzeSkinImages(IMAGES)).resolves.toMatchObject({ overallScore: 76, skinType: 'combination' });
+  });
+
+  it('sends the prompt and every photo to the configured model', async () => {
+    respondWith(VALID_RESPONSE);
+    vi.stubEnv('GEMINI_MODEL', 'gemini-test-model');
+    const { analyzeSkinImages } = await loadService();
+
+    await analyzeSkinImages([...IMAGES, { view: 'left', base64: 'bGVmdA==', mimeType: 'image/jpeg' }]);
+
+    const [request] = generateContent.mock.calls[0];
+    expect(request.model).toBe('gemini-test-model');
+    expect(request.contents.parts[0].text).toContain('JSON');
+    expect(request.contents.parts.filter((part: any) => part.inlineData).map((part: any) => part.inlineData.data)).toEqual([
+      'aW1hZ2U=',
+      'bGVmdA==',
+    ]);
+  });
+
+  it('repairs numeric strings, enum casing, out-of-range scores and bare strings and reports each repair', async () => {
+    respondWith(REPAIRABLE_RESPONSE);
+    const { analyzeSkinImages } = await loadService();
+
+    const result = await analyzeSkinImages(IMAGES);
+
+    expect(result.overallScore).toBe(76);
+    expect(result.skinType).toBe('combination');
+    expect(result.issues.pores).toEqual({ score: 100, severity: 'medium', areas: ['nose'] });
+    expect(result.recommendations.weeklyTreatments).toEqual(['Clay mask on the T-zone']);
+    expect(result.validationReport?.violations.map((violation) => violation.path)).toEqual(
+      expect.arrayContaining(['overallScore', 'skinType', 'issues.pores.score', 'issues.pores.areas', 'recommendations.weeklyTreatments']),
+    );
+  });
+
+  it('drops a metric with an unusable value and keeps the rest of the result', async () => {
+    respondWith(WRONG_TYPED_METRIC_RESPONSE);
+    const { analyzeSkinImages } = await loadService();
+
+    const result = await analyzeSkinImages(IMAGES);
+
+    expect(result.issues.acne).toBeUndefined();
+    expect(result.issues.pores).toBeDefined();
+    expect(result.validationReport?.missingMetrics).toEqual(['acne']);
+    expect(result.validationReport?.violations).toContainEqual(expect.objectContaining({ path: 'issues.acne.score', level: 'dropped' }));
+  });
+
+  it('lists requested metrics the model left out', async () => {
+    respondWith(MISSING_METRIC_RESPONSE);
+    const { analyzeSkinImages } = await loadService();
+
+    const result = await analyzeSkinImages(IMAGES);
+
+    expect(result.issues.darkCircles).toBeUndefined();
+    expect(result.validationReport?.missingMetrics).toEqual(['darkCircles']);
+  });
+
+  it('only validates the requested metrics', async () => {
+    respondWith(MISSING_METRIC_RESPONSE);
+    const { analyzeSkinImages } = await loadService();
+
+    const result = await analyzeSkinImages(IMAGES, { metrics: ['acne', 'pores'] });
+
+    expect(Object.keys(result.issues)).toEqual(['acne', 'pores']);
+    expect(result.validationReport).toBeUndefined();
+  });
+
+  it.each([
+    ['truncated JSON', TRUNCATED_RESPONSE, /not valid JSON/],
+    ['an empty response', '', /empty/],
+    ['a response with only fences', EMPTY_FENCED_RESPONSE, /only markdown fences/],
+    ['a non-numeric overall score', WRONG_TYPED_SCORE_RESPONSE, /overallScore: Expected a number/],
+    ['a response without issues', MISSING_ISSUES_RESPONSE, /issues: Expected an object/],
+  ])('rejects %s as a model_format error without retrying', async (_, text, message) => {
+    respondWith(text);
+    const { analyzeSkinImages } = await loadService();
+
+    const error = await analyzeSkinImages(IMAGES).catch((caught) => caught);
+
+    expect(error).toMatchObject({ name: 'MalformedResponseError', code: 'model_format', recovery: 'retry' });
+    expect(error.retryable).toBe(false);
+    expect(error.message).toMatch(message);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('classifies rate limiting from the API', async () => {
+    const { analyzeSkinImages } = await loadService();
+    generateContent.mockRejectedValue(await apiError('Resource exhausted', 429));
+
+    await expect(analyzeSkinImages(IMAGES, { maxRetries: 0 })).rejects.toMatchObject({ name: 'QuotaError', code: 'rate_limited', status: 429 });
+  });
+
+  it('asks for a new key when the API reports the key entity as missing', async () => {
+    const { analyzeSkinImages } = await loadService();
+    generateContent.mockRejectedValue(await apiError('Requested entity was not found.', 404));
+
+    await expect(analyzeSkinImages(IMAGES)).rejects.toMatchObject({ name: 'AuthError', code: 'api_key_invalid', recovery: 'select_api_key' });
+  });
+
+  it('fails before calling the API when no key is set', async () => {
+    vi.stubEnv('API_KEY', '');
+    const { analyzeSkinImages } = await loadService();
+
+    await expect(analyzeSkinImages(IMAGES)).rejects.toMatchObject({ name: 'AuthError', code: 'api_key_missing' });
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+});
+
+describe('checkAndPromptApiKey', () => {
+  afterEach(() => {
+    delete (window as Partial<Window>).aistudio;
+  });
+
+  it('resolves with an API key in the environment when AI Studio is unavailable', async () => {
+    vi.stubEnv('API_KEY', 'test-key');
+    const { checkAndPromptApiKey } = await loadService();
+
+    await expect(checkAndPromptApiKey()).resolves.toBeUndefined();
+  });
+
+  it('requires a key when neither the environment nor AI Studio provides one', async () => {
+    vi.stubEnv('API_KEY', '');
+    const { checkAndPromptApiKey } = await loadService();
+
+    await expect(checkAndPromptApiKey()).rejects.toMatchObject({ code: 'api_key_missing' });
+  });
+
+  it('opens the AI Studio key picker once and trusts the selection afterwards', async () => {
+    const aistudio = { hasSelectedApiKey: vi.fn().mockResolvedValue(true), openSelectKey: vi.fn().mockResolvedValue(undefined) };
+    window.aistudio = aistudio;
+    const { checkAndPromptApiKey } = await loadService();
+
+    await checkAndPromptApiKey();
+    await checkAndPromptApiKey();
+
+    expect(aistudio.openSelectKey).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a failed key selection', async () => {
+    window.aistudio = { hasSelectedApiKey: vi.fn().mockResolvedValue(false), openSelectKey: vi.fn().mockRejectedValue(new Error('closed')) };
+    const { checkAndPromptApiKey } = await loadService();
+
+    await expect(checkAndPromptApiKey()).rejects.toMatchObject({ code: 'api_key_selection_failed' });
+  });
+});
+
+describe('handleApiKeyError', () => {
+  afterEach(() => {
+    delete (window as Partial<Window>).aistudio;
+  });
+
+  it('rethrows errors unrelated to the API key unchanged', async () => {
+    const { handleApiKeyError } = await loadService();
+    const error = new Error('Something else');
+
+    await expect(handleApiKeyError(error)).rejects.toBe(error);
+  });
+
+  it('re-opens the key picker when the key is not found', async () => {
+    const aistudio = { hasSelectedApiKey: vi.fn(), openSelectKey: vi.fn().mockResolvedValue(undefined) };
+    window.aistudio = aistudio;
+    const { handleApiKeyError } = await loadService();
+
+    await expect(handleApiKeyError(new Error('Requested entity was not found.'))).rejects.toMatchObject({ code: 'api_key_invalid' });
+    expect(aistudio.openSelectKey).toHaveBeenCalled();
+  });
+
+  it('reports when re-selecting the key fails', async () => {
+    window.aistudio = { hasSelectedApiKey: vi.fn(), openSelectKey: vi.fn().mockRejectedValue(new Error('closed')) };
+    const { handleApiKeyError } = await loadService();
+
+    await expect(handleApiKeyError(new Error('Requested entity was not found.'))).rejects.toMatchObject({ code: 'api_key_selection_failed' });
+  });
+});
+
+describe('stored API key', () => {
+  afterEach(async () => {
+    const { removeApiKey } = await import('../services/apiKeyStore');
+    await removeApiKey();
+  });
+
+  it('encrypts the key at rest and decrypts it for requests, ahead of the environment key', async () => {
+    vi.stubEnv('API_KEY', 'env-key');
+    respondWith(VALID_RESPONSE);
+    const { analyzeSkinImages } = await loadService();
+    const { saveApiKey, getApiKeyInfo } = await import('../services/apiKeyStore');
+
+    await saveApiKey('  AIzaStoredKey1234 ');
+    await analyzeSkinImages(IMAGES);
+
+    expect(clientOptions).toHaveBeenCalledWith({ apiKey: 'AIzaStoredKey1234' });
+    expect(await getApiKeyInfo()).toMatchObject({ hint: '1234' });
+  });
+
+  it('lets the prompt pass without AI Studio or an environment key', async () => {
+    vi.stubEnv('API_KEY', '');
+    const { checkAndPromptApiKey } = await loadService();
+    const { saveApiKey } = await import('../services/apiKeyStore');
+
+    await saveApiKey('AIzaStoredKey1234');
+
+    await expect(checkAndPromptApiKey()).resolves.toBeUndefined();
+  });
+
+  it('asks to replace a rejected saved key instead of opening the AI Studio picker', async () => {
+    const aistudio = { hasSelectedApiKey: vi.fn(), openSelectKey: vi.fn() };
+    window.aistudio = aistudio;
+    const { handleApiKeyError } = await loadService();
+    const { saveApiKey } = await import('../services/apiKeyStore');
+    await saveApiKey('AIzaStoredKey1234');
+
+    await expect(handleApiKeyError(await apiError('API key not valid. Please pass a valid API key.', 400))).rejects.toMatchObject({
+      code: 'api_key_invalid',
+      userMessage: expect.stringContaining('Settings'),
+    });
+    expect(aistudio.openSelectKey).not.toHaveBeenCalled();
+    delete (window as Partial<Window>).aistudio;
+  });
+});
+
+describe('testApiKey', () => {
+  it.each([
+    ['valid', null],
+    ['invalid', { message: 'API key not valid. Please pass a valid API key.', status: 400 }],
+    ['quota_exceeded', { message: 'Resource has been exhausted', status: 429 }],
+    ['unreachable', { message: 'Internal error', status: 500 }],
+  ] as const)('reports %s', async (status, failure) => {
+    const { testApiKey } = await loadService();
+    if (failure) {
+      generateContent.mockRejectedValue(await apiError(failure.message, failure.status));
+    } else {
+      generateContent.mockResolvedValue({ text: 'OK' });
+    }
+
+    await expect(testApiKey(' AIzaCandidate ')).resolves.toMatchObject({ status });
+    expect(clientOptions).toHaveBeenCalledWith({ apiKey: 'AIzaCandidate' });
+  });
+});
@@ -0,0 +1,57 @@
+// tests/goalUtils.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { SkinAnalysisResult, SkinGoal, StoredScan } from '../types';
+import { DAY_MS } from '../utils/dateUtils';
+import { computeGoalProgress, getGoalTitle, toHealthGoal } from '../utils/goalUtils';
+import { VALID_RESPONSE } from './fixtures/geminiResponses';
+
+const RESULT = JSON.parse(VALID_RESPONSE) as SkinAnalysisResult;
+const START = Date.UTC(2026, 0, 1);
+
+const scanWithAcne = (score: number, createdAt: number): StoredScan => ({
+  id: `scan-${createdAt}`,
+  createdAt,
+  mimeType: 'image/jpeg',
+  result: { ...RESULT, issues: { ...RESULT.issues, acne: { ...RESULT.issues.acne, score } } },
+});
+
+// Acne is lower-is-better with a healthy range of 0-25: a raw 50 is health 50, a raw 24 is health 76.
+const goal: SkinGoal = {
+  id: 'goal',
+  metric: 'acne',
+  baselineScanId: 'baseline',
+  baselineScore: 50,
+  baselineAt: START,
+  targetDelta: 26,
+  deadline: START + 30 * DAY_MS,
+  createdAt: START,
+  updatedAt: START,
+};
+
+describe('computeGoalProgress', () => {
+  it('measures progress on the health axis', () => {
+    const progress = computeGoalProgress(goal, [scanWithAcne(50, START), scanWithAcne(24, START + 10 * DAY_MS)], START + 10 * DAY_MS);
+
+    expect(progress).toEqual({ currentScore: 76, change: 26, percent: 100, status: 'achieved' });
+  });
+
+  it('is behind when health gets worse', () => {
+    const progress = computeGoalProgress(goal, [scanWithAcne(60, START + 10 * DAY_MS)], START + 10 * DAY_MS);
+
+    expect(progress).toMatchObject({ change: -10, percent: 0, status: 'behind' });
+  });
+});
+
+describe('getGoalTitle', () => {
+  it('describes the health gain', () => {
+    expect(getGoalTitle(goal)).toBe('Improve Acne health by 26 points');
+  });
+});
+
+describe('toHealthGoal', () => {
+  it('converts goals stored with raw scores', () => {
+    // Raw acne 24 is health 76; the old target of reducing it by 14 (to raw 10) is health 90.
+    expect(toHealthGoal({ ...goal, baselineScore: 24, targetDelta: -14 })).toMatchObject({ baselineScore: 76, targetDelta: 14 });
+  });
+});
@@ -0,0 +1,22 @@
+// tests/metricRegistry.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { METRIC_KEYS, isMetricKey } from '../services/metricRegistry';
+import { getIssueLabel } from '../utils/metricUtils';
+
+describe('isMetricKey', () => {
+  it('accepts every registered metric', () => {
+    expect(METRIC_KEYS.every(isMetricKey)).toBe(true);
+  });
+
+  it.each(['constructor', 'toString', '__proto__', 'hasOwnProperty', 'unknown', 3, null])('rejects %s', (value) => {
+    expect(isMetricKey(value)).toBe(false);
+  });
+});
+
+describe('getIssueLabel', () => {
+  it('does not treat prototype keys as metrics', () => {
+    expect(getIssueLabel('acne')).toBe('Acne');
+    expect(getIssueLabel('constructor')).toBe('Constructor');
+  });
+});
@@ -0,0 +1,14 @@
+// tests/setup.ts
+
+import '@testing-library/jest-dom/vitest';
+import 'fake-indexeddb/auto';
+import { cleanup } from '@testing-library/react';
+import { afterEach, vi } from 'vitest';
+
+// jsdom does not implement media playback; the camera preview only needs play() to exist.
+HTMLMediaElement.prototype.play = vi.fn(() => Promise.resolve());
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
@@ -0,0 +1,213 @@
+// tests/vault.test.ts
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { withAnalysisCache } from '../services/analysisCache';
+import { AnalysisProvider } from '../services/analysisProvider';
+import { STORES, clearDatabase, requestToPromise, withTransaction } from '../services/database';
+import { deleteScan, getScan, listScans, saveScan } from '../services/scanRepository';
+import { updateSettings } from '../services/settingsService';
+import {
+  changeVaultPassphrase,
+  disableVault,
+  enableVault,
+  getVaultStatus,
+  lockVault,
+  startVaultAutoLock,
+  subscribeToVault,
+  unlockVault,
+} from '../services/vault';
+import { SkinAnalysisResult } from '../types';
+import { VALID_RESPONSE } from './fixtures/geminiResponses';
+
+const RESULT = JSON.parse(VALID_RESPONSE) as SkinAnalysisResult;
+const FRONT = 'ZnJvbnQ=';
+
+const readRawRecords = (store: typeof STORES.scans | typeof STORES.analysisCache) =>
+  withTransaction(store, 'readonly', (tx) => requestToPromise<any[]>(tx.objectStore(store).getAll()));
+
+const saveSession = () => saveScan({ result: RESULT, imageBase64: FRONT, mimeType: 'image/jpeg', createdAt: Date.UTC(2026, 0, 5) });
+
+const analyzeCached = async () => {
+  const analyze = vi.fn(async () => RESULT);
+  const provider: AnalysisProvider = { id: 'mock', label: 'Test', description: '', getModel: () => 'test-model', prepare: async () => {}, analyze };
+  const cached = withAnalysisCache(provider);
+  const images = [{ view: 'front' as const, base64: FRONT, mimeType: 'image/jpeg' }];
+  await cached.analyze(images, { metrics: ['acne'], language: 'en' });
+  await vi.waitFor(async () => expect(await readRawRecords(STORES.analysisCache)).toHaveLength(1));
+  return { analyze, again: () => cached.analyze(images, { metrics: ['acne'], language: 'en' }) };
+};
+
+beforeEach(async () => {
+  await clearDatabase();
+  lockVault();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('enableVault', () => {
+  it('encrypts stored photos, results and cached analyses', async () => {
+    const scan = await saveSession();
+    await analyzeCached();
+
+    await enableVault('1234');
+
+    const [stored] = await readRawRecords(STORES.scans);
+    expect(Object.keys(stored).sort()).toEqual(['createdAt', 'id', 'sealed']);
+    const [cacheEntry] = await readRawRecords(STORES.analysisCache);
+    expect(cacheEntry).not.toHaveProperty('result');
+    expect(cacheEntry).toHaveProperty('sealed');
+    expect(await getVaultStatus()).toBe('unlocked');
+    expect(await getScan(scan.id)).toEqual(scan);
+  });
+
+  it('encrypts scans saved while unlocked and serves cached analyses', async () => {
+    const { analyze, again } = await analyzeCached();
+    await enableVault('1234');
+
+    const scan = await saveSession();
+
+    expect(await readRawRecords(STORES.scans)).toEqual([{ id: scan.id, createdAt: scan.createdAt, sealed: expect.anything() }]);
+    expect(await listScans()).toEqual([scan]);
+    await expect(again()).resolves.toHaveProperty('cachedAt');
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+
+  it('encrypts scans saved while existing data is being encrypted', async () => {
+    await saveSession();
+    const encrypt = crypto.subtle.encrypt.bind(crypto.subtle);
+    let calls = 0;
+    let saving: ReturnType<typeof saveSession> | undefined;
+    vi.spyOn(crypto.subtle, 'encrypt').mockImplementation(async (...args: Parameters<SubtleCrypto['encrypt']>) => {
+      // The first call encrypts the verifier; the second starts on the scan saved above, after the stores were read.
+      if (++calls === 2) {
+        saving = saveSession();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      return encrypt(...args);
+    });
+
+    await enableVault('1234');
+    const scan = await saving!;
+
+    const records = await readRawRecords(STORES.scans);
+    expect(records).toHaveLength(2);
+    records.forEach((record) => expect(Object.keys(record).sort()).toEqual(['createdAt', 'id', 'sealed']));
+    expect(await getScan(scan.id)).toEqual(scan);
+  });
+
+  it('rejects passphrases that are too short', async () => {
+    await expect(enableVault('123')).rejects.toThrow('at least 4 characters');
+    expect(await getVaultStatus()).toBe('disabled');
+  });
+});
+
+describe('lockVault and unlockVault', () => {
+  it('keeps data unreadable until the right passphrase is entered', async () => {
+    const scan = await saveSession();
+    await enableVault('correct horse');
+    lockVault();
+
+    expect(await getVaultStatus()).toBe('locked');
+    await expect(getScan(scan.id)).rejects.toMatchObject({ code: 'vault_locked' });
+    await expect(saveSession()).rejects.toMatchObject({ code: 'vault_locked' });
+    await expect(deleteScan(scan.id)).rejects.toMatchObject({ code: 'vault_locked' });
+    await expect(unlockVault('wrong horse')).rejects.toMatchObject({ code: 'vault_passphrase_invalid' });
+
+    await unlockVault('correct horse');
+
+    expect(await getScan(scan.id)).toEqual(scan);
+  });
+});
+
+describe('changeVaultPassphrase', () => {
+  it('re-encrypts everything with the new passphrase', async () => {
+    const scan = await saveSession();
+    await enableVault('old-pin');
+    const [before] = await readRawRecords(STORES.scans);
+
+    await expect(changeVaultPassphrase('wrong', 'new-pin')).rejects.toMatchObject({ code: 'vault_passphrase_invalid' });
+    await changeVaultPassphrase('old-pin', 'new-pin');
+
+    const [after] = await readRawRecords(STORES.scans);
+    expect(new Uint8Array(after.sealed.ciphertext)).not.toEqual(new Uint8Array(before.sealed.ciphertext));
+    lockVault();
+    await expect(unlockVault('old-pin')).rejects.toMatchObject({ code: 'vault_passphrase_invalid' });
+    await unlockVault('new-pin');
+    expect(await getScan(scan.id)).toEqual(scan);
+  });
+
+  it('stays locked when locked during the change', async () => {
+    const scan = await saveSession();
+    await enableVault('old-pin');
+
+    const changing = changeVaultPassphrase('old-pin', 'new-pin');
+    lockVault();
+    await changing;
+
+    expect(await getVaultStatus()).toBe('locked');
+    await expect(getScan(scan.id)).rejects.toMatchObject({ code: 'vault_locked' });
+    await unlockVault('new-pin');
+    expect(await getScan(scan.id)).toEqual(scan);
+  });
+
+  it('unlocks with the new passphrase once a running change is done', async () => {
+    await enableVault('old-pin');
+    lockVault();
+
+    const changing = changeVaultPassphrase('old-pin', 'new-pin');
+    await expect(unlockVault('new-pin')).resolves.toBeUndefined();
+    await changing;
+
+    expect(await getVaultStatus()).toBe('unlocked');
+  });
+});
+
+describe('disableVault', () => {
+  it('stores data unencrypted again', async () => {
+    const scan = await saveSession();
+    await enableVault('1234');
+
+    await disableVault('1234');
+
+    expect(await getVaultStatus()).toBe('disabled');
+    expect(await readRawRecords(STORES.scans)).toEqual([expect.objectContaining({ imageBase64: FRONT, result: RESULT })]);
+    expect(await getScan(scan.id)).toEqual(scan);
+  });
+});
+
+describe('startVaultAutoLock', () => {
+  it('locks after the configured inactivity', async () => {
+    await enableVault('1234');
+    updateSettings({ vaultAutoLockMinutes: 5 });
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    const stop = startVaultAutoLock();
+
+    vi.advanceTimersByTime(4 * 60_000);
+    window.dispatchEvent(new KeyboardEvent('keydown'));
+    vi.advanceTimersByTime(4 * 60_000);
+    expect(await getVaultStatus()).toBe('unlocked');
+
+    vi.advanceTimersByTime(60_000);
+    expect(await getVaultStatus()).toBe('locked');
+    stop();
+  });
+
+  it('does not lock again once locked', async () => {
+    await enableVault('1234');
+    updateSettings({ vaultAutoLockMinutes: 1 });
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    const listener = vi.fn();
+    const unsubscribe = subscribeToVault(listener);
+    const stop = startVaultAutoLock();
+
+    vi.advanceTimersByTime(5 * 60_000);
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(await getVaultStatus()).toBe('locked');
+    stop();
+    unsubscribe();
+  });
+});
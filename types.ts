@@ -1,33 +1,223 @@
 // types.ts
 
 import React from 'react';
+import { SkinAnalysisData } from './services/skinAnalysisSchema';
+import { SchemaViolation } from './utils/schema';
 
 /**
- * Interface for the structured JSON response from the Gemini API for skin analysis.
- */
-export interface SkinAnalysisResult {
-  overallScore: number; // 0-100
-  skinType: 'oily' | 'dry' | 'combination' | 'normal' | 'unknown';
-  fitzpatrickScale: 'I' | 'II' | 'III' | 'IV' | 'V' | 'VI' | 'unknown';
-  issues: {
-    acne: { score: number; severity: string; areas?: string[] };
-    wrinkles: { score: number; severity: string; areas?: string[] };
-    hyperpigmentation: { score: number; severity: string; areas?: string[] };
-    pores: { score: number; severity: string; areas?: string[] };
-    redness: { score: number; severity: string; areas?: string[] };
-    texture: { score: number; severity: string; areas?: string[] };
-    hydration: { score: number; severity: string; areas?: string[] };
-    oiliness: { score: number; severity: string; areas?: string[] };
-    darkCircles: { score: number; severity: string; areas?: string[] };
-    symmetry: { score: number; description: string };
-  };
-  recommendations: {
-    morningRoutine: string[];
-    eveningRoutine: string[];
-    weeklyTreatments: string[];
-    lifestyleTips: string[];
-  };
-  explainability: string; // A concise explanation of findings
+ * Report attached to a result whose model response needed repairs or was missing metrics.
+ */
+export interface AnalysisValidationReport {
+  missingMetrics: IssueKey[]; // Issue metrics that were missing or unusable and are absent from `issues`
+  violations: SchemaViolation[]; // Every problem found, with its path
+}
+
+/**
+ * Structured skin analysis. The model-produced fields are derived from `skinAnalysisSchema`
+ * (services/skinAnalysisSchema.ts); see that schema for value ranges and enums.
+ */
+export type SkinAnalysisResult = SkinAnalysisData & {
+  validationReport?: AnalysisValidationReport; // Present when the response was repaired or partial
+  uncertainty?: AnalysisUncertainty; // Present when the result combines several runs
+  cachedAt?: number; // Set when the result was served from the analysis cache: when it was originally produced
+  prompt?: AnalysisPromptInfo; // Absent for offline results and for scans saved before prompts were versioned
+};
+
+/**
+ * The prompt template that produced a result and the language its free text was requested in.
+ */
+export interface AnalysisPromptInfo {
+  template: string; // Template id, e.g. "skin-analysis"
+  version: number;
+  language: string; // BCP 47 language code, e.g. "es"
+}
+
+/**
+ * Uncertainty of one score estimated from repeated runs, on the raw 0-100 scale.
+ */
+export interface ScoreInterval {
+  low: number; // Lower bound of the 95% confidence interval
+  high: number; // Upper bound of the 95% confidence interval
+  spread: number; // Standard deviation across runs
+  samples: number; // Runs that reported this score
+}
+
+/**
+ * How much repeated runs of the same analysis agreed with each other.
+ */
+export interface AnalysisUncertainty {
+  samples: number; // Successful runs that were combined
+  providers: AnalysisProviderId[]; // Provider of each combined run
+  overallScore: ScoreInterval;
+  issues: Partial<Record<IssueKey, ScoreInterval>>;
+  agreement: { skinType: number; fitzpatrickScale: number }; // Share of runs that chose the combined value (0-1)
+}
+
+/**
+ * Key of one of the per-issue metrics in a SkinAnalysisResult.
+ */
+export type IssueKey = keyof SkinAnalysisResult['issues'];
+
+/**
+ * Measurements taken locally from a photo before it is sent for analysis.
+ */
+export interface ImageQualityMetrics {
+  sharpness: number; // Variance of the Laplacian on a downscaled grayscale copy; higher is sharper
+  brightness: number; // Mean luminance, 0-255
+  clippedHighlights: number; // Share of pixels with a channel at or near 255 (0-1)
+  clippedShadows: number; // Share of pixels that are near black (0-1)
+  faceCount: number | null; // Faces found, null when on-device face detection is unavailable
+  faceAreaRatio: number | null; // Largest face's bounding box area relative to the frame (0-1)
+}
+
+export type ImageQualityCheck = 'sharpness' | 'exposure' | 'clipping' | 'face' | 'faceSize';
+
+/**
+ * One quality problem with guidance for fixing it. `block` findings prevent analysis.
+ */
+export interface ImageQualityFinding {
+  check: ImageQualityCheck;
+  level: 'block' | 'warn';
+  message: string;
+}
+
+/**
+ * Result of the pre-analysis quality gate.
+ */
+export interface ImageQualityReport {
+  metrics: ImageQualityMetrics;
+  findings: ImageQualityFinding[];
+  score: number; // 0-100 summary of capture quality
+  verdict: 'ok' | 'warn' | 'block';
+}
+
+/**
+ * A point in normalized image coordinates (0-1, origin top-left, unmirrored).
+ */
+export interface NormalizedPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Face position detected on-device in the analyzed photo. Used to compare framing across scans.
+ */
+export interface FaceLandmarks {
+  boundingBox: NormalizedPoint & { width: number; height: number };
+  eyes: NormalizedPoint[]; // Sorted left to right as they appear in the image
+  nose?: NormalizedPoint;
+  mouth?: NormalizedPoint;
+}
+
+/**
+ * The angle a photo was taken from. Multi-angle sessions capture all three.
+ */
+export type ScanView = 'front' | 'left' | 'right';
+
+/**
+ * One photo submitted for analysis.
+ */
+export interface AnalysisImage {
+  view: ScanView;
+  base64: string; // Without the data URL prefix
+  mimeType: string;
+}
+
+/**
+ * An additional photo stored with a multi-angle session.
+ */
+export interface StoredScanView {
+  view: ScanView;
+  mimeType: string;
+  imageBase64?: string; // Absent once the photo was deleted
+  capturedAt?: number;
+  quality?: ImageQualityReport;
+  landmarks?: FaceLandmarks;
+}
+
+/**
+ * A completed analysis persisted in the local scan history.
+ */
+export interface StoredScan {
+  id: string;
+  createdAt: number; // Epoch milliseconds when the scan was saved
+  mimeType: string; // MIME type of the analyzed image
+  imageBase64?: string; // Base64 image data (without the data URL prefix); absent once the photo was deleted
+  result: SkinAnalysisResult;
+  quality?: ImageQualityReport; // Capture quality measured before analysis, absent for older scans
+  capturedAt?: number; // Epoch milliseconds when the photo was taken (EXIF date or camera capture), if known
+  landmarks?: FaceLandmarks; // Absent when on-device face detection was unavailable or the photo was deleted
+  sideViews?: StoredScanView[]; // Profile photos of a multi-angle session; the fields above describe the front photo
+}
+
+/**
+ * A user-defined target for one issue metric, measured against a baseline scan on the health axis.
+ */
+export interface SkinGoal {
+  id: string;
+  metric: IssueKey;
+  baselineScanId: string;
+  baselineScore: number; // Health score of the metric in the baseline scan
+  baselineAt: number; // createdAt of the baseline scan; only later scans count towards progress
+  targetDelta: number; // Health points to gain over the baseline, e.g. 20
+  deadline: number; // Epoch milliseconds
+  createdAt: number;
+  updatedAt: number;
+  archivedAt?: number; // Set when the goal is archived
+}
+
+export type GoalStatus = 'on_track' | 'behind' | 'achieved';
+
+/**
+ * Progress of a goal computed from the scans taken after its baseline.
+ */
+export interface GoalProgress {
+  currentScore: number | null; // Health score in the latest later scan, null if there is none yet
+  change: number; // currentScore - baselineScore, 0 without later scans
+  percent: number; // Share of targetDelta reached, clamped to 0-100
+  status: GoalStatus;
+}
+
+/**
+ * Identifier of a backend that can produce a SkinAnalysisResult.
+ */
+export type AnalysisProviderId = 'gemini' | 'mock';
+
+/**
+ * One billed model call, recorded for the usage meter.
+ */
+export interface ApiCallRecord {
+  id: string;
+  timestamp: number; // Epoch milliseconds when the call started
+  provider: AnalysisProviderId;
+  model: string;
+  inputTokens: number | null; // From the response usage metadata, null when the call failed or reported none
+  outputTokens: number | null; // Includes thinking tokens, which are billed as output
+  latencyMs: number;
+  outcome: 'success' | 'error' | 'cancelled';
+  errorKind?: string; // AnalysisErrorCode or HTTP status for failed calls
+}
+
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * User preferences persisted locally.
+ */
+export interface AppSettings {
+  analysisProvider?: AnalysisProviderId; // Overrides the ANALYSIS_PROVIDER env default when set
+  metricPreferences?: Partial<Record<IssueKey, boolean>>; // Metrics the user turned on or off; others use their default
+  analysisSamples?: number; // Runs combined per analysis; more than 1 enables high-confidence mode
+  language?: string; // Language for recommendations and explanations; defaults to the browser language
+  modelPrices?: Record<string, ModelPrice>; // Overrides of the built-in price table, by model id
+  monthlyBudget?: number; // Soft spending limit in USD per calendar month; scans that would exceed it ask first
+  photoRetentionDays?: number; // Photos of older scans are deleted automatically, keeping the results; unset keeps them
+  vaultAutoLockMinutes?: number; // Inactivity after which the app lock engages, when it is turned on
 }
 
 /**
@@ -0,0 +1,171 @@
+// utils/analyticsUtils.ts
+
+import { IssueKey, StoredScan } from '../types';
+import { DAY_MS } from './dateUtils';
+import { getIssueHealth, toHealthInterval } from './metricMetadata';
+import { getIssueLabel } from './metricUtils';
+
+export type TimeRangeId = '90d' | '6m' | '1y' | 'all';
+
+/**
+ * Time windows offered by the analytics range selector.
+ */
+export const TIME_RANGES: { id: TimeRangeId; label: string; days: number | null }[] = [
+  { id: '90d', label: '90 Days', days: 90 },
+  { id: '6m', label: '6 Months', days: 182 },
+  { id: '1y', label: '1 Year', days: 365 },
+  { id: 'all', label: 'All time', days: null },
+];
+
+// Scans whose capture quality score falls below this are treated as low quality.
+const LOW_QUALITY_SCORE = 70;
+
+/**
+ * Whether a scan's capture quality was poor enough to make its scores unreliable.
+ * Scans saved before the quality gate existed have no report and are never considered low quality.
+ * @param scan The scan.
+ * @returns True for low-quality captures.
+ */
+export const isLowQualityScan = (scan: StoredScan): boolean =>
+  scan.quality !== undefined && scan.quality.score < LOW_QUALITY_SCORE;
+
+/**
+ * A single chart point built from one scan.
+ */
+export interface TrendPoint {
+  scanId: string;
+  timestamp: number;
+  label: string; // Short date label for the X axis
+  overallScore: number;
+  metricScore: number | null; // Health score (higher is better) of the selected metric, null if missing from the scan
+  overallError?: [number, number]; // Distance to the lower and upper confidence bound, for high-confidence scans
+  metricError?: [number, number];
+}
+
+/**
+ * Change of a value between the first and last scan in a window.
+ */
+export interface MetricDelta {
+  from: number;
+  to: number;
+  change: number; // to - from
+  fromTimestamp: number;
+  toTimestamp: number;
+}
+
+/**
+ * Keeps the scans that fall within the given time range, oldest first.
+ * @param scans Scans in any order.
+ * @param rangeId The selected time range.
+ * @param now Reference time, defaults to the current time.
+ * @param excludeLowQuality Whether to drop scans flagged by `isLowQualityScan`.
+ * @returns The scans inside the window, sorted by ascending createdAt.
+ */
+export const filterScansByRange = (
+  scans: StoredScan[],
+  rangeId: TimeRangeId,
+  now: number = Date.now(),
+  excludeLowQuality = false,
+): StoredScan[] => {
+  const range = TIME_RANGES.find((r) => r.id === rangeId);
+  const cutoff = range && range.days !== null ? now - range.days * DAY_MS : -Infinity;
+  return scans
+    .filter((scan) => scan.createdAt >= cutoff && !(excludeLowQuality && isLowQualityScan(scan)))
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Builds chart points for the overall score and one selected metric, both on the health axis, with error bars
+ * for scans analyzed in high-confidence mode.
+ * @param scans Scans sorted oldest first.
+ * @param metric The issue metric to chart alongside the overall score.
+ * @returns One point per scan.
+ */
+export const buildTrendSeries = (scans: StoredScan[], metric: IssueKey): TrendPoint[] =>
+  scans.map((scan) => {
+    const { overallScore, issues, uncertainty } = scan.result;
+    const metricScore = getIssueHealth(metric, issues?.[metric]);
+    const metricInterval = uncertainty?.issues[metric];
+    const metricRange = metricScore !== null && metricInterval ? toHealthInterval(metric, metricInterval) : null;
+    return {
+      scanId: scan.id,
+      timestamp: scan.createdAt,
+      label: new Date(scan.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      overallScore,
+      metricScore,
+      overallError: uncertainty ? [overallScore - uncertainty.overallScore.low, uncertainty.overallScore.high - overallScore] : undefined,
+      metricError: metricRange ? [Math.max(0, metricScore - metricRange[0]), Math.max(0, metricRange[1] - metricScore)] : undefined,
+    };
+  });
+
+/**
+ * Computes the change between the first and last available values in a series.
+ * @param points Points sorted oldest first.
+ * @param pick Selects the value to compare; null values are skipped.
+ * @returns The delta, or null if fewer than two values are available.
+ */
+export const computeDelta = (points: TrendPoint[], pick: (point: TrendPoint) => number | null): MetricDelta | null => {
+  const valued = points.filter((point) => pick(point) !== null);
+  if (valued.length < 2) {
+    return null;
+  }
+  const first = valued[0];
+  const last = valued[valued.length - 1];
+  const from = pick(first)!;
+  const to = pick(last)!;
+  return { from, to, change: to - from, fromTimestamp: first.timestamp, toTimestamp: last.timestamp };
+};
+
+const formatPoints = (value: number): string => {
+  const rounded = Math.round(Math.abs(value));
+  return `${rounded} point${rounded === 1 ? '' : 's'}`;
+};
+
+const describeWindow = (rangeId: TimeRangeId): string => {
+  switch (rangeId) {
+    case '90d':
+      return 'over the last 90 days';
+    case '6m':
+      return 'over the last 6 months';
+    case '1y':
+      return 'over the last year';
+    default:
+      return 'since your first scan';
+  }
+};
+
+/**
+ * Builds the sentence shown under the overall score chart.
+ * @param delta The overall score delta, or null if there is not enough data.
+ * @param rangeId The selected time range.
+ * @returns A summary sentence.
+ */
+export const summarizeOverallDelta = (delta: MetricDelta | null, rangeId: TimeRangeId): string => {
+  if (!delta) {
+    return 'Take at least two scans in this period to see how your skin health is trending.';
+  }
+  if (Math.round(delta.change) === 0) {
+    return `Your skin health score has held steady at ${Math.round(delta.to)} ${describeWindow(rangeId)}.`;
+  }
+  const direction = delta.change > 0 ? 'improved' : 'declined';
+  return `Your skin health score has ${direction} by ${formatPoints(delta.change)} ${describeWindow(rangeId)} (${Math.round(delta.from)} → ${Math.round(delta.to)}).`;
+};
+
+/**
+ * Builds the sentence shown under the per-metric chart.
+ * @param metric The charted issue metric.
+ * @param delta The metric delta, or null if there is not enough data.
+ * @param rangeId The selected time range.
+ * @returns A summary sentence.
+ */
+export const summarizeMetricDelta = (metric: IssueKey, delta: MetricDelta | null, rangeId: TimeRangeId): string => {
+  const label = getIssueLabel(metric);
+  if (!delta) {
+    return `Not enough ${label.toLowerCase()} data in this period to show a change.`;
+  }
+  if (Math.round(delta.change) === 0) {
+    return `${label} health has not changed ${describeWindow(rangeId)}.`;
+  }
+  const direction = delta.change > 0 ? 'improved' : 'declined';
+  return `${label} health has ${direction} by ${formatPoints(delta.change)} ${describeWindow(rangeId)} (${Math.round(delta.from)} → ${Math.round(delta.to)}).`;
+};
@@ -0,0 +1,119 @@
+// utils/compareUtils.ts
+
+import { IssueKey, SkinAnalysisResult, StoredScan } from '../types';
+import { SeverityBand, getIssueHealth, getSeverityBand } from './metricMetadata';
+import { ISSUE_KEYS } from './metricUtils';
+
+export type ChangeTrend = 'improved' | 'regressed' | 'unchanged' | 'unavailable';
+
+/**
+ * How one score differs between the earlier and the later scan, on the health axis (higher is better).
+ */
+export interface MetricComparison {
+  key: IssueKey | 'overall';
+  before: number | null; // null when the metric is missing from that scan
+  after: number | null;
+  change: number | null; // after - before
+  beforeBand?: SeverityBand;
+  afterBand?: SeverityBand;
+  trend: ChangeTrend;
+}
+
+type RoutineKey = keyof SkinAnalysisResult['recommendations'];
+
+/**
+ * Recommendations that appear only in the later scan (added) or only in the earlier one (dropped).
+ */
+export interface RecommendationChanges {
+  section: RoutineKey;
+  added: string[];
+  dropped: string[];
+}
+
+/**
+ * Full comparison of two scans, earlier scan first.
+ */
+export interface ScanComparison {
+  before: StoredScan;
+  after: StoredScan;
+  overall: MetricComparison;
+  metrics: MetricComparison[];
+  recommendations: RecommendationChanges[];
+}
+
+export const ROUTINE_SECTIONS: { key: RoutineKey; label: string }[] = [
+  { key: 'morningRoutine', label: 'Morning Routine' },
+  { key: 'eveningRoutine', label: 'Evening Routine' },
+  { key: 'weeklyTreatments', label: 'Weekly Treatments' },
+  { key: 'lifestyleTips', label: 'Lifestyle Tips' },
+];
+
+// Score changes smaller than this are treated as noise.
+const MIN_MEANINGFUL_CHANGE = 1;
+
+const classifyChange = (change: number | null): ChangeTrend => {
+  if (change === null) {
+    return 'unavailable';
+  }
+  if (Math.abs(change) < MIN_MEANINGFUL_CHANGE) {
+    return 'unchanged';
+  }
+  return change > 0 ? 'improved' : 'regressed';
+};
+
+const compareMetric = (key: IssueKey, before: SkinAnalysisResult, after: SkinAnalysisResult): MetricComparison => {
+  const beforeHealth = getIssueHealth(key, before.issues?.[key]);
+  const afterHealth = getIssueHealth(key, after.issues?.[key]);
+  const change = beforeHealth === null || afterHealth === null ? null : afterHealth - beforeHealth;
+  return {
+    key,
+    before: beforeHealth,
+    after: afterHealth,
+    change,
+    beforeBand: beforeHealth === null ? undefined : getSeverityBand(beforeHealth),
+    afterBand: afterHealth === null ? undefined : getSeverityBand(afterHealth),
+    trend: classifyChange(change),
+  };
+};
+
+const normalizeStep = (step: string): string => step.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!]+$/, '');
+
+const diffRecommendations = (before: SkinAnalysisResult, after: SkinAnalysisResult): RecommendationChanges[] =>
+  ROUTINE_SECTIONS.map(({ key }) => {
+    const beforeSteps = before.recommendations?.[key] ?? [];
+    const afterSteps = after.recommendations?.[key] ?? [];
+    const beforeSet = new Set(beforeSteps.map(normalizeStep));
+    const afterSet = new Set(afterSteps.map(normalizeStep));
+    return {
+      section: key,
+      added: afterSteps.filter((step) => !beforeSet.has(normalizeStep(step))),
+      dropped: beforeSteps.filter((step) => !afterSet.has(normalizeStep(step))),
+    };
+  });
+
+/**
+ * Compares two scans metric by metric. The scans may be passed in either order; the earlier one becomes `before`.
+ * @param first One scan.
+ * @param second The other scan.
+ * @returns Health score deltas, severity band changes and recommendation changes, with improvements and
+ *          regressions classified.
+ */
+export const compareScans = (first: StoredScan, second: StoredScan): ScanComparison => {
+  const [before, after] = first.createdAt <= second.createdAt ? [first, second] : [second, first];
+  const overallChange = after.result.overallScore - before.result.overallScore;
+  return {
+    before,
+    after,
+    overall: {
+      key: 'overall',
+      before: before.result.overallScore,
+      after: after.result.overallScore,
+      change: overallChange,
+      beforeBand: getSeverityBand(before.result.overallScore),
+      afterBand: getSeverityBand(after.result.overallScore),
+      trend: classifyChange(overallChange),
+    },
+    metrics: ISSUE_KEYS.map((key) => compareMetric(key, before.result, after.result)),
+    recommendations: diffRecommendations(before.result, after.result),
+  };
+};
@@ -0,0 +1,169 @@
+// utils/consensus.ts
+
+import { AnalysisProviderId, IssueKey, ScoreInterval, SkinAnalysisResult } from '../types';
+import { ISSUE_KEYS } from './metricUtils';
+
+// Two-sided 95% Student's t critical values for 1-9 degrees of freedom; 1.96 is used beyond that.
+const T_CRITICAL_95 = [12.71, 4.3, 3.18, 2.78, 2.57, 2.45, 2.36, 2.31, 2.26];
+
+// Share of runs trimmed from each end before averaging, once there are enough runs to trim.
+const TRIM_RATIO = 0.2;
+const MIN_SAMPLES_TO_TRIM = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const median = (sorted: number[]): number => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Robust center of a set of scores: the median for small samples, a trimmed mean otherwise,
+ * so a single outlier run cannot pull the result.
+ */
+const robustCenter = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length < MIN_SAMPLES_TO_TRIM) {
+    return median(sorted);
+  }
+  const trim = Math.floor(sorted.length * TRIM_RATIO);
+  const kept = sorted.slice(trim, sorted.length - trim);
+  return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+};
+
+/**
+ * Combines repeated scores into a rounded center and a 95% confidence interval around it.
+ * @param values Scores from each run, raw 0-100 scale.
+ * @returns The combined score and its interval.
+ */
+export const combineScores = (values: number[]): { score: number; interval: ScoreInterval } => {
+  const center = robustCenter(values);
+  const n = values.length;
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  const spread = n > 1 ? Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1)) : 0;
+  const margin = n > 1 ? (T_CRITICAL_95[n - 2] ?? 1.96) * (spread / Math.sqrt(n)) : 0;
+  return {
+    score: Math.round(center),
+    interval: {
+      low: Math.round(clamp(center - margin, 0, 100)),
+      high: Math.round(clamp(center + margin, 0, 100)),
+      spread: Math.round(spread * 10) / 10,
+      samples: n,
+    },
+  };
+};
+
+/**
+ * Picks the most common value. Ties go to the value seen first.
+ * @returns The winning value and the share of votes it received (0-1).
+ */
+export const majorityVote = <T>(values: T[]): { value: T; agreement: number } => {
+  const counts = new Map<T, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  let winner = values[0];
+  counts.forEach((count, value) => {
+    if (count > counts.get(winner)!) {
+      winner = value;
+    }
+  });
+  return { value: winner, agreement: counts.get(winner)! / values.length };
+};
+
+// Keeps the values reported by at least half of the runs, in first-seen order.
+const keepMajority = <T>(lists: T[][], toKey: (value: T) => string = String): T[] => {
+  const counts = new Map<string, { value: T; count: number }>();
+  lists.forEach((list) => {
+    new Map(list.map((value) => [toKey(value), value])).forEach((value, key) => {
+      const entry = counts.get(key) ?? { value, count: 0 };
+      entry.count += 1;
+      counts.set(key, entry);
+    });
+  });
+  return [...counts.values()].filter((entry) => entry.count * 2 >= lists.length).map((entry) => entry.value);
+};
+
+type IssueEntry = { score: number; severity?: string; areas?: string[]; observations?: { area: string; view: string }[] };
+
+const combineIssue = (entries: IssueEntry[], representative: IssueEntry | undefined) => {
+  const { score, interval } = combineScores(entries.map((entry) => entry.score));
+  const combined: IssueEntry = { ...(representative ?? entries[0]), score };
+  const severities = entries.map((entry) => entry.severity).filter((severity): severity is string => typeof severity === 'string');
+  if (severities.length > 0) {
+    combined.severity = majorityVote(severities).value;
+  }
+  if (entries.some((entry) => entry.areas)) {
+    combined.areas = keepMajority(entries.map((entry) => entry.areas ?? []));
+  }
+  if (entries.some((entry) => entry.observations)) {
+    combined.observations = keepMajority(
+      entries.map((entry) => entry.observations ?? []),
+      (observation) => `${observation.area}|${observation.view}`,
+    );
+  }
+  return { issue: combined, interval };
+};
+
+/**
+ * Chooses the run closest to the combined scores; its recommendations and wording are kept,
+ * since free text cannot be averaged.
+ */
+const pickRepresentative = (results: SkinAnalysisResult[], overallScore: number, scores: Map<IssueKey, number>): SkinAnalysisResult => {
+  const distance = (result: SkinAnalysisResult) =>
+    (result.overallScore - overallScore) ** 2 +
+    [...scores].reduce((sum, [key, score]) => {
+      const issue = result.issues?.[key] as IssueEntry | undefined;
+      return sum + (typeof issue?.score === 'number' ? (issue.score - score) ** 2 : 0);
+    }, 0);
+  return results.reduce((best, result) => (distance(result) < distance(best) ? result : best));
+};
+
+/**
+ * Combines several analyses of the same photos into one result with per-metric confidence intervals.
+ * Scores use the median or a trimmed mean, skin type and Fitzpatrick scale use a majority vote, and areas
+ * are kept when at least half of the runs reported them.
+ * @param results Successful runs, at least one.
+ * @param providers Provider of each run, in the same order.
+ * @returns The combined result with `uncertainty` set.
+ */
+export const combineAnalysisResults = (results: SkinAnalysisResult[], providers: AnalysisProviderId[]): SkinAnalysisResult => {
+  const overall = combineScores(results.map((result) => result.overallScore));
+  const issueEntries = new Map<IssueKey, IssueEntry[]>();
+  for (const key of ISSUE_KEYS) {
+    const entries = results
+      .map((result) => result.issues?.[key] as IssueEntry | undefined)
+      .filter((entry): entry is IssueEntry => typeof entry?.score === 'number');
+    if (entries.length > 0) {
+      issueEntries.set(key, entries);
+    }
+  }
+
+  const centers = new Map([...issueEntries].map(([key, entries]) => [key, combineScores(entries.map((entry) => entry.score)).score]));
+  const representative = pickRepresentative(results, overall.score, centers);
+  const skinType = majorityVote(results.map((result) => result.skinType));
+  const fitzpatrickScale = majorityVote(results.map((result) => result.fitzpatrickScale));
+
+  const issues: Record<string, IssueEntry> = {};
+  const intervals: Partial<Record<IssueKey, ScoreInterval>> = {};
+  issueEntries.forEach((entries, key) => {
+    const { issue, interval } = combineIssue(entries, representative.issues?.[key] as IssueEntry | undefined);
+    issues[key] = issue;
+    intervals[key] = interval;
+  });
+
+  const missingMetrics = representative.validationReport?.missingMetrics.filter((key) => !issueEntries.has(key)) ?? [];
+  return {
+    ...representative,
+    overallScore: overall.score,
+    skinType: skinType.value,
+    fitzpatrickScale: fitzpatrickScale.value,
+    issues: issues as SkinAnalysisResult['issues'],
+    validationReport: representative.validationReport && { ...representative.validationReport, missingMetrics },
+    uncertainty: {
+      samples: results.length,
+      providers,
+      overallScore: overall.interval,
+      issues: intervals,
+      agreement: { skinType: skinType.agreement, fitzpatrickScale: fitzpatrickScale.agreement },
+    },
+  };
+};
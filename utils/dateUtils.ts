@@ -0,0 +1,48 @@
+// utils/dateUtils.ts
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * Formats a timestamp relative to now, e.g. "Today, 8:42 AM", "Yesterday", "3 days ago" or a calendar date.
+ * @param timestamp Epoch milliseconds.
+ * @param now Reference time, defaults to the current time.
+ * @returns A short human-readable string.
+ */
+export const formatRelativeTime = (timestamp: number, now: number = Date.now()): string => {
+  const daysAgo = Math.round((startOfDay(now) - startOfDay(timestamp)) / DAY_MS);
+  if (daysAgo <= 0) {
+    return `Today, ${new Date(timestamp).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}`;
+  }
+  if (daysAgo === 1) {
+    return 'Yesterday';
+  }
+  if (daysAgo < 7) {
+    return `${daysAgo} days ago`;
+  }
+  return new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+/**
+ * Names a scan after the time of day it was taken, e.g. "Morning Scan".
+ * @param timestamp Epoch milliseconds.
+ * @returns The display name.
+ */
+export const getScanDisplayName = (timestamp: number): string => {
+  const hour = new Date(timestamp).getHours();
+  if (hour >= 5 && hour < 12) {
+    return 'Morning Scan';
+  }
+  if (hour >= 12 && hour < 17) {
+    return 'Afternoon Scan';
+  }
+  if (hour >= 17 && hour < 22) {
+    return 'Evening Scan';
+  }
+  return 'Night Scan';
+};
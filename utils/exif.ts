@@ -0,0 +1,125 @@
+// utils/exif.ts
+
+/**
+ * The EXIF fields the app reads from uploaded photos. Everything else is discarded on re-encode.
+ */
+export interface ExifSummary {
+  orientation: number; // EXIF orientation 1-8; 1 when absent
+  capturedAt?: number; // DateTimeOriginal (or DateTime) as epoch milliseconds, interpreted in local time
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD_POINTER = 0x8769;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+
+// "YYYY:MM:DD HH:MM:SS" -> epoch ms in local time.
+const parseExifDate = (value: string): number | undefined => {
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  const time = new Date(y, mo - 1, d, h, mi, s).getTime();
+  return Number.isFinite(time) && y > 1900 ? time : undefined;
+};
+
+/**
+ * Reads the IFD at `offset` and returns the raw entries we care about.
+ */
+const readIfd = (view: DataView, tiffStart: number, offset: number, little: boolean) => {
+  const entries = new Map<number, { type: number; count: number; valueOffset: number }>();
+  const start = tiffStart + offset;
+  if (start + 2 > view.byteLength) {
+    return entries;
+  }
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) {
+      break;
+    }
+    entries.set(view.getUint16(entry, little), {
+      type: view.getUint16(entry + 2, little),
+      count: view.getUint32(entry + 4, little),
+      valueOffset: entry + 8,
+    });
+  }
+  return entries;
+};
+
+const readAscii = (view: DataView, tiffStart: number, entry: { count: number; valueOffset: number }, little: boolean): string => {
+  // Values longer than 4 bytes are stored at an offset relative to the TIFF header.
+  const start = entry.count > 4 ? tiffStart + view.getUint32(entry.valueOffset, little) : entry.valueOffset;
+  let text = '';
+  for (let i = 0; i < entry.count && start + i < view.byteLength; i++) {
+    const code = view.getUint8(start + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+};
+
+const parseExif = (view: DataView): ExifSummary => {
+  const summary: ExifSummary = { orientation: 1 };
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return summary;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+      break; // Not a marker, or start of image data: no EXIF found
+    }
+    // APP1 with "Exif\0\0" header
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      const little = view.getUint16(tiffStart) === 0x4949;
+      const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+      const orientation = ifd0.get(TAG_ORIENTATION);
+      if (orientation) {
+        const value = view.getUint16(orientation.valueOffset, little);
+        summary.orientation = value >= 1 && value <= 8 ? value : 1;
+      }
+
+      let captured: number | undefined;
+      const exifPointer = ifd0.get(TAG_EXIF_IFD_POINTER);
+      if (exifPointer) {
+        const exifIfd = readIfd(view, tiffStart, view.getUint32(exifPointer.valueOffset, little), little);
+        const original = exifIfd.get(TAG_DATETIME_ORIGINAL);
+        if (original) {
+          captured = parseExifDate(readAscii(view, tiffStart, original, little));
+        }
+      }
+      const dateTime = ifd0.get(TAG_DATETIME);
+      if (captured === undefined && dateTime) {
+        captured = parseExifDate(readAscii(view, tiffStart, dateTime, little));
+      }
+      summary.capturedAt = captured;
+      return summary;
+    }
+    offset += 2 + length;
+  }
+  return summary;
+};
+
+/**
+ * Extracts orientation and capture date from a JPEG's EXIF block.
+ * Non-JPEG files and files without EXIF return orientation 1 and no date.
+ * @param file The original image file.
+ * @returns A promise that resolves with the EXIF summary.
+ */
+export async function readExifSummary(file: Blob): Promise<ExifSummary> {
+  // EXIF lives in the first APP1 segment, which is limited to 64 KB.
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  try {
+    return parseExif(view);
+  } catch (error) {
+    // Truncated or malformed EXIF is not worth failing an upload over.
+    console.warn('Could not read EXIF metadata:', error);
+    return { orientation: 1 };
+  }
+}
@@ -0,0 +1,172 @@
+// utils/faceAlignment.ts
+
+import { FaceLandmarks, NormalizedPoint } from '../types';
+import { FaceBox, detectFaces } from './faceDetection';
+import { loadImage } from './imageUtils';
+
+/**
+ * The face oval drawn over the camera view, in normalized display coordinates.
+ */
+export const FACE_GUIDE = { centerX: 0.5, centerY: 0.46, width: 0.48, height: 0.64 };
+
+/**
+ * Tolerances for treating a face as aligned with the guide.
+ */
+const TOLERANCE = {
+  minWidth: 0.32, // Face box width relative to the frame; smaller is "too far"
+  maxWidth: 0.62, // Larger is "too close"
+  offset: 0.09, // Max distance of the face centre from the guide centre, per axis
+  rollDegrees: 8, // Max eye-line tilt
+  yaw: 0.22, // Max nose offset from the eye midpoint, relative to eye distance
+  movement: 0.02, // Max centre movement between two samples to count as holding still
+};
+
+export type AlignmentHint =
+  | 'no_face'
+  | 'multiple_faces'
+  | 'too_far'
+  | 'too_close'
+  | 'move_left'
+  | 'move_right'
+  | 'move_up'
+  | 'move_down'
+  | 'tilt_left'
+  | 'tilt_right'
+  | 'look_straight'
+  | 'hold_still'
+  | 'aligned';
+
+const HINT_MESSAGES: Record<AlignmentHint, string> = {
+  no_face: 'Position your face inside the oval',
+  multiple_faces: 'Make sure only your face is in view',
+  too_far: 'Move closer',
+  too_close: 'Move back a little',
+  move_left: 'Move left',
+  move_right: 'Move right',
+  move_up: 'Move up',
+  move_down: 'Move down',
+  tilt_left: 'Tilt your head left',
+  tilt_right: 'Tilt your head right',
+  look_straight: 'Look straight at the camera',
+  hold_still: 'Hold still',
+  aligned: 'Perfect, hold still',
+};
+
+/**
+ * Result of checking one camera frame against the face guide.
+ */
+export interface AlignmentState {
+  hint: AlignmentHint;
+  message: string;
+  aligned: boolean; // Face is framed correctly and did not move since the previous sample
+  center: NormalizedPoint | null; // Face centre in display coordinates, used to detect movement
+}
+
+const centroid = (points: { x: number; y: number }[]): { x: number; y: number } | undefined => {
+  if (points.length === 0) {
+    return undefined;
+  }
+  const sum = points.reduce((acc, point) => ({ x: acc.x + point.x, y: acc.y + point.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+};
+
+/**
+ * Converts a detected face into normalized landmarks for the given frame size.
+ * @param face The face in source pixel coordinates.
+ * @param width Source width in pixels.
+ * @param height Source height in pixels.
+ * @returns The landmarks in normalized (0-1) image coordinates.
+ */
+export const toFaceLandmarks = (face: FaceBox, width: number, height: number): FaceLandmarks => {
+  const normalize = (point: { x: number; y: number }): NormalizedPoint => ({ x: point.x / width, y: point.y / height });
+  const center = (type: DetectedFaceLandmark['type']) =>
+    face.landmarks.filter((landmark) => landmark.type === type).map((landmark) => centroid(landmark.locations)).filter(Boolean);
+  const nose = center('nose')[0];
+  const mouth = center('mouth')[0];
+  return {
+    boundingBox: { x: face.x / width, y: face.y / height, width: face.width / width, height: face.height / height },
+    eyes: center('eye').map(normalize).sort((a, b) => a.x - b.x),
+    nose: nose ? normalize(nose) : undefined,
+    mouth: mouth ? normalize(mouth) : undefined,
+  };
+};
+
+/**
+ * Checks a camera frame's faces against the guide oval and picks the single most useful hint.
+ * The camera preview is mirrored, so directions are given as the user sees them on screen.
+ * @param faces Faces detected in the unmirrored frame.
+ * @param width Frame width in pixels.
+ * @param height Frame height in pixels.
+ * @param previousCenter Face centre from the previous sample, to check that the user is holding still.
+ * @returns The alignment state for this frame.
+ */
+export function evaluateAlignment(faces: FaceBox[], width: number, height: number, previousCenter: NormalizedPoint | null): AlignmentState {
+  const result = (hint: AlignmentHint, center: NormalizedPoint | null = null): AlignmentState => ({
+    hint,
+    message: HINT_MESSAGES[hint],
+    aligned: hint === 'aligned',
+    center,
+  });
+
+  if (faces.length === 0) {
+    return result('no_face');
+  }
+  if (faces.length > 1) {
+    return result('multiple_faces');
+  }
+
+  const landmarks = toFaceLandmarks(faces[0], width, height);
+  const { boundingBox } = landmarks;
+  // Mirror x so that "left" and "right" match what the user sees.
+  const center = { x: 1 - (boundingBox.x + boundingBox.width / 2), y: boundingBox.y + boundingBox.height / 2 };
+
+  if (boundingBox.width < TOLERANCE.minWidth) {
+    return result('too_far', center);
+  }
+  if (boundingBox.width > TOLERANCE.maxWidth) {
+    return result('too_close', center);
+  }
+  const dx = center.x - FACE_GUIDE.centerX;
+  const dy = center.y - FACE_GUIDE.centerY;
+  if (Math.abs(dx) > TOLERANCE.offset) {
+    return result(dx > 0 ? 'move_left' : 'move_right', center);
+  }
+  if (Math.abs(dy) > TOLERANCE.offset) {
+    return result(dy > 0 ? 'move_up' : 'move_down', center);
+  }
+
+  if (landmarks.eyes.length === 2) {
+    const [left, right] = landmarks.eyes;
+    // Measured on the mirrored view: a positive angle means the eye on the right of the screen is lower.
+    const roll = (Math.atan2((left.y - right.y) * height, (right.x - left.x) * width) * 180) / Math.PI;
+    if (Math.abs(roll) > TOLERANCE.rollDegrees) {
+      return result(roll > 0 ? 'tilt_left' : 'tilt_right', center);
+    }
+    if (landmarks.nose) {
+      const eyeDistance = right.x - left.x;
+      const yaw = eyeDistance > 0 ? (landmarks.nose.x - (left.x + right.x) / 2) / eyeDistance : 0;
+      if (Math.abs(yaw) > TOLERANCE.yaw) {
+        return result('look_straight', center);
+      }
+    }
+  }
+
+  const moved = !previousCenter || Math.hypot(center.x - previousCenter.x, center.y - previousCenter.y) > TOLERANCE.movement;
+  return result(moved ? 'hold_still' : 'aligned', center);
+}
+
+/**
+ * Detects the face in a still image and returns its landmarks, for storing with a scan.
+ * @param src The image URL (including data URLs).
+ * @returns A promise that resolves with the landmarks of the largest face, or null if none was found
+ * or detection is unavailable.
+ */
+export async function locateFaceLandmarks(src: string): Promise<FaceLandmarks | null> {
+  const image = await loadImage(src);
+  const faces = await detectFaces(image);
+  if (!faces || faces.length === 0) {
+    return null;
+  }
+  const largest = faces.reduce((best, face) => (face.width * face.height > best.width * best.height ? face : best));
+  return toFaceLandmarks(largest, image.naturalWidth, image.naturalHeight);
+}
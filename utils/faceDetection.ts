@@ -0,0 +1,157 @@
+// utils/faceDetection.ts
+
+import type { FaceLandmarker, NormalizedLandmark } from '@mediapipe/tasks-vision';
+
+// Minimal typings for the Shape Detection API's FaceDetector, which is not part of the TypeScript DOM lib.
+declare global {
+  interface DetectedFaceLandmark {
+    type: 'eye' | 'mouth' | 'nose';
+    locations: { x: number; y: number }[];
+  }
+  interface DetectedFace {
+    boundingBox: DOMRectReadOnly;
+    landmarks?: DetectedFaceLandmark[];
+  }
+  interface FaceDetectorInstance {
+    detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+  }
+  interface Window {
+    FaceDetector?: new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorInstance;
+  }
+}
+
+// The MediaPipe runtime and model are downloaded on first use and then cached by the browser. The runtime version
+// must match the @mediapipe/tasks-vision version in package.json.
+const MEDIAPIPE_WASM_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.35/wasm';
+const FACE_LANDMARKER_MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task';
+
+// Detection is treated as unavailable if the model has not loaded by then, so the quality check never hangs.
+const LOAD_TIMEOUT_MS = 20_000;
+
+const MAX_FACES = 3;
+
+// Indices into MediaPipe's 478-point face mesh for the points the alignment guide needs.
+const MESH_POINTS: Record<DetectedFaceLandmark['type'], number[][]> = {
+  eye: [
+    [33, 133], // Corners of the eye on the image's left
+    [362, 263], // Corners of the eye on the image's right
+  ],
+  nose: [[1]], // Tip
+  mouth: [[61, 291, 13, 14]], // Corners and centre of the lips
+};
+
+/**
+ * A face found in an image, in the pixel coordinates of the analyzed source.
+ */
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  landmarks: DetectedFaceLandmark[];
+}
+
+/**
+ * What faces can be detected in: a loaded image or a playing video.
+ */
+export type FaceSource = HTMLImageElement | HTMLVideoElement;
+
+type Detect = (source: FaceSource) => Promise<FaceBox[]>;
+
+let detectorPromise: Promise<Detect | null> | null = null;
+
+const sourceSize = (source: FaceSource) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.naturalWidth, height: source.naturalHeight };
+
+/**
+ * Converts one face mesh (normalized coordinates) into a pixel bounding box with eye, nose and mouth landmarks.
+ */
+const meshToFaceBox = (mesh: NormalizedLandmark[], width: number, height: number): FaceBox => {
+  const xs = mesh.map((point) => point.x * width);
+  const ys = mesh.map((point) => point.y * height);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  const landmarks = (Object.keys(MESH_POINTS) as DetectedFaceLandmark['type'][]).flatMap((type) =>
+    MESH_POINTS[type].map((indices) => ({ type, locations: indices.map((index) => ({ x: xs[index], y: ys[index] })) })),
+  );
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y, landmarks };
+};
+
+const createMediaPipeDetector = async (): Promise<Detect> => {
+  const { FaceLandmarker, FilesetResolver } = await import('@mediapipe/tasks-vision');
+  const fileset = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_URL);
+  const landmarker: FaceLandmarker = await FaceLandmarker.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: FACE_LANDMARKER_MODEL_URL },
+    runningMode: 'IMAGE',
+    numFaces: MAX_FACES,
+  });
+  return async (source) => {
+    const { width, height } = sourceSize(source);
+    return landmarker.detect(source).faceLandmarks.map((mesh) => meshToFaceBox(mesh, width, height));
+  };
+};
+
+// The browser's Shape Detection API, where it is enabled (e.g. Chrome on Android).
+const createShapeDetector = (): Detect | null => {
+  if (typeof window === 'undefined' || typeof window.FaceDetector !== 'function') {
+    return null;
+  }
+  const detector = new window.FaceDetector({ fastMode: true, maxDetectedFaces: MAX_FACES });
+  return async (source) =>
+    (await detector.detect(source)).map((face) => ({
+      x: face.boundingBox.x,
+      y: face.boundingBox.y,
+      width: face.boundingBox.width,
+      height: face.boundingBox.height,
+      landmarks: face.landmarks ?? [],
+    }));
+};
+
+const loadDetector = async (): Promise<Detect | null> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      createMediaPipeDetector(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('The face landmark model took too long to load.')), LOAD_TIMEOUT_MS);
+      }),
+    ]);
+  } catch (error) {
+    console.warn('MediaPipe face landmarks are unavailable, falling back to the browser FaceDetector:', error);
+    return createShapeDetector();
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Loads on-device face detection: MediaPipe's face landmark model, or the browser's FaceDetector where the model
+ * cannot be loaded. Later calls reuse the first load.
+ * @returns A promise that resolves with whether faces can be detected on this device.
+ */
+export async function prepareFaceDetection(): Promise<boolean> {
+  detectorPromise ??= loadDetector();
+  return (await detectorPromise) !== null;
+}
+
+/**
+ * Detects faces locally. Nothing leaves the device.
+ * @param source A loaded image or a playing video.
+ * @returns A promise that resolves with the detected faces, or null when detection is unavailable or fails.
+ */
+export async function detectFaces(source: FaceSource): Promise<FaceBox[] | null> {
+  detectorPromise ??= loadDetector();
+  const detect = await detectorPromise;
+  if (!detect) {
+    return null;
+  }
+  try {
+    return await detect(source);
+  } catch (error) {
+    console.warn('Face detection failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,100 @@
+// utils/faceRegions.ts
+
+/**
+ * Canonical facial regions reported in each issue's `areas`. Left and right are the subject's own sides.
+ */
+export const FACE_REGIONS = [
+  'forehead',
+  'glabella',
+  'leftTemple',
+  'rightTemple',
+  'leftPeriorbital',
+  'rightPeriorbital',
+  'nose',
+  'leftCheek',
+  'rightCheek',
+  'upperLip',
+  'chin',
+  'leftJawline',
+  'rightJawline',
+] as const;
+
+export type FaceRegion = (typeof FACE_REGIONS)[number];
+
+const REGION_LABELS: Record<FaceRegion, string> = {
+  forehead: 'Forehead',
+  glabella: 'Between the brows',
+  leftTemple: 'Left temple',
+  rightTemple: 'Right temple',
+  leftPeriorbital: 'Around left eye',
+  rightPeriorbital: 'Around right eye',
+  nose: 'Nose',
+  leftCheek: 'Left cheek',
+  rightCheek: 'Right cheek',
+  upperLip: 'Upper lip',
+  chin: 'Chin',
+  leftJawline: 'Left jawline',
+  rightJawline: 'Right jawline',
+};
+
+type Side = 'left' | 'right';
+
+const sided = (left: FaceRegion, right: FaceRegion) => (sides: Side[]): FaceRegion[] =>
+  sides.map((side) => (side === 'left' ? left : right));
+
+/**
+ * Free-text area descriptions (from older scans or a non-compliant model) and the regions they cover.
+ * Every matching rule contributes, so "forehead and cheeks" maps to three regions.
+ */
+const ALIAS_RULES: { pattern: RegExp; regions: (sides: Side[]) => FaceRegion[] }[] = [
+  { pattern: /\bt\s?zone\b/, regions: () => ['forehead', 'nose', 'chin'] },
+  { pattern: /\bu\s?zone\b/, regions: () => ['leftCheek', 'rightCheek', 'leftJawline', 'rightJawline', 'chin'] },
+  { pattern: /\b(whole|entire|full) face\b|\ball over\b/, regions: () => [...FACE_REGIONS] },
+  { pattern: /glabella|between (the )?(eye)?brows|frown lines?|brow furrow/, regions: () => ['glabella'] },
+  { pattern: /forehead/, regions: () => ['forehead'] },
+  { pattern: /temple/, regions: sided('leftTemple', 'rightTemple') },
+  { pattern: /\beyes?\b|orbital|eyelid|crow'?s feet|tear trough/, regions: sided('leftPeriorbital', 'rightPeriorbital') },
+  { pattern: /nose|nasal|nostril/, regions: () => ['nose'] },
+  { pattern: /cheek|malar|nasolabial/, regions: sided('leftCheek', 'rightCheek') },
+  { pattern: /\blips?\b|mouth|perioral/, regions: () => ['upperLip'] },
+  { pattern: /chin/, regions: () => ['chin'] },
+  { pattern: /jaw|mandib/, regions: sided('leftJawline', 'rightJawline') },
+];
+
+const CANONICAL_BY_LOWERCASE = new Map<string, FaceRegion>(FACE_REGIONS.map((region) => [region.toLowerCase(), region]));
+
+/**
+ * Maps one area description onto canonical regions, e.g. "T-zone" -> forehead, nose, chin.
+ * Canonical ids are returned as-is (case-insensitively).
+ * @param area A canonical region id or free-text area.
+ * @returns The matching regions, or an empty array if nothing could be recognized.
+ */
+export const toFaceRegions = (area: string): FaceRegion[] => {
+  const canonical = CANONICAL_BY_LOWERCASE.get(area.trim().toLowerCase());
+  if (canonical) {
+    return [canonical];
+  }
+  const text = area.toLowerCase().replace(/[-_]/g, ' ');
+  const left = /\bleft\b/.test(text);
+  const right = /\bright\b/.test(text);
+  const sides: Side[] = left === right ? ['left', 'right'] : left ? ['left'] : ['right'];
+  const regions = ALIAS_RULES.filter((rule) => rule.pattern.test(text)).flatMap((rule) => rule.regions(sides));
+  return [...new Set(regions)];
+};
+
+/**
+ * Maps a list of area descriptions onto distinct canonical regions, in FACE_REGIONS order.
+ * @param areas Canonical region ids or free-text areas, e.g. from a scan saved before regions were introduced.
+ * @returns The distinct regions.
+ */
+export const resolveFaceRegions = (areas: readonly string[] | undefined): FaceRegion[] => {
+  const found = new Set((areas ?? []).flatMap(toFaceRegions));
+  return FACE_REGIONS.filter((region) => found.has(region));
+};
+
+/**
+ * Returns the display label for a region, e.g. "Left cheek". Unknown values are returned unchanged.
+ * @param region A region id.
+ * @returns The display label.
+ */
+export const getRegionLabel = (region: string): string => REGION_LABELS[region as FaceRegion] ?? region;
@@ -0,0 +1,52 @@
+// utils/goalUtils.ts
+
+import { GoalProgress, SkinGoal, StoredScan } from '../types';
+import { toHealthScore } from './metricMetadata';
+import { getIssueLabel } from './metricUtils';
+
+/**
+ * Computes how far a goal has progressed using the latest scan taken after its baseline. Scores are on the health
+ * axis, like everywhere else in the app. A goal is achieved once the target gain is reached, on track while its
+ * progress keeps pace with the time elapsed towards the deadline, and behind otherwise.
+ * @param goal The goal.
+ * @param scans Stored scans in any order.
+ * @param now Reference time, defaults to the current time.
+ * @returns The computed progress.
+ */
+export const computeGoalProgress = (goal: SkinGoal, scans: StoredScan[], now: number = Date.now()): GoalProgress => {
+  const latest = scans
+    .filter((scan) => scan.createdAt > goal.baselineAt && typeof scan.result.issues?.[goal.metric]?.score === 'number')
+    .reduce<StoredScan | undefined>((acc, scan) => (!acc || scan.createdAt > acc.createdAt ? scan : acc), undefined);
+
+  const currentScore = latest ? toHealthScore(goal.metric, latest.result.issues[goal.metric].score) : null;
+  const change = currentScore === null ? 0 : currentScore - goal.baselineScore;
+  const fraction = goal.targetDelta <= 0 ? 1 : change / goal.targetDelta;
+  const percent = Math.max(0, Math.min(100, fraction * 100));
+
+  if (currentScore !== null && fraction >= 1) {
+    return { currentScore, change, percent, status: 'achieved' };
+  }
+  const span = goal.deadline - goal.baselineAt;
+  const elapsed = span > 0 ? Math.min(1, Math.max(0, (now - goal.baselineAt) / span)) : 1;
+  return { currentScore, change, percent, status: fraction >= elapsed ? 'on_track' : 'behind' };
+};
+
+/**
+ * Builds a goal title such as "Improve Redness health by 20 points".
+ * @param goal The goal.
+ * @returns The title.
+ */
+export const getGoalTitle = (goal: Pick<SkinGoal, 'metric' | 'targetDelta'>): string =>
+  `Improve ${getIssueLabel(goal.metric)} health by ${goal.targetDelta} point${goal.targetDelta === 1 ? '' : 's'}`;
+
+/**
+ * Converts a goal stored before goals used the health axis, when baseline and target were raw model scores and the
+ * target was a signed raw change. The target becomes the health gain that the raw target stood for, at least 1.
+ * @param goal The goal with raw scores.
+ * @returns The goal with health scores.
+ */
+export const toHealthGoal = (goal: SkinGoal): SkinGoal => {
+  const baselineScore = toHealthScore(goal.metric, goal.baselineScore);
+  const targetScore = toHealthScore(goal.metric, goal.baselineScore + goal.targetDelta);
+  return { ...goal, baselineScore, targetDelta: Math.max(1, targetScore - baselineScore) };
+};
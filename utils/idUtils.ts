@@ -0,0 +1,10 @@
+// utils/idUtils.ts
+
+/**
+ * Generates a unique id for locally stored records, preferring crypto.randomUUID when available.
+ * @returns A unique id string.
+ */
+export const generateId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
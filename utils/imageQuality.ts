@@ -0,0 +1,166 @@
+// utils/imageQuality.ts
+
+import { ImageQualityFinding, ImageQualityMetrics, ImageQualityReport } from '../types';
+import { detectFaces } from './faceDetection';
+import { loadImage } from './imageUtils';
+
+// Longest edge of the downscaled copy used for measurements; keeps the check fast on phones.
+const ANALYSIS_EDGE = 256;
+
+/**
+ * Thresholds for the quality gate. Sharpness is measured on the ANALYSIS_EDGE copy, so values are resolution independent.
+ */
+const THRESHOLDS = {
+  sharpness: { block: 15, warn: 50 },
+  darkBrightness: { block: 45, warn: 75 },
+  brightBrightness: { block: 220, warn: 195 },
+  clippedShare: { block: 0.3, warn: 0.1 },
+  faceArea: { block: 0.06, warn: 0.12, tooClose: 0.75 },
+};
+
+// Penalty applied to the 0-100 quality score per finding.
+const PENALTY = { block: 40, warn: 15 };
+
+/**
+ * Measures sharpness, exposure and clipping on a downscaled copy of the image.
+ */
+const measurePixels = (image: CanvasImageSource, width: number, height: number) => {
+  const scale = Math.min(1, ANALYSIS_EDGE / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas 2D context is unavailable.');
+  }
+  context.drawImage(image, 0, 0, w, h);
+  const { data } = context.getImageData(0, 0, w, h);
+
+  const luma = new Float32Array(w * h);
+  let lumaSum = 0;
+  let highlights = 0;
+  let shadows = 0;
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    luma[p] = y;
+    lumaSum += y;
+    if (r >= 250 || g >= 250 || b >= 250) highlights++;
+    if (y <= 5) shadows++;
+  }
+
+  // Variance of the 4-neighbour Laplacian: low values mean few edges, i.e. a blurry image.
+  let lapSum = 0;
+  let lapSqSum = 0;
+  let count = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const p = y * w + x;
+      const lap = luma[p - w] + luma[p + w] + luma[p - 1] + luma[p + 1] - 4 * luma[p];
+      lapSum += lap;
+      lapSqSum += lap * lap;
+      count++;
+    }
+  }
+  const lapMean = count ? lapSum / count : 0;
+  const pixels = w * h;
+  return {
+    sharpness: count ? lapSqSum / count - lapMean * lapMean : 0,
+    brightness: lumaSum / pixels,
+    clippedHighlights: highlights / pixels,
+    clippedShadows: shadows / pixels,
+  };
+};
+
+/**
+ * Turns raw metrics into findings with user guidance.
+ * @param metrics The measured metrics.
+ * @returns Findings, most severe first.
+ */
+export const evaluateQuality = (metrics: ImageQualityMetrics): ImageQualityFinding[] => {
+  const findings: ImageQualityFinding[] = [];
+
+  if (metrics.sharpness < THRESHOLDS.sharpness.block) {
+    findings.push({ check: 'sharpness', level: 'block', message: 'The photo is too blurry. Hold your phone steady and let the camera focus before capturing.' });
+  } else if (metrics.sharpness < THRESHOLDS.sharpness.warn) {
+    findings.push({ check: 'sharpness', level: 'warn', message: 'The photo looks slightly soft. Wipe the lens and hold still for sharper detail.' });
+  }
+
+  if (metrics.brightness < THRESHOLDS.darkBrightness.block) {
+    findings.push({ check: 'exposure', level: 'block', message: 'The photo is too dark. Move closer to a window or turn on a light facing you.' });
+  } else if (metrics.brightness < THRESHOLDS.darkBrightness.warn) {
+    findings.push({ check: 'exposure', level: 'warn', message: 'Lighting is dim. Face a window or a soft light for more accurate results.' });
+  } else if (metrics.brightness > THRESHOLDS.brightBrightness.block) {
+    findings.push({ check: 'exposure', level: 'block', message: 'The photo is overexposed. Step out of direct sunlight and turn off the flash.' });
+  } else if (metrics.brightness > THRESHOLDS.brightBrightness.warn) {
+    findings.push({ check: 'exposure', level: 'warn', message: 'The photo is quite bright. Use softer, indirect light.' });
+  }
+
+  const clipped = Math.max(metrics.clippedHighlights, metrics.clippedShadows);
+  if (clipped > THRESHOLDS.clippedShare.block) {
+    findings.push({ check: 'clipping', level: 'block', message: 'Large parts of the photo are washed out or pitch black. Use even, diffuse lighting.' });
+  } else if (clipped > THRESHOLDS.clippedShare.warn) {
+    findings.push({ check: 'clipping', level: 'warn', message: 'Some areas are washed out or in deep shadow. Avoid harsh light and strong shadows.' });
+  }
+
+  if (metrics.faceCount === 0) {
+    findings.push({ check: 'face', level: 'block', message: 'No face was found. Face the camera directly with your whole face in frame.' });
+  } else if (metrics.faceCount !== null && metrics.faceCount > 1) {
+    findings.push({ check: 'face', level: 'warn', message: 'More than one face is visible. Make sure only you are in the frame.' });
+  }
+
+  if (metrics.faceAreaRatio !== null) {
+    if (metrics.faceAreaRatio < THRESHOLDS.faceArea.block) {
+      findings.push({ check: 'faceSize', level: 'block', message: 'Your face is too small in the frame. Move closer so it fills most of the photo.' });
+    } else if (metrics.faceAreaRatio < THRESHOLDS.faceArea.warn) {
+      findings.push({ check: 'faceSize', level: 'warn', message: 'Move a little closer so skin details are visible.' });
+    } else if (metrics.faceAreaRatio > THRESHOLDS.faceArea.tooClose) {
+      findings.push({ check: 'faceSize', level: 'warn', message: 'You are very close to the camera. Move back slightly so your whole face fits.' });
+    }
+  }
+
+  return findings.sort((a, b) => (a.level === b.level ? 0 : a.level === 'block' ? -1 : 1));
+};
+
+// Shown when face presence and size should have been checked but on-device detection could not run.
+const FACE_UNCHECKED: ImageQualityFinding = {
+  check: 'face',
+  level: 'warn',
+  message: 'Your face could not be checked on this device. Make sure your whole face is in frame and fills most of the photo.',
+};
+
+/**
+ * Runs the local quality gate on a photo: sharpness, exposure, clipped channels, face presence and face size.
+ * Face checks are skipped when `checkFace` is false (profile views, which frontal face detection does not reliably
+ * find). When they should run but on-device face detection is unavailable, the photo gets a warning instead of
+ * passing unchecked.
+ * @param src The image URL or data URL.
+ * @param options Set `checkFace: false` to measure only sharpness and exposure.
+ * @returns A promise that resolves with the quality report.
+ */
+export async function assessImageQuality(src: string, options: { checkFace?: boolean } = {}): Promise<ImageQualityReport> {
+  const image = await loadImage(src);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const pixelMetrics = measurePixels(image, width, height);
+
+  const faces = options.checkFace === false ? null : await detectFaces(image);
+  const largestFace = faces?.reduce<number>((max, face) => Math.max(max, face.width * face.height), 0) ?? 0;
+  const metrics: ImageQualityMetrics = {
+    ...pixelMetrics,
+    faceCount: faces ? faces.length : null,
+    faceAreaRatio: faces && faces.length > 0 ? largestFace / (width * height) : null,
+  };
+
+  const findings = evaluateQuality(metrics);
+  if (options.checkFace !== false && !faces) {
+    findings.push(FACE_UNCHECKED);
+  }
+  const score = Math.max(0, 100 - findings.reduce((total, finding) => total + PENALTY[finding.level], 0));
+  const verdict = findings.some((finding) => finding.level === 'block') ? 'block' : findings.length > 0 ? 'warn' : 'ok';
+  return { metrics, findings, score, verdict };
+}
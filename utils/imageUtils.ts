@@ -1,5 +1,7 @@
 // utils/imageUtils.ts
 
+import { readExifSummary } from './exif';
+
 /**
  * Converts a File or Blob object to a base64 encoded string.
  * @param file The File or Blob object to convert.
@@ -17,3 +19,158 @@ export const fileToBase64 = (file: File | Blob): Promise<string> => {
     reader.onerror = (error) => reject(error);
   });
 };
+
+/**
+ * Builds a data URL from base64 image data, suitable for an <img> src.
+ * @param base64 The base64 encoded image data (without the data URL prefix).
+ * @param mimeType The MIME type of the image.
+ * @returns The data URL string.
+ */
+export const toDataUrl = (base64: string, mimeType: string): string => `data:${mimeType};base64,${base64}`;
+
+/**
+ * Loads an image from a URL (including data URLs) into an HTMLImageElement.
+ * @param src The image URL.
+ * @returns A promise that resolves with the decoded image.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode image.'));
+    image.src = src;
+  });
+};
+
+/**
+ * Options for `normalizeImage`.
+ */
+export interface NormalizeImageOptions {
+  maxEdge: number; // Longest side of the output, in pixels
+  quality: number; // Initial encoder quality (0-1)
+  minQuality: number; // Lowest quality tried before the image is shrunk further
+  maxBytes: number; // Size budget for the encoded image
+  mimeType: 'image/jpeg' | 'image/webp';
+}
+
+export const DEFAULT_NORMALIZE_OPTIONS: NormalizeImageOptions = {
+  maxEdge: 1600,
+  quality: 0.85,
+  minQuality: 0.5,
+  maxBytes: 1_000_000,
+  mimeType: 'image/jpeg',
+};
+
+/**
+ * An upright, resized, metadata-free image ready for upload and storage.
+ */
+export interface NormalizedImage {
+  base64: string; // Without the data URL prefix
+  mimeType: string;
+  width: number;
+  height: number;
+  byteSize: number;
+  capturedAt?: number; // When the original photo was taken, from EXIF
+}
+
+// Smallest edge we will shrink to while trying to meet the size budget.
+const MIN_EDGE = 480;
+
+// Modern browsers apply EXIF orientation when decoding; older ones need the transform done by hand.
+const browserAppliesOrientation = (): boolean =>
+  typeof CSS !== 'undefined' && typeof CSS.supports === 'function' && CSS.supports('image-orientation', 'from-image');
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image.'))), mimeType, quality);
+  });
+};
+
+/**
+ * Draws `source` onto a new canvas at the given size, applying an EXIF orientation (1-8) transform.
+ * `width` and `height` are the upright output dimensions.
+ */
+const drawOriented = (source: CanvasImageSource, width: number, height: number, orientation: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  // Orientations 5-8 swap the axes of the stored pixels.
+  const swapped = orientation >= 5;
+  const drawWidth = swapped ? height : width;
+  const drawHeight = swapped ? width : height;
+  switch (orientation) {
+    case 2: context.setTransform(-1, 0, 0, 1, width, 0); break;
+    case 3: context.setTransform(-1, 0, 0, -1, width, height); break;
+    case 4: context.setTransform(1, 0, 0, -1, 0, height); break;
+    case 5: context.setTransform(0, 1, 1, 0, 0, 0); break;
+    case 6: context.setTransform(0, 1, -1, 0, width, 0); break;
+    case 7: context.setTransform(0, -1, -1, 0, width, height); break;
+    case 8: context.setTransform(0, -1, 1, 0, 0, height); break;
+    default: break;
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, drawWidth, drawHeight);
+  return canvas;
+};
+
+/**
+ * Prepares a photo for analysis: applies EXIF orientation, scales it down to `maxEdge`, and re-encodes it
+ * within the size budget. Re-encoding through a canvas drops all metadata (GPS, device, etc.); only the
+ * capture date is kept, and returned separately.
+ * @param file The original image file or blob.
+ * @param options Overrides for `DEFAULT_NORMALIZE_OPTIONS`.
+ * @returns A promise that resolves with the normalized image.
+ */
+export async function normalizeImage(file: Blob, options: Partial<NormalizeImageOptions> = {}): Promise<NormalizedImage> {
+  const settings = { ...DEFAULT_NORMALIZE_OPTIONS, ...options };
+  const exif = await readExifSummary(file);
+  const orientation = browserAppliesOrientation() ? 1 : exif.orientation;
+
+  const url = URL.createObjectURL(file);
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  // naturalWidth/Height are already upright when the browser applied the orientation itself.
+  const swapped = orientation >= 5;
+  const uprightWidth = swapped ? image.naturalHeight : image.naturalWidth;
+  const uprightHeight = swapped ? image.naturalWidth : image.naturalHeight;
+  let scale = Math.min(1, settings.maxEdge / Math.max(uprightWidth, uprightHeight));
+
+  for (;;) {
+    const width = Math.max(1, Math.round(uprightWidth * scale));
+    const height = Math.max(1, Math.round(uprightHeight * scale));
+    const canvas = drawOriented(image, width, height, orientation);
+
+    let quality = settings.quality;
+    let blob = await canvasToBlob(canvas, settings.mimeType, quality);
+    while (blob.size > settings.maxBytes && quality - 0.1 >= settings.minQuality) {
+      quality -= 0.1;
+      blob = await canvasToBlob(canvas, settings.mimeType, quality);
+    }
+
+    // Shrink further only while the image stays large enough to be useful for analysis.
+    const nextScale = scale * 0.8;
+    if (blob.size > settings.maxBytes && Math.max(uprightWidth, uprightHeight) * nextScale >= MIN_EDGE) {
+      scale = nextScale;
+      continue;
+    }
+
+    return {
+      base64: await fileToBase64(blob),
+      // Browsers without WebP encoding silently fall back to PNG.
+      mimeType: blob.type || settings.mimeType,
+      width,
+      height,
+      byteSize: blob.size,
+      capturedAt: exif.capturedAt,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+// utils/locale.ts
+
+import { getSettings } from '../services/settingsService';
+
+/**
+ * Languages the analysis can be written in. Codes are BCP 47 language tags.
+ */
+export const SUPPORTED_LANGUAGES = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'pt', label: 'Português' },
+  { code: 'nl', label: 'Nederlands' },
+  { code: 'pl', label: 'Polski' },
+  { code: 'tr', label: 'Türkçe' },
+  { code: 'hi', label: 'हिन्दी' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ko', label: '한국어' },
+  { code: 'zh', label: '中文' },
+] as const;
+
+export type LanguageCode = (typeof SUPPORTED_LANGUAGES)[number]['code'];
+
+const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+const isLanguageCode = (value: string): value is LanguageCode => SUPPORTED_LANGUAGES.some((language) => language.code === value);
+
+/**
+ * Resolves the language for analysis output: the user's choice first, then the browser language, then English.
+ * Regional variants fall back to their base language, e.g. "pt-BR" -> "pt".
+ * @param preferred The language chosen in settings, if any.
+ * @returns A supported language code.
+ */
+export const resolveLanguage = (preferred?: string): LanguageCode => {
+  const candidates = [preferred, ...(typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [])];
+  for (const candidate of candidates) {
+    const base = candidate?.toLowerCase().split('-')[0];
+    if (base && isLanguageCode(base)) {
+      return base;
+    }
+  }
+  return DEFAULT_LANGUAGE;
+};
+
+/**
+ * Returns the English name of a language, for use in prompts, e.g. "es" -> "Spanish".
+ * @param code A supported language code.
+ * @returns The English name, or the code when the runtime cannot name it.
+ */
+export const getEnglishLanguageName = (code: LanguageCode): string => {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+/**
+ * Returns the language analyses are currently requested in, from settings or the browser.
+ * @returns A supported language code.
+ */
+export const getAnalysisLanguage = (): LanguageCode => resolveLanguage(getSettings().language);
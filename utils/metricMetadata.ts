@@ -0,0 +1,102 @@
+// utils/metricMetadata.ts
+
+import { METRIC_REGISTRY } from '../services/metricRegistry';
+import { IssueKey, ScoreInterval } from '../types';
+
+export type SeverityBandId = 'healthy' | 'mild' | 'moderate' | 'severe';
+
+/**
+ * A severity band on the health axis with its display styles.
+ */
+export interface SeverityBand {
+  id: SeverityBandId;
+  label: string;
+  minHealth: number; // Inclusive lower bound on the 0-100 health axis
+  textClass: string;
+  color: string; // Hex fill for charts and the face map
+}
+
+/**
+ * Health thresholds separating the severity bands. The healthy threshold is also the health value at the edge
+ * of each metric's healthy range.
+ */
+export const SEVERITY_THRESHOLDS = { healthy: 75, mild: 50, moderate: 25 };
+
+/**
+ * Severity bands, healthiest first.
+ */
+export const SEVERITY_BANDS: SeverityBand[] = [
+  { id: 'healthy', label: 'Healthy', minHealth: SEVERITY_THRESHOLDS.healthy, textClass: 'text-emerald-400', color: '#10B981' },
+  { id: 'mild', label: 'Mild', minHealth: SEVERITY_THRESHOLDS.mild, textClass: 'text-yellow-300', color: '#FCD34D' },
+  { id: 'moderate', label: 'Moderate', minHealth: SEVERITY_THRESHOLDS.moderate, textClass: 'text-amber-400', color: '#F59E0B' },
+  { id: 'severe', label: 'Severe', minHealth: 0, textClass: 'text-red-400', color: '#EF4444' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Converts a raw model score into the shared health axis, where 100 is always the healthiest.
+ * Scores inside the healthy range map to [healthy threshold, 100]; scores outside fall off linearly to 0
+ * at the far end of the raw scale.
+ * @param key The issue metric.
+ * @param score The raw 0-100 score from the analysis.
+ * @returns The 0-100 health score, rounded.
+ */
+export const toHealthScore = (key: IssueKey, score: number): number => {
+  const { polarity, healthyRange: [low, high] } = METRIC_REGISTRY[key];
+  const raw = clamp(score, 0, 100);
+  const edge = SEVERITY_THRESHOLDS.healthy;
+
+  if (raw >= low && raw <= high) {
+    const ideal = polarity === 'lower_better' ? low : polarity === 'higher_better' ? high : (low + high) / 2;
+    const reach = polarity === 'target_range' ? (high - low) / 2 : high - low;
+    const closeness = reach > 0 ? 1 - Math.abs(raw - ideal) / reach : 1;
+    return Math.round(edge + (100 - edge) * closeness);
+  }
+  const boundary = raw < low ? low : high;
+  const span = raw < low ? low : 100 - high;
+  const falloff = span > 0 ? Math.abs(raw - boundary) / span : 1;
+  return Math.round(edge * (1 - falloff));
+};
+
+/**
+ * Converts a raw-score confidence interval onto the health axis. For target-range metrics the health range
+ * tops out at 100 when the interval spans the ideal value.
+ * @param key The issue metric.
+ * @param interval The interval on the raw scale.
+ * @returns The lowest and highest health score within the interval.
+ */
+export const toHealthInterval = (key: IssueKey, interval: ScoreInterval): [number, number] => {
+  const healths = [interval.low, interval.high].map((raw) => toHealthScore(key, raw));
+  for (let raw = Math.ceil(interval.low); raw <= interval.high; raw++) {
+    healths.push(toHealthScore(key, raw));
+  }
+  return [Math.min(...healths), Math.max(...healths)];
+};
+
+/**
+ * Returns the health score of an issue, or null when the metric is missing from the result.
+ * @param key The issue metric.
+ * @param issue The issue entry from `SkinAnalysisResult.issues`.
+ * @returns The health score or null.
+ */
+export const getIssueHealth = (key: IssueKey, issue: { score?: number } | undefined): number | null =>
+  typeof issue?.score === 'number' ? toHealthScore(key, issue.score) : null;
+
+/**
+ * Finds the severity band for a health score.
+ * @param health A 0-100 health score.
+ * @returns The band.
+ */
+export const getSeverityBand = (health: number): SeverityBand =>
+  SEVERITY_BANDS.find((band) => health >= band.minHealth) ?? SEVERITY_BANDS[SEVERITY_BANDS.length - 1];
+
+/**
+ * Describes a metric's healthy range in raw score terms, e.g. "0–25" or "30–60".
+ * @param key The issue metric.
+ * @returns The range text.
+ */
+export const formatHealthyRange = (key: IssueKey): string => {
+  const [low, high] = METRIC_REGISTRY[key].healthyRange;
+  return `${low}–${high}`;
+};
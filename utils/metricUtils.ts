@@ -0,0 +1,19 @@
+// utils/metricUtils.ts
+
+import { METRIC_KEYS, METRIC_REGISTRY, isMetricKey } from '../services/metricRegistry';
+import { IssueKey } from '../types';
+
+/**
+ * All per-issue metrics that can appear in SkinAnalysisResult.issues, in display order.
+ */
+export const ISSUE_KEYS: IssueKey[] = METRIC_KEYS;
+
+/**
+ * Returns the display label of a metric, e.g. "darkCircles" -> "Dark Circles". Keys that are no longer
+ * registered are converted from camelCase.
+ * @param key The metric key.
+ * @returns The display label.
+ */
+export const getIssueLabel = (key: string): string =>
+  isMetricKey(key) ? METRIC_REGISTRY[key].label : key.replace(/([A-Z])/g, ' $1').replace(/^./, (str) => str.toUpperCase());
+
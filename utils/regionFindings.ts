@@ -0,0 +1,48 @@
+// utils/regionFindings.ts
+
+import { IssueKey } from '../types';
+import { FaceRegion, resolveFaceRegions } from './faceRegions';
+import { getIssueHealth } from './metricMetadata';
+import { ISSUE_KEYS } from './metricUtils';
+
+/**
+ * One issue found in a region, on the health axis.
+ */
+export interface RegionIssue {
+  key: IssueKey;
+  health: number;
+}
+
+/**
+ * Everything found in one region. `health` is the lowest health among its issues.
+ */
+export interface RegionFinding {
+  issues: RegionIssue[];
+  health: number;
+}
+
+/**
+ * Groups a result's issues by the regions they were reported in, using both `areas` and multi-angle `observations`.
+ * @param issues The `issues` object of an analysis result.
+ * @returns Findings for every region that has at least one issue.
+ */
+export const buildRegionFindings = (
+  issues: Partial<Record<IssueKey, { score: number; areas?: string[]; observations?: { area: string }[] }>>,
+): Map<FaceRegion, RegionFinding> => {
+  const findings = new Map<FaceRegion, RegionFinding>();
+  for (const key of ISSUE_KEYS) {
+    const issue = issues[key];
+    const health = getIssueHealth(key, issue);
+    if (health === null) {
+      continue; // Dropped, disabled or not yet registered when the scan was taken
+    }
+    const regions = resolveFaceRegions([...(issue.areas ?? []), ...(issue.observations ?? []).map((observation) => observation.area)]);
+    for (const region of regions) {
+      const finding = findings.get(region) ?? { issues: [], health: 100 };
+      finding.issues.push({ key, health });
+      finding.health = Math.min(finding.health, health);
+      findings.set(region, finding);
+    }
+  }
+  return findings;
+};
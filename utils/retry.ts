@@ -0,0 +1,77 @@
+// utils/retry.ts
+
+/**
+ * Details passed to `onRetry` before waiting for the next attempt.
+ */
+export interface RetryInfo {
+  attempt: number; // The attempt that just failed, starting at 1
+  maxAttempts: number;
+  delayMs: number; // How long until the next attempt starts
+  error: unknown;
+}
+
+export interface RetryOptions {
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  signal?: AbortSignal; // Aborting stops waiting and prevents further attempts
+  deadline?: number; // Epoch milliseconds; no retry is scheduled that would start after it
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and min(maxDelayMs, baseDelayMs * 2^retryIndex).
+ * @param retryIndex Zero-based index of the retry.
+ * @param baseDelayMs Delay cap for the first retry.
+ * @param maxDelayMs Upper bound for any delay.
+ * @param random Random source in [0, 1), injectable for tests.
+ * @returns The delay in milliseconds.
+ */
+export const getBackoffDelay = (retryIndex: number, baseDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number =>
+  Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** retryIndex));
+
+/**
+ * Resolves after `ms`, or rejects with the signal's reason as soon as it is aborted.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `operation`, retrying failures accepted by `shouldRetry` with exponential backoff and jitter.
+ * @param operation The work to run; receives the 1-based attempt number.
+ * @param options Retry limits, delays and cancellation.
+ * @returns A promise that resolves with the first successful result, or rejects with the last error.
+ */
+export async function retryWithBackoff<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const maxAttempts = options.maxRetries + 1;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || options.signal?.aborted || !options.shouldRetry(error)) {
+        throw error;
+      }
+      const delayMs = getBackoffDelay(attempt - 1, options.baseDelayMs, options.maxDelayMs);
+      if (options.deadline !== undefined && Date.now() + delayMs >= options.deadline) {
+        throw error;
+      }
+      options.onRetry?.({ attempt, maxAttempts, delayMs, error });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+// utils/scanViews.ts
+
+import { ScanView } from '../types';
+
+/**
+ * The views of a multi-angle session, in capture order.
+ */
+export const SCAN_VIEWS: ScanView[] = ['front', 'left', 'right'];
+
+const VIEW_LABELS: Record<ScanView, string> = {
+  front: 'Front',
+  left: 'Left profile',
+  right: 'Right profile',
+};
+
+const VIEW_INSTRUCTIONS: Record<ScanView, string> = {
+  front: 'Look straight at the camera with your whole face inside the oval.',
+  left: 'Turn your head to the right so your left cheek, jawline and temple face the camera.',
+  right: 'Turn your head to the left so your right cheek, jawline and temple face the camera.',
+};
+
+/**
+ * Returns the display label for a view, e.g. "Left profile".
+ * @param view The view.
+ * @returns The display label.
+ */
+export const getViewLabel = (view: ScanView): string => VIEW_LABELS[view] ?? view;
+
+/**
+ * Returns the capture instruction shown to the user for a view.
+ * @param view The view.
+ * @returns The instruction text.
+ */
+export const getViewInstruction = (view: ScanView): string => VIEW_INSTRUCTIONS[view];
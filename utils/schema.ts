@@ -0,0 +1,225 @@
+// utils/schema.ts
+
+/**
+ * A minimal declarative schema language. One schema definition produces the TypeScript type (via `InferSchema`),
+ * the JSON schema sent to the model and the runtime validator, so the three can never drift apart.
+ */
+
+interface BaseSchema {
+  description?: string;
+  /**
+   * Only meaningful on object properties: when this value is missing or cannot be repaired,
+   * the property is dropped and reported instead of failing the whole parent object.
+   */
+  droppable?: boolean;
+}
+
+export interface NumberSchema extends BaseSchema {
+  kind: 'number';
+  min?: number;
+  max?: number;
+  fallback?: number;
+}
+
+export interface StringSchema<E extends readonly string[] = readonly string[]> extends BaseSchema {
+  kind: 'string';
+  enum?: E;
+  fallback?: string;
+}
+
+export interface ArraySchema<I extends SchemaNode = SchemaNode> extends BaseSchema {
+  kind: 'array';
+  items: I;
+  fallback?: readonly [];
+}
+
+export interface ObjectSchema<
+  P extends Record<string, SchemaNode> = Record<string, SchemaNode>,
+  R extends keyof P = keyof P,
+> extends BaseSchema {
+  kind: 'object';
+  properties: P;
+  required: readonly R[];
+}
+
+export type SchemaNode = NumberSchema | StringSchema | ArraySchema | ObjectSchema;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Keys of required properties that are not droppable; everything else is optional in the inferred type.
+type StrictKeys<P extends Record<string, SchemaNode>, R extends keyof P> = {
+  [K in R]: P[K] extends { droppable: true } ? never : K;
+}[R];
+
+/**
+ * Derives the TypeScript type described by a schema.
+ */
+export type InferSchema<S> =
+  S extends NumberSchema ? number
+  : S extends StringSchema<infer E> ? (E extends readonly string[] ? E[number] : string)
+  : S extends ArraySchema<infer I> ? InferSchema<I>[]
+  : S extends ObjectSchema<infer P, infer R>
+    ? Simplify<
+        { [K in StrictKeys<P, R>]: InferSchema<P[K]> } &
+        { [K in Exclude<keyof P, StrictKeys<P, R>>]?: InferSchema<P[K]> }
+      >
+  : never;
+
+// Builders. They only add the `kind` tag while preserving literal types (enums, droppable) for inference.
+export const numberSchema = <const O extends Omit<NumberSchema, 'kind'>>(options: O) => ({ kind: 'number' as const, ...options });
+export const stringSchema = <const O extends Omit<StringSchema, 'kind'>>(options: O) => ({ kind: 'string' as const, ...options });
+export const arraySchema = <const I extends SchemaNode, const O extends Omit<ArraySchema, 'kind' | 'items'>>(items: I, options: O) => ({
+  kind: 'array' as const,
+  items,
+  ...options,
+});
+export const objectSchema = <const P extends Record<string, SchemaNode>, const R extends keyof P, const O extends BaseSchema = {}>(
+  properties: P,
+  required: readonly R[],
+  options?: O,
+) => ({ kind: 'object' as const, properties, required, ...(options as O) });
+
+/**
+ * One problem found while validating a value.
+ * `repaired` problems were fixed automatically (clamped, coerced or defaulted);
+ * `dropped` problems removed an optional part of the result; `error` problems made the value unusable.
+ */
+export interface SchemaViolation {
+  path: string; // e.g. "issues.acne.score"
+  message: string;
+  level: 'repaired' | 'dropped' | 'error';
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; violations: SchemaViolation[] }
+  | { ok: false; violations: SchemaViolation[] };
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const describeValue = (value: unknown): string =>
+  value === undefined ? 'missing' : value === null ? 'null' : Array.isArray(value) ? 'an array' : `${typeof value} ${JSON.stringify(value)}`;
+
+/**
+ * Validates a value against a schema, repairing what it can and collecting every violation with its path.
+ * @returns undefined when the value cannot be used, otherwise the repaired value.
+ */
+const validateNode = (node: SchemaNode, value: unknown, path: string, violations: SchemaViolation[]): unknown => {
+  const fail = (message: string): undefined => {
+    violations.push({ path, message, level: 'error' });
+    return undefined;
+  };
+  const repair = <T>(repaired: T, message: string): T => {
+    violations.push({ path, message, level: 'repaired' });
+    return repaired;
+  };
+  const fallbackOr = (message: string): unknown =>
+    'fallback' in node && node.fallback !== undefined
+      ? repair(Array.isArray(node.fallback) ? [...node.fallback] : node.fallback, `${message}; used default`)
+      : fail(message);
+
+  switch (node.kind) {
+    case 'number': {
+      let num = value;
+      if (typeof num === 'string' && num.trim() !== '' && Number.isFinite(Number(num))) {
+        num = repair(Number(num), `Coerced string "${value}" to a number`);
+      }
+      if (typeof num !== 'number' || !Number.isFinite(num)) {
+        return fallbackOr(`Expected a number but got ${describeValue(value)}`);
+      }
+      if (node.min !== undefined && num < node.min) {
+        return repair(node.min, `Clamped ${num} up to minimum ${node.min}`);
+      }
+      if (node.max !== undefined && num > node.max) {
+        return repair(node.max, `Clamped ${num} down to maximum ${node.max}`);
+      }
+      return num;
+    }
+    case 'string': {
+      let str = value;
+      if (typeof str === 'number' || typeof str === 'boolean') {
+        str = repair(String(str), `Coerced ${typeof value} to a string`);
+      }
+      if (typeof str !== 'string') {
+        return fallbackOr(`Expected a string but got ${describeValue(value)}`);
+      }
+      if (node.enum) {
+        if (node.enum.includes(str)) {
+          return str;
+        }
+        const match = node.enum.find((option) => option.toLowerCase() === (str as string).trim().toLowerCase());
+        if (match) {
+          return repair(match, `Normalized "${str}" to "${match}"`);
+        }
+        return fallbackOr(`Expected one of ${node.enum.join(', ')} but got "${str}"`);
+      }
+      return str;
+    }
+    case 'array': {
+      let items = value;
+      if (!Array.isArray(items)) {
+        if (items !== undefined && items !== null && node.items.kind !== 'array' && node.items.kind !== 'object') {
+          items = repair([items], `Wrapped single value in an array`);
+        } else {
+          return fallbackOr(`Expected an array but got ${describeValue(value)}`);
+        }
+      }
+      const result: unknown[] = [];
+      (items as unknown[]).forEach((item, index) => {
+        const itemViolations: SchemaViolation[] = [];
+        const validated = validateNode(node.items, item, joinPath(path, index), itemViolations);
+        if (validated === undefined) {
+          // Drop unusable items rather than rejecting the whole list.
+          violations.push({ path: joinPath(path, index), message: `Removed invalid item (${describeValue(item)})`, level: 'repaired' });
+        } else {
+          violations.push(...itemViolations);
+          result.push(validated);
+        }
+      });
+      return result;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(`Expected an object but got ${describeValue(value)}`);
+      }
+      const source = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      let usable = true;
+      for (const [key, child] of Object.entries(node.properties)) {
+        const childPath = joinPath(path, key);
+        const isRequired = (node.required as readonly string[]).includes(key);
+        if (source[key] === undefined && !isRequired) {
+          continue;
+        }
+        const childViolations: SchemaViolation[] = [];
+        const validated = validateNode(child, source[key], childPath, childViolations);
+        if (validated !== undefined) {
+          violations.push(...childViolations);
+          result[key] = validated;
+        } else if (child.droppable || !isRequired) {
+          violations.push(
+            ...childViolations.map((violation) => ({ ...violation, level: 'dropped' as const })),
+          );
+        } else {
+          violations.push(...childViolations);
+          usable = false;
+        }
+      }
+      return usable ? result : undefined;
+    }
+  }
+};
+
+/**
+ * Validates and repairs a value against a schema.
+ * @param schema The schema describing the expected shape.
+ * @param value The untrusted value, e.g. parsed model output.
+ * @returns The repaired value and all violations, or `ok: false` with the violations that made it unusable.
+ */
+export function validateSchema<S extends SchemaNode>(schema: S, value: unknown): ValidationResult<InferSchema<S>> {
+  const violations: SchemaViolation[] = [];
+  const validated = validateNode(schema, value, '', violations);
+  return validated === undefined
+    ? { ok: false, violations }
+    : { ok: true, value: validated as InferSchema<S>, violations };
+}
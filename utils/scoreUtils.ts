@@ -0,0 +1,19 @@
+// utils/scoreUtils.ts
+
+/**
+ * Maps an overall skin health score (0-100) to a short rating label.
+ * @param score The overall score.
+ * @returns A label such as "Excellent" or "Fair".
+ */
+export const getScoreLabel = (score: number): string => {
+  if (score >= 80) {
+    return 'Excellent';
+  }
+  if (score >= 65) {
+    return 'Good';
+  }
+  if (score >= 50) {
+    return 'Fair';
+  }
+  return 'Needs Attention';
+};
@@ -0,0 +1,133 @@
+// utils/usageUtils.ts
+
+import { ApiCallRecord, ModelPrice } from '../types';
+
+/**
+ * Built-in prices in USD per million tokens, used when the user has not entered their own.
+ * These are estimates; actual billing depends on the account's plan and region.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+};
+
+// Token counts assumed for a call when there is no recorded history for the model yet.
+const TYPICAL_CALL_TOKENS = { input: 2_500, output: 1_200 };
+
+// Number of recent successful calls averaged when estimating the cost of the next one.
+const ESTIMATE_SAMPLE_SIZE = 10;
+
+/**
+ * Call count, token and cost totals for a period.
+ */
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // Estimated USD
+}
+
+/**
+ * Resolves the price of a model: the user's override first, then the built-in table.
+ * @param model The model id.
+ * @param overrides Prices entered by the user, by model id.
+ * @returns The price, or undefined when the model is unknown (its calls are counted as free).
+ */
+export const getModelPrice = (model: string, overrides: Record<string, ModelPrice> = {}): ModelPrice | undefined =>
+  overrides[model] ?? DEFAULT_MODEL_PRICES[model];
+
+const costOf = (inputTokens: number, outputTokens: number, price: ModelPrice | undefined): number =>
+  price ? (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000 : 0;
+
+/**
+ * Estimates the cost of one recorded call.
+ * @param call The call.
+ * @param overrides Prices entered by the user.
+ * @returns The estimated cost in USD.
+ */
+export const estimateCallCost = (call: ApiCallRecord, overrides?: Record<string, ModelPrice>): number =>
+  costOf(call.inputTokens ?? 0, call.outputTokens ?? 0, getModelPrice(call.model, overrides));
+
+/**
+ * Adds up calls into totals.
+ * @param calls The calls to include.
+ * @param overrides Prices entered by the user.
+ * @returns The totals.
+ */
+export const sumUsage = (calls: ApiCallRecord[], overrides?: Record<string, ModelPrice>): UsageTotals =>
+  calls.reduce<UsageTotals>(
+    (totals, call) => ({
+      calls: totals.calls + 1,
+      failedCalls: totals.failedCalls + (call.outcome === 'success' ? 0 : 1),
+      inputTokens: totals.inputTokens + (call.inputTokens ?? 0),
+      outputTokens: totals.outputTokens + (call.outputTokens ?? 0),
+      cost: totals.cost + estimateCallCost(call, overrides),
+    }),
+    { calls: 0, failedCalls: 0, inputTokens: 0, outputTokens: 0, cost: 0 },
+  );
+
+/**
+ * Returns the start of the local calendar day containing a time.
+ */
+export const startOfDay = (now: number): number => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * Returns the start of the local calendar month containing a time.
+ */
+export const startOfMonth = (now: number): number => {
+  const date = new Date(startOfDay(now));
+  date.setDate(1);
+  return date.getTime();
+};
+
+/**
+ * Summarizes usage for today and for the current calendar month.
+ * @param calls Calls from at least the start of the current month.
+ * @param overrides Prices entered by the user.
+ * @param now Reference time, defaults to the current time.
+ * @returns Totals for both periods.
+ */
+export const summarizeUsage = (
+  calls: ApiCallRecord[],
+  overrides?: Record<string, ModelPrice>,
+  now: number = Date.now(),
+): { today: UsageTotals; month: UsageTotals } => ({
+  today: sumUsage(calls.filter((call) => call.timestamp >= startOfDay(now)), overrides),
+  month: sumUsage(calls.filter((call) => call.timestamp >= startOfMonth(now)), overrides),
+});
+
+/**
+ * Estimates what the next scan will cost, from the average of recent successful calls to the same model.
+ * @param calls Recorded calls, oldest first.
+ * @param model The model the scan will use.
+ * @param callsPerScan Model calls the scan will make, e.g. the number of runs in high-confidence mode.
+ * @param overrides Prices entered by the user.
+ * @returns The estimated cost in USD.
+ */
+export const estimateScanCost = (
+  calls: ApiCallRecord[],
+  model: string,
+  callsPerScan: number,
+  overrides?: Record<string, ModelPrice>,
+): number => {
+  const recent = calls
+    .filter((call) => call.model === model && call.outcome === 'success' && call.inputTokens !== null)
+    .slice(-ESTIMATE_SAMPLE_SIZE);
+  const perCall = recent.length > 0
+    ? recent.reduce((sum, call) => sum + estimateCallCost(call, overrides), 0) / recent.length
+    : costOf(TYPICAL_CALL_TOKENS.input, TYPICAL_CALL_TOKENS.output, getModelPrice(model, overrides));
+  return perCall * callsPerScan;
+};
+
+/**
+ * Formats a USD amount with enough precision for fractions of a cent, e.g. "$0.0042".
+ */
+export const formatCost = (amount: number): string =>
+  `$${amount < 1 ? amount.toFixed(4) : amount.toFixed(2)}`;
@@ -4,15 +4,24 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With a proxy the key stays on the server (server/index.ts) and is not bundled into the client.
+    const bundledApiKey = env.GEMINI_PROXY_URL ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // xfwd adds X-Forwarded-For, so the analysis proxy can rate-limit each client rather than the dev server.
+          '/api': { target: `http://localhost:${env.PROXY_PORT || 8787}`, xfwd: true },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(bundledApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(bundledApiKey),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER)
       },
       resolve: {
         alias: {